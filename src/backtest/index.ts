@@ -0,0 +1,238 @@
+import { PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import * as fs from 'fs';
+import { connection, config, BRIDGE_MINTS, TOKENS } from '../config';
+import { Executor } from '../execution/executor';
+import { PoolManager } from '../pools/poolManager';
+import { ArbOpportunity, PoolInfo } from '../pools/types';
+import { SpatialStrategy } from '../strategies/spatial';
+import { TemporalStrategy } from '../strategies/temporal';
+import { TriangularStrategy } from '../strategies/triangular';
+import { RecordedEvent, applyRecordedUpdate, readRecording } from './recorder';
+import { SimulatedExecutor, SimulatedTrade } from './simulatedExecutor';
+
+type StrategyName = ArbOpportunity['type'];
+const STRATEGIES: StrategyName[] = ['spatial', 'temporal', 'triangular'];
+
+interface StrategyStats {
+  found: number;        // cycles in which this strategy had the best opportunity
+  executed: number;
+  unsupported: number;  // opportunities the Executor can't run (multi-hop outside atomic mode), never executed
+  landed: number;
+  reverted: number;
+  leg2Failed: number;
+  expectedProfit: Decimal;
+  fees: Decimal;
+  pnl: Decimal;
+}
+
+/**
+ * Replays a recording (RECORD_FILE from a live run) through PoolManager and
+ * the three strategies on the recording's clock, executing the best
+ * opportunity of each cycle with the SimulatedExecutor — the same choice
+ * ArbitrageBot.runCycle makes. A cycle runs config.pollIntervalMs after the
+ * previous one once pool state has changed, and not while a trade is in flight.
+ */
+class Backtest {
+  // Every update was recorded, so a pool is current through the newest slot replayed so far
+  private poolManager = new PoolManager(connection, { observedSlot: () => this.latestSlot || null });
+  private now = 0;
+  private latestSlot = 0;
+  private spatial = new SpatialStrategy(this.poolManager, () => this.now);
+  private temporal = new TemporalStrategy(this.poolManager, () => this.now);
+  private triangular = new TriangularStrategy(this.poolManager, () => this.now);
+  private executor = new SimulatedExecutor(this.poolManager);
+  private pools = new Map<string, PoolInfo>();
+  private tokenMints = new Map<string, PublicKey>();
+  private nextCycleAt = 0;
+  private dirty = false;
+  private events = 0;
+  private cycles = 0;
+  readonly trades: SimulatedTrade[] = [];
+  readonly stats = new Map<StrategyName, StrategyStats>(STRATEGIES.map(s => [s, {
+    found: 0, executed: 0, unsupported: 0, landed: 0, reverted: 0, leg2Failed: 0,
+    expectedProfit: new Decimal(0), fees: new Decimal(0), pnl: new Decimal(0),
+  }]));
+
+  async run(file: string): Promise<void> {
+    let first: number | null = null;
+    for await (const event of readRecording(file)) {
+      first ??= event.t;
+      this.advance(event.t);
+      this.now = Math.max(this.now, event.t);
+      this.apply(event);
+      this.events++;
+    }
+    // Let the last trade in flight settle
+    for (let due = this.executor.dueAt(); due !== null; due = this.executor.dueAt()) {
+      this.now = due;
+      this.record(this.executor.settle());
+    }
+    const hours = first === null ? 0 : (this.now - first) / 3_600_000;
+    console.log(`   ${this.events} events, ${this.pools.size} pools, ${this.cycles} cycles over ${hours.toFixed(2)}h`);
+  }
+
+  /** Everything that happens before the next event: trade steps falling due and scan cycles */
+  private advance(until: number): void {
+    for (;;) {
+      const due = this.executor.dueAt();
+      if (due !== null && due < until) {
+        this.now = due;
+        this.record(this.executor.settle());
+        continue;
+      }
+      const cycleAt = Math.max(this.nextCycleAt, this.now);
+      if (this.dirty && !this.executor.busy() && cycleAt < until) {
+        this.now = cycleAt;
+        this.runCycle();
+        continue;
+      }
+      return;
+    }
+  }
+
+  private apply(event: RecordedEvent): void {
+    if (event.type === 'remove') {
+      const pool = this.pools.get(event.address);
+      if (!pool) return;
+      this.poolManager.retire([pool]);
+      this.pools.delete(event.address);
+      this.dirty = true;
+      return;
+    }
+
+    if (event.type === 'pool') {
+      const key = event.pool.address.toBase58();
+      const known = this.pools.get(key);
+      // Reloaded tick / bin arrays: update in place, opportunities in flight hold the object
+      if (known) Object.assign(known, event.pool);
+      else {
+        this.pools.set(key, event.pool);
+        this.poolManager.add([event.pool]);
+        for (const mint of [event.pool.tokenA, event.pool.tokenB]) {
+          // Bridge mints only close triangular cycles; the bot doesn't scan them as tokens
+          if (!mint.equals(TOKENS.SOL) && !BRIDGE_MINTS.some(b => b.equals(mint))) this.tokenMints.set(mint.toBase58(), mint);
+        }
+      }
+      (known ?? event.pool).lastUpdate = event.t;
+    } else {
+      const pool = this.pools.get(event.address);
+      if (!pool) return;
+      applyRecordedUpdate(pool, event.state);
+      if (event.slot !== null) {
+        pool.slot = event.slot;
+        this.latestSlot = Math.max(this.latestSlot, event.slot);
+      }
+      pool.lastUpdate = event.t;
+      this.temporal.recordUpdate(pool, TOKENS.SOL);
+    }
+    this.dirty = true;
+  }
+
+  private runCycle(): void {
+    this.cycles++;
+    this.dirty = false;
+    this.nextCycleAt = this.now + config.pollIntervalMs;
+    const tradeSize = new Decimal(config.maxTradeSizeSol).mul(1e9);
+    let bestOpp: ArbOpportunity | null = null;
+
+    for (const mint of this.tokenMints.values()) {
+      const pools = this.poolManager.getPoolsForPair(TOKENS.SOL, mint);
+      if (pools.length === 0) continue;
+      const opps = [
+        ...this.spatial.findOpportunities(pools, TOKENS.SOL, tradeSize),
+        ...this.temporal.findOpportunities(pools, TOKENS.SOL),
+        ...this.triangular.findOpportunities(pools, TOKENS.SOL, tradeSize),
+      ];
+      for (const opp of opps) {
+        // Same filter as the bot: routes the Executor can't run don't crowd out ones it can
+        if (!Executor.supportsRoute(opp)) {
+          this.stats.get(opp.type)!.unsupported++;
+          continue;
+        }
+        if (!bestOpp || opp.profitBps > bestOpp.profitBps) bestOpp = opp;
+      }
+    }
+    if (!bestOpp) return;
+
+    const stats = this.stats.get(bestOpp.type)!;
+    stats.found++;
+    if (!this.executor.submit(bestOpp, this.now)) return;
+    stats.executed++;
+    stats.expectedProfit = stats.expectedProfit.add(bestOpp.expectedProfit);
+  }
+
+  private record(trade: SimulatedTrade | null): void {
+    if (!trade) return;
+    this.trades.push(trade);
+    // The bot picks up scanning as soon as execute() returns
+    this.dirty = true;
+    this.nextCycleAt = this.now;
+
+    const stats = this.stats.get(trade.opportunity.type)!;
+    if (trade.outcome === 'landed') stats.landed++;
+    else if (trade.outcome === 'reverted') stats.reverted++;
+    else stats.leg2Failed++;
+    stats.fees = stats.fees.add(trade.fees);
+    stats.pnl = stats.pnl.add(trade.pnl);
+  }
+}
+
+/** PnL curve: one row per settled trade with the running total */
+function writePnlCurve(trades: SimulatedTrade[], file: string): void {
+  let cumulative = new Decimal(0);
+  const rows = ['timestamp,strategy,outcome,reason,expected_sol,fees_sol,pnl_sol,cumulative_sol'];
+  for (const t of trades) {
+    cumulative = cumulative.add(t.pnl);
+    rows.push([
+      new Date(t.settledAt).toISOString(), t.opportunity.type, t.outcome, t.reason ?? '',
+      t.opportunity.expectedProfit.div(1e9).toFixed(9), t.fees.div(1e9).toFixed(9),
+      t.pnl.div(1e9).toFixed(9), cumulative.div(1e9).toFixed(9),
+    ].join(','));
+  }
+  fs.writeFileSync(file, rows.join('\n') + '\n');
+}
+
+/** Cumulative PnL squeezed into one line of block characters */
+function sparkline(trades: SimulatedTrade[], width = 60): string {
+  if (trades.length === 0) return '';
+  let cumulative = 0;
+  const curve = trades.map(t => (cumulative += t.pnl.toNumber()));
+  const step = Math.max(1, Math.ceil(curve.length / width));
+  const points = curve.filter((_, i) => i % step === step - 1 || i === curve.length - 1);
+  const [min, max] = [Math.min(0, ...points), Math.max(0, ...points)];
+  const bars = '▁▂▃▄▅▆▇█';
+  return points.map(p => bars[max === min ? 0 : Math.round(((p - min) / (max - min)) * (bars.length - 1))]).join('');
+}
+
+async function main() {
+  const [file, out] = process.argv.slice(2);
+  if (!file) {
+    console.error('Usage: npm run backtest -- <recording.jsonl> [pnl.csv]');
+    process.exit(1);
+  }
+
+  console.log(`\n📼 Backtest: ${file}`);
+  console.log(`   Latency ${config.backtestLatencyMs}ms | leg 2 failure ${config.backtestLeg2FailureRate * 100}% | slippage ${config.slippageBps} bps | ${config.atomicExecution ? 'atomic' : config.submitMode === 'jito' ? 'bundle' : 'sequential'} execution`);
+  const backtest = new Backtest();
+  await backtest.run(file);
+
+  const sol = (d: Decimal) => d.div(1e9).toFixed(6);
+  console.log('═'.repeat(50));
+  let total = new Decimal(0);
+  for (const [name, s] of backtest.stats) {
+    total = total.add(s.pnl);
+    const winRate = s.executed === 0 ? 0 : (s.landed / s.executed) * 100;
+    console.log(`${name.padEnd(11)} found ${s.found} | executed ${s.executed} | not executable ${s.unsupported} | landed ${s.landed} (${winRate.toFixed(0)}%) | reverted ${s.reverted} | leg 2 failed ${s.leg2Failed}`);
+    console.log(`${''.padEnd(11)} expected ${sol(s.expectedProfit)} SOL | fees ${sol(s.fees)} SOL | realized ${sol(s.pnl)} SOL`);
+  }
+  console.log('═'.repeat(50));
+  console.log(`Total PnL: ${sol(total)} SOL over ${backtest.trades.length} trades`);
+  if (backtest.trades.length > 0) console.log(`PnL curve: ${sparkline(backtest.trades)}`);
+
+  const curveFile = out || file.replace(/\.jsonl$/, '') + '.pnl.csv';
+  writePnlCurve(backtest.trades, curveFile);
+  console.log(`💾 PnL curve written to ${curveFile}`);
+}
+
+main().catch(err => { console.error('Fatal:', err); process.exit(1); });
@@ -0,0 +1,154 @@
+import { PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { PoolInfo } from '../pools/types';
+
+/**
+ * One line of a recording:
+ *   - pool:   full PoolInfo — written when a pool is first tracked and again
+ *             whenever its tick / bin arrays are reloaded
+ *   - update: the fields a stream update changes (reserves, sqrtPrice,
+ *             concentrated / DLMM swap state without ticks / bins, curve state)
+ *   - remove: the pool stopped being tracked (delisted or graduated)
+ */
+export type RecordedEvent =
+  | { type: 'pool'; t: number; pool: PoolInfo }
+  | { type: 'update'; t: number; address: string; slot: number | null; state: Partial<PoolInfo> }
+  | { type: 'remove'; t: number; address: string };
+
+/**
+ * Append-only JSONL log of every pool state change the live bot sees, as the
+ * input for backtests (see backtest/index.ts). Updates that leave a pool's
+ * state unchanged (e.g. a refresh of a quiet pool) are skipped.
+ */
+export class UpdateRecorder {
+  private out: fs.WriteStream;
+  private last = new Map<PoolInfo, { state: string; ticks?: unknown; bins?: unknown }>();
+  private removed = new WeakSet<PoolInfo>();
+
+  constructor(private file: string) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.out = fs.createWriteStream(file, { flags: 'a' });
+    console.log(`   💾 Recording pool updates to ${file}`);
+  }
+
+  /** Full state of newly tracked pools */
+  recordPools(pools: PoolInfo[]): void {
+    const t = Date.now();
+    for (const pool of pools) {
+      this.removed.delete(pool);
+      this.writePool(pool, t);
+    }
+  }
+
+  /** A pool's state after a stream update or refresh */
+  record(pool: PoolInfo): void {
+    if (this.removed.has(pool)) return; // e.g. the update that graduated a curve, delivered after its removal
+    const last = this.last.get(pool);
+    if (!last || last.ticks !== pool.concentrated?.ticks || last.bins !== pool.dlmm?.bins) {
+      this.writePool(pool, pool.lastUpdate);
+      return;
+    }
+    const state = JSON.stringify(encode(hotState(pool)));
+    if (state === last.state) return;
+    last.state = state;
+    this.write(`{"type":"update","t":${pool.lastUpdate},"address":"${pool.address.toBase58()}","slot":${pool.slot ?? null},"state":${state}}`);
+  }
+
+  recordRemoved(pools: PoolInfo[]): void {
+    const t = Date.now();
+    for (const pool of pools) {
+      this.last.delete(pool);
+      this.removed.add(pool);
+      this.write(JSON.stringify({ type: 'remove', t, address: pool.address.toBase58() }));
+    }
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.out.end(resolve));
+  }
+
+  private writePool(pool: PoolInfo, t: number): void {
+    this.last.set(pool, {
+      state: JSON.stringify(encode(hotState(pool))),
+      ticks: pool.concentrated?.ticks,
+      bins: pool.dlmm?.bins,
+    });
+    this.write(JSON.stringify({ type: 'pool', t, pool: encode(pool) }));
+  }
+
+  private write(line: string): void {
+    this.out.write(line + '\n');
+  }
+}
+
+/** Read a recording line by line (recordings can be far larger than memory allows to parse at once) */
+export async function* readRecording(file: string): AsyncGenerator<RecordedEvent> {
+  const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    let raw: any;
+    try {
+      raw = JSON.parse(line);
+    } catch {
+      continue; // a line cut short by a crash
+    }
+    if (raw.type === 'pool') yield { type: 'pool', t: raw.t, pool: decode(raw.pool) };
+    else if (raw.type === 'update') yield { type: 'update', t: raw.t, address: raw.address, slot: raw.slot, state: decode(raw.state) };
+    else if (raw.type === 'remove') yield raw;
+  }
+}
+
+/** Apply a recorded update in place. Tick / bin lists aren't in updates, so the pool keeps its own. */
+export function applyRecordedUpdate(pool: PoolInfo, state: Partial<PoolInfo>): void {
+  const { concentrated, dlmm, ...rest } = state;
+  Object.assign(pool, rest);
+  if (concentrated && pool.concentrated) pool.concentrated = { ...pool.concentrated, ...concentrated };
+  if (dlmm && pool.dlmm) pool.dlmm = { ...pool.dlmm, ...dlmm };
+}
+
+/** The fields a stream update can change */
+function hotState(pool: PoolInfo): Partial<PoolInfo> {
+  const state: Partial<PoolInfo> = { reserveA: pool.reserveA, reserveB: pool.reserveB, fee: pool.fee };
+  if (pool.sqrtPriceX64) state.sqrtPriceX64 = pool.sqrtPriceX64;
+  if (pool.bondingCurve) state.bondingCurve = pool.bondingCurve;
+  if (pool.concentrated) {
+    const { ticks, tickArrayStarts, ...swapState } = pool.concentrated;
+    state.concentrated = swapState as PoolInfo['concentrated'];
+  }
+  if (pool.dlmm) {
+    const { bins, binArrayIndexes, ...pairState } = pool.dlmm;
+    state.dlmm = pairState as PoolInfo['dlmm'];
+  }
+  return state;
+}
+
+// JSON has no PublicKey / Decimal / bigint / Map, so those are tagged: { $key }, { $dec }, { $big }, { $map }
+function encode(value: any): any {
+  if (value === null || value === undefined) return value;
+  if (typeof value === 'bigint') return { $big: value.toString() };
+  if (value instanceof PublicKey) return { $key: value.toBase58() };
+  if (Decimal.isDecimal(value)) return { $dec: value.toString() };
+  if (value instanceof Map) return { $map: [...value.entries()].map(([k, v]) => [encode(k), encode(v)]) };
+  if (Array.isArray(value)) return value.map(encode);
+  if (typeof value === 'object') {
+    const out: any = {};
+    for (const [k, v] of Object.entries(value)) if (v !== undefined) out[k] = encode(v);
+    return out;
+  }
+  return value;
+}
+
+function decode(value: any): any {
+  if (value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map(decode);
+  if ('$big' in value) return BigInt(value.$big);
+  if ('$key' in value) return new PublicKey(value.$key);
+  if ('$dec' in value) return new Decimal(value.$dec);
+  if ('$map' in value) return new Map(value.$map.map(([k, v]: [any, any]) => [decode(k), decode(v)]));
+  const out: any = {};
+  for (const [k, v] of Object.entries(value)) out[k] = decode(v);
+  return out;
+}
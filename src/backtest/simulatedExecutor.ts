@@ -0,0 +1,221 @@
+import { PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { ArbOpportunity, PoolInfo } from '../pools/types';
+import { PoolManager } from '../pools/poolManager';
+import { config } from '../config';
+import { Executor } from '../execution/executor';
+
+const BASE_FEE_LAMPORTS = 5_000;
+const LEG_SETTLE_MS = 1_000;    // Executor waits this long after leg 1 before reading the token balance
+const DEDUP_WINDOW_MS = 30_000; // Executor skips the same pool pair + strategy within this window
+
+export type TradeOutcome = 'landed' | 'reverted' | 'leg2-failed';
+
+/** One simulated execution, settled against the replayed pool states */
+export interface SimulatedTrade {
+  opportunity: ArbOpportunity;
+  decidedAt: number;
+  settledAt: number;
+  outcome: TradeOutcome;
+  reason?: string;
+  fees: Decimal;          // lamports: base + priority fees and tips actually paid
+  pnl: Decimal;           // lamports, net of fees
+}
+
+interface Step {
+  at: number;
+  run: () => SimulatedTrade | null; // null = more steps follow
+}
+
+/**
+ * Stand-in for Executor during a backtest. Trades land config.backtestLatencyMs
+ * after the decision (per leg, in sequential mode) and are re-quoted against
+ * the pool states at that moment:
+ *   - slippage: a leg whose output falls below the minimum the Executor would
+ *     have set (quote at decision time less config.slippageBps) reverts
+ *   - leg 2 fails outright with config.backtestLeg2FailureRate
+ *   - fees: base fee per transaction plus the full priority-fee budget
+ *     (config.maxFeeProfitFraction of expected profit) and the Jito tip
+ * Every hop of opp.route is re-quoted in order; routes the Executor can't
+ * run (multi-hop outside atomic mode) are refused. Atomic transactions and
+ * bundles that revert don't land, so over Jito they cost nothing and over
+ * RPC they cost their fees. Sequential mode holds the
+ * tokens after a failed leg 2 and sells them back on the buy pool, as the
+ * Executor's fallback does. Our own trades don't move the replayed pools.
+ */
+export class SimulatedExecutor {
+  private steps: Step[] = []; // the in-flight trade's remaining steps
+  private lastExecution: { key: string; timestamp: number } | null = null;
+  private random: () => number;
+
+  constructor(private poolManager: PoolManager, seed = config.backtestSeed) {
+    this.random = mulberry32(seed);
+  }
+
+  /** The live bot blocks on execute(), so no new cycle runs while a trade is in flight */
+  busy(): boolean {
+    return this.steps.length > 0;
+  }
+
+  /** When the in-flight trade next needs the pool states, or null */
+  dueAt(): number | null {
+    return this.steps.length > 0 ? this.steps[0].at : null;
+  }
+
+  /**
+   * Start executing an opportunity found at `now`. False if the Executor
+   * would skip it as a duplicate, can't run its route, or refuses it because
+   * the chained minimum out doesn't cover the input plus fees.
+   */
+  submit(opp: ArbOpportunity, now: number): boolean {
+    if (!Executor.supportsRoute(opp)) return false;
+    const key = `${opp.buyPool.address.toBase58()}-${opp.sellPool.address.toBase58()}-${opp.type}`;
+    if (this.lastExecution && this.lastExecution.key === key && now - this.lastExecution.timestamp < DEDUP_WINDOW_MS) {
+      return false;
+    }
+    this.lastExecution = { key, timestamp: now };
+
+    const steps = config.atomicExecution || config.submitMode === 'jito'
+      ? this.singleShot(opp, now)
+      : this.sequential(opp, now);
+    if (!steps) return false;
+    this.steps = steps;
+    return true;
+  }
+
+  /** Run the in-flight trade's due step against the current pool states; returns the trade once it settles */
+  settle(): SimulatedTrade | null {
+    const step = this.steps.shift();
+    if (!step) return null;
+    const trade = step.run();
+    if (trade) this.steps = [];
+    return trade;
+  }
+
+  /**
+   * Atomic transaction (any number of hops) or Jito bundle (two legs): every
+   * hop lands together. Each hop after the first spends the minimum the hop
+   * before it was quoted to deliver, as the Executor does — and like it, the
+   * route is refused (null) when the last minimum doesn't cover input + fees.
+   */
+  private singleShot(opp: ArbOpportunity, decidedAt: number): Step[] | null {
+    const input = opp.inputAmount.floor();
+    const amountsIn = [input];
+    const minOuts: Decimal[] = [];
+    for (const hop of opp.route) {
+      const minOut = this.minAmountOut(hop.pool, hop.inputMint, amountsIn[amountsIn.length - 1]);
+      minOuts.push(minOut);
+      amountsIn.push(minOut);
+    }
+    const at = decidedAt + config.backtestLatencyMs;
+    const txCount = config.atomicExecution ? 1 : 2;
+    const txFee = this.txFee(opp, 1 / txCount);
+    const bundled = config.submitMode === 'jito';
+    if (minOuts[minOuts.length - 1].lt(input.add(txFee.mul(txCount)).add(bundled ? config.jitoTipLamports : 0))) return null;
+
+    return [{
+      at,
+      run: () => {
+        const failed = (reason: string, outcome: TradeOutcome): SimulatedTrade => {
+          const fees = bundled ? new Decimal(0) : txFee.mul(txCount);
+          return this.trade(opp, decidedAt, at, outcome, fees, fees.neg(), reason);
+        };
+        let out = new Decimal(0);
+        for (const [i, hop] of opp.route.entries()) {
+          if (i === 1 && this.random() < config.backtestLeg2FailureRate) return failed('leg 2 failed', 'leg2-failed');
+          out = this.quote(hop.pool, hop.inputMint, amountsIn[i]);
+          if (out.lt(minOuts[i])) return failed(`leg ${i + 1} slippage`, 'reverted');
+        }
+
+        const fees = txFee.mul(txCount).add(bundled ? config.jitoTipLamports : 0);
+        return this.trade(opp, decidedAt, at, 'landed', fees, out.sub(input).sub(fees));
+      },
+    }];
+  }
+
+  /**
+   * Two RPC transactions: leg 1 lands, the Executor waits, reads the token
+   * balance and only then builds and sends leg 2 — which can fail and leave
+   * us selling the tokens back on the buy pool.
+   */
+  private sequential(opp: ArbOpportunity, decidedAt: number): Step[] {
+    const [buy, sell] = opp.route;
+    const input = opp.inputAmount.floor();
+    const minTokens = this.minAmountOut(buy.pool, buy.inputMint, input);
+    const legFee = this.txFee(opp, 0.5);
+    const leg1At = decidedAt + config.backtestLatencyMs;
+    const sendLeg2At = leg1At + LEG_SETTLE_MS;
+    const leg2At = sendLeg2At + config.backtestLatencyMs;
+    let tokens = new Decimal(0);
+    let minSolOut = new Decimal(0);
+
+    return [
+      {
+        at: leg1At,
+        run: () => {
+          tokens = this.quote(buy.pool, buy.inputMint, input);
+          if (tokens.lt(minTokens)) return this.trade(opp, decidedAt, leg1At, 'reverted', legFee, legFee.neg(), 'leg 1 slippage');
+          return null;
+        },
+      },
+      {
+        at: sendLeg2At,
+        run: () => {
+          minSolOut = this.minAmountOut(sell.pool, sell.inputMint, tokens);
+          return null;
+        },
+      },
+      {
+        at: leg2At,
+        run: () => {
+          const solOut = this.quote(sell.pool, sell.inputMint, tokens);
+          const reason = this.random() < config.backtestLeg2FailureRate ? 'leg 2 failed'
+            : solOut.lt(minSolOut) ? 'leg 2 slippage' : null;
+          if (!reason) {
+            const fees = legFee.mul(2);
+            return this.trade(opp, decidedAt, leg2At, 'landed', fees, solOut.sub(input).sub(fees));
+          }
+          // Fallback: sell what we hold back on the buy pool (one more transaction)
+          const recovered = this.quote(buy.pool, buy.outputMint, tokens);
+          const fees = legFee.mul(3);
+          return this.trade(opp, decidedAt, leg2At, 'leg2-failed', fees, recovered.sub(input).sub(fees), reason);
+        },
+      },
+    ];
+  }
+
+  /** Base fee plus `share` of the opportunity's priority-fee budget, as Executor.feeBudget sizes it */
+  private txFee(opp: ArbOpportunity, share: number): Decimal {
+    const tip = config.submitMode === 'jito' ? config.jitoTipLamports : 0;
+    const budget = Decimal.max(0, opp.expectedProfit.mul(config.maxFeeProfitFraction).sub(tip)).floor();
+    return budget.mul(share).floor().add(BASE_FEE_LAMPORTS);
+  }
+
+  private quote(pool: PoolInfo, inputMint: PublicKey, amount: Decimal): Decimal {
+    if (amount.lte(0)) return new Decimal(0);
+    return this.poolManager.getQuote(pool, inputMint, amount).outputAmount.floor();
+  }
+
+  private minAmountOut(pool: PoolInfo, inputMint: PublicKey, amount: Decimal): Decimal {
+    return this.quote(pool, inputMint, amount).mul(10000 - config.slippageBps).div(10000).floor();
+  }
+
+  private trade(
+    opportunity: ArbOpportunity, decidedAt: number, settledAt: number,
+    outcome: TradeOutcome, fees: Decimal, pnl: Decimal, reason?: string,
+  ): SimulatedTrade {
+    return { opportunity, decidedAt, settledAt, outcome, reason, fees, pnl };
+  }
+}
+
+/** Small seeded PRNG so a backtest's simulated failures repeat run to run */
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
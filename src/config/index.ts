@@ -1,6 +1,7 @@
 import dotenv from 'dotenv';
 import { Keypair, Connection, PublicKey } from '@solana/web3.js';
 import bs58 from 'bs58';
+import * as path from 'path';
 
 dotenv.config();
 
@@ -21,6 +22,41 @@ export const config = {
   maxTradeSizeSol: parseFloat(process.env.MAX_TRADE_SIZE_SOL || '0.5'),
   slippageBps: parseInt(process.env.SLIPPAGE_BPS || '100'),
   pollIntervalMs: 500, // ~1 Solana slot
+  stateRefreshMs: parseInt(process.env.STATE_REFRESH_MS || '10000'),        // batched re-read of every watched account
+  discoveryMode: (process.env.DISCOVERY_MODE || 'api') as 'api' | 'onchain', // DEX HTTP APIs or getProgramAccounts scans
+  discoveryIntervalMs: parseInt(process.env.DISCOVERY_INTERVAL_MS || '300000'), // re-run pool discovery (API / RPC heavy)
+  executionRefreshMs: parseInt(process.env.EXECUTION_REFRESH_MS || '5000'), // background re-read of the accounts swap builders use
+  blockhashRefreshMs: parseInt(process.env.BLOCKHASH_REFRESH_MS || '2000'),
+  atomicExecution: process.env.ATOMIC_EXECUTION !== 'false', // both legs in one transaction
+  useLookupTable: process.env.USE_LOOKUP_TABLE !== 'false',   // compile swaps as v0 against the bot's ALT
+  submitMode: (process.env.SUBMIT_MODE || 'rpc') as 'rpc' | 'jito',
+  blockEngineUrl: process.env.BLOCK_ENGINE_URL || 'https://mainnet.block-engine.jito.wtf',
+  jitoTipLamports: parseInt(process.env.JITO_TIP_LAMPORTS || '10000'),
+  streamMode: (process.env.STREAM_MODE || 'rpc') as 'rpc' | 'grpc', // account updates: RPC WebSocket or Yellowstone gRPC
+  grpcUrl: process.env.GRPC_URL || '',
+  grpcToken: process.env.GRPC_TOKEN || undefined,
+  dataDir: process.env.DATA_DIR || path.resolve(__dirname, '..', '..', 'data'), // local caches / journals
+  journalFile: process.env.JOURNAL_FILE || '', // every execution attempt and its reconciliation (default: <dataDir>/journal.jsonl)
+  recordFile: process.env.RECORD_FILE || '', // append every pool update here as backtest input (off when empty)
+  backtestLatencyMs: parseInt(process.env.BACKTEST_LATENCY_MS || '400'), // simulated: opportunity seen → transaction lands
+  backtestLeg2FailureRate: parseFloat(process.env.BACKTEST_LEG2_FAILURE_RATE || '0.05'), // simulated: leg 2 fails regardless of price
+  backtestSeed: parseInt(process.env.BACKTEST_SEED || '1'), // simulated failures are reproducible per seed
+  maxPoolAgeMs: parseInt(process.env.MAX_POOL_AGE_MS || '15000'), // reject quotes older than this
+  // Only price legs against each other if their pools are current within maxSlotSpread slots.
+  // Off by default; a quiet pool only counts as current past its last update on the gRPC stream.
+  requireSlotConsistency: process.env.REQUIRE_SLOT_CONSISTENCY === 'true',
+  maxSlotSpread: parseInt(process.env.MAX_SLOT_SPREAD || '1'), // 0 = same slot, 1 = adjacent
+  maxTokenExposureSol: parseFloat(process.env.MAX_TOKEN_EXPOSURE_SOL || '1'), // per meme token inventory cap
+  maxConsecutiveFailures: parseInt(process.env.MAX_CONSECUTIVE_FAILURES || '3'),
+  failureCooldownMs: parseInt(process.env.FAILURE_COOLDOWN_MS || '60000'),
+  temporalMoveBps: parseInt(process.env.TEMPORAL_MOVE_BPS || '150'), // sibling move that counts as a "whale trade"
+  temporalDecayMs: parseInt(process.env.TEMPORAL_DECAY_MS || '4000'), // how long a lagging pool is expected to stay stale
+  computeUnitMargin: parseFloat(process.env.COMPUTE_UNIT_MARGIN || '0.1'), // headroom over simulated unitsConsumed
+  priorityFeePercentile: parseInt(process.env.PRIORITY_FEE_PERCENTILE || '75'),
+  priorityFeeRefreshMs: parseInt(process.env.PRIORITY_FEE_REFRESH_MS || '2000'), // background re-read of recent prioritization fees
+  minPriorityFeeMicroLamports: parseInt(process.env.MIN_PRIORITY_FEE_MICROLAMPORTS || '1000'),
+  maxPriorityFeeMicroLamports: parseInt(process.env.MAX_PRIORITY_FEE_MICROLAMPORTS || '1000000'),
+  maxFeeProfitFraction: parseFloat(process.env.MAX_FEE_PROFIT_FRACTION || '0.3'), // priority fee + tip ≤ this share of expected profit
 };
 
 // Well-known tokens
@@ -30,13 +66,21 @@ export const TOKENS = {
   USDT: new PublicKey('Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB'),
 };
 
+// Intermediate tokens triangular cycles route through on their way back to SOL
+export const BRIDGE_MINTS = [TOKENS.USDC, TOKENS.USDT];
+
 // DEX Program IDs
 export const PROGRAMS = {
   RAYDIUM_AMM: new PublicKey('675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8'),
   RAYDIUM_CLMM: new PublicKey('CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK'),
+  RAYDIUM_CPMM: new PublicKey('CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C'),
   ORCA_WHIRLPOOL: new PublicKey('whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc'),
   PUMPFUN: new PublicKey('6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P'),
   PUMPSWAP: new PublicKey('pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA'),
+  METEORA_DLMM: new PublicKey('LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo'),
+  METEORA_DAMM: new PublicKey('Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB'),
+  METEORA_VAULT: new PublicKey('24Uqj9JCLxUeoC3hGfh5W3s9FM9uCHDS2SG3LYwBpyTi'),
+  MEMO: new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr'),
 };
 
 console.log(`Wallet: ${wallet.publicKey.toBase58()}`);
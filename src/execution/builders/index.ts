@@ -0,0 +1,28 @@
+import { PoolInfo } from '../../pools/types';
+import { SwapInstructionBuilder } from './types';
+import { RaydiumAmmBuilder } from './raydiumAmm';
+import { RaydiumCpmmBuilder } from './raydiumCpmm';
+import { RaydiumClmmBuilder } from './raydiumClmm';
+import { OrcaWhirlpoolBuilder } from './orca';
+import { PumpFunBuilder } from './pumpfun';
+import { PumpSwapBuilder } from './pumpswap';
+import { MeteoraDlmmBuilder } from './meteoraDlmm';
+import { MeteoraDammBuilder } from './meteoraDamm';
+
+export * from './types';
+
+// New DEXes: implement SwapInstructionBuilder and register it here
+const BUILDERS: SwapInstructionBuilder[] = [
+  new RaydiumAmmBuilder(),
+  new RaydiumCpmmBuilder(),
+  new RaydiumClmmBuilder(),
+  new OrcaWhirlpoolBuilder(),
+  new PumpFunBuilder(),
+  new PumpSwapBuilder(),
+  new MeteoraDlmmBuilder(),
+  new MeteoraDammBuilder(),
+];
+
+export function getSwapBuilder(pool: PoolInfo): SwapInstructionBuilder | null {
+  return BUILDERS.find(b => b.supports(pool)) || null;
+}
@@ -0,0 +1,70 @@
+import { TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { PoolInfo } from '../../pools/types';
+import { userTokenAccount } from '../../pools/mintMetadata';
+import { decodeDammPool, decodeMeteoraVault } from '../../pools/meteora';
+import { PROGRAMS } from '../../config';
+import { AccountSource, SwapInstructionBuilder, SwapInstructions, SwapParams } from './types';
+
+const SWAP_DISC = Buffer.from('f8c69e91e17587c8', 'hex');
+
+/** Meteora dynamic AMM — raw swap through the pool's two Meteora vaults */
+export class MeteoraDammBuilder implements SwapInstructionBuilder {
+  readonly name = 'meteora-damm';
+
+  supports(pool: PoolInfo): boolean {
+    return pool.dex === 'meteora' && pool.poolType === 'dynamic-amm';
+  }
+
+  async build(params: SwapParams, accounts: AccountSource): Promise<SwapInstructions | null> {
+    const { pool, inputMint, outputMint, amount, minAmountOut, owner } = params;
+
+    const poolAcct = await accounts.getAccountInfo(pool.address);
+    if (!poolAcct) { console.log('   ❌ Dynamic AMM pool not found'); return null; }
+    const d = decodeDammPool(poolAcct.data);
+
+    const [aVaultInfo, bVaultInfo] = await accounts.getMultipleAccountsInfo([d.aVault, d.bVault]);
+    if (!aVaultInfo || !bVaultInfo) { console.log('   ❌ Meteora vaults not found'); return null; }
+    const aVault = decodeMeteoraVault(aVaultInfo.data);
+    const bVault = decodeMeteoraVault(bVaultInfo.data);
+
+    // Protocol fee is taken in the input token
+    const protocolFee = d.tokenAMint.equals(inputMint) ? d.protocolTokenAFee : d.protocolTokenBFee;
+    const userInputAta = userTokenAccount(pool, inputMint, owner);
+    const userOutputAta = userTokenAccount(pool, outputMint, owner);
+
+    const ixData = Buffer.alloc(24);
+    SWAP_DISC.copy(ixData, 0);
+    ixData.set(amount.toArrayLike(Buffer, 'le', 8), 8);
+    ixData.set(minAmountOut.toArrayLike(Buffer, 'le', 8), 16);
+
+    const swapIx = new TransactionInstruction({
+      programId: PROGRAMS.METEORA_DAMM,
+      keys: [
+        { pubkey: pool.address, isSigner: false, isWritable: true },
+        { pubkey: userInputAta.ata, isSigner: false, isWritable: true },
+        { pubkey: userOutputAta.ata, isSigner: false, isWritable: true },
+        { pubkey: d.aVault, isSigner: false, isWritable: true },
+        { pubkey: d.bVault, isSigner: false, isWritable: true },
+        { pubkey: aVault.tokenVault, isSigner: false, isWritable: true },
+        { pubkey: bVault.tokenVault, isSigner: false, isWritable: true },
+        { pubkey: aVault.lpMint, isSigner: false, isWritable: true },
+        { pubkey: bVault.lpMint, isSigner: false, isWritable: true },
+        { pubkey: d.aVaultLp, isSigner: false, isWritable: true },
+        { pubkey: d.bVaultLp, isSigner: false, isWritable: true },
+        { pubkey: protocolFee, isSigner: false, isWritable: true },
+        { pubkey: owner, isSigner: true, isWritable: false },
+        { pubkey: PROGRAMS.METEORA_VAULT, isSigner: false, isWritable: false },
+        { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+      ],
+      data: ixData,
+    });
+
+    return {
+      instructions: [swapIx],
+      atas: [userInputAta, userOutputAta],
+      wrapsSol: true,
+      computeUnits: 300_000,
+    };
+  }
+}
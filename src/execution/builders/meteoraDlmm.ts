@@ -0,0 +1,84 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import { PoolInfo } from '../../pools/types';
+import { userTokenAccount } from '../../pools/mintMetadata';
+import {
+  DLMM_SWAP_BIN_ARRAYS, binArrayIndex, decodeLbPair,
+  dlmmBinArrayAddress, dlmmBitmapExtensionAddress, dlmmEventAuthority,
+} from '../../pools/meteora';
+import { PROGRAMS } from '../../config';
+import { AccountSource, SwapInstructionBuilder, SwapInstructions, SwapParams } from './types';
+
+const SWAP_DISC = Buffer.from('f8c69e91e17587c8', 'hex');
+const BIN_ARRAY_CANDIDATES = 6; // arrays probed in the swap direction to find 3 that exist
+
+/** Meteora DLMM — raw swap (bin arrays as remaining accounts, nearest first) */
+export class MeteoraDlmmBuilder implements SwapInstructionBuilder {
+  readonly name = 'meteora-dlmm';
+
+  supports(pool: PoolInfo): boolean {
+    return pool.dex === 'meteora' && pool.poolType === 'dlmm';
+  }
+
+  async build(params: SwapParams, accounts: AccountSource): Promise<SwapInstructions | null> {
+    const { pool, inputMint, outputMint, amount, minAmountOut, owner } = params;
+
+    const pairAcct = await accounts.getAccountInfo(pool.address);
+    if (!pairAcct) { console.log('   ❌ DLMM pair not found'); return null; }
+    const lb = decodeLbPair(pairAcct.data);
+
+    // X in → Y out walks bins downwards, Y in → X out upwards, from the live
+    // active bin (kept current by the price stream) when the pool has one.
+    const swapForY = lb.tokenXMint.equals(inputMint);
+    const current = binArrayIndex(pool.dlmm?.activeId ?? lb.activeId);
+    const candidates = Array.from({ length: BIN_ARRAY_CANDIDATES }, (_, i) =>
+      dlmmBinArrayAddress(pool.address, current + (swapForY ? -i : i)));
+    const bitmapExtension = dlmmBitmapExtensionAddress(pool.address);
+
+    const [bitmapInfo, mintXInfo, mintYInfo, ...arrayInfos] = await accounts.getMultipleAccountsInfo(
+      [bitmapExtension, lb.tokenXMint, lb.tokenYMint, ...candidates]);
+    const binArrays = candidates.filter((_, i) => arrayInfos[i]).slice(0, DLMM_SWAP_BIN_ARRAYS);
+    if (binArrays.length === 0) { console.log('   ❌ No DLMM bin arrays in swap direction'); return null; }
+
+    const tokenXProg = mintXInfo?.owner.equals(TOKEN_2022_PROGRAM_ID) ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+    const tokenYProg = mintYInfo?.owner.equals(TOKEN_2022_PROGRAM_ID) ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+    const userInputAta = userTokenAccount(pool, inputMint, owner);
+    const userOutputAta = userTokenAccount(pool, outputMint, owner);
+
+    const ixData = Buffer.alloc(24);
+    SWAP_DISC.copy(ixData, 0);
+    ixData.set(amount.toArrayLike(Buffer, 'le', 8), 8);
+    ixData.set(minAmountOut.toArrayLike(Buffer, 'le', 8), 16);
+
+    // Optional accounts (bitmap extension, host fee) are passed as the program id when absent
+    const swapIx = new TransactionInstruction({
+      programId: PROGRAMS.METEORA_DLMM,
+      keys: [
+        { pubkey: pool.address, isSigner: false, isWritable: true },
+        { pubkey: bitmapInfo ? bitmapExtension : PROGRAMS.METEORA_DLMM, isSigner: false, isWritable: false },
+        { pubkey: lb.reserveX, isSigner: false, isWritable: true },
+        { pubkey: lb.reserveY, isSigner: false, isWritable: true },
+        { pubkey: userInputAta.ata, isSigner: false, isWritable: true },
+        { pubkey: userOutputAta.ata, isSigner: false, isWritable: true },
+        { pubkey: lb.tokenXMint, isSigner: false, isWritable: false },
+        { pubkey: lb.tokenYMint, isSigner: false, isWritable: false },
+        { pubkey: lb.oracle, isSigner: false, isWritable: true },
+        { pubkey: PROGRAMS.METEORA_DLMM, isSigner: false, isWritable: false }, // host_fee_in: none
+        { pubkey: owner, isSigner: true, isWritable: false },
+        { pubkey: tokenXProg, isSigner: false, isWritable: false },
+        { pubkey: tokenYProg, isSigner: false, isWritable: false },
+        { pubkey: dlmmEventAuthority(), isSigner: false, isWritable: false },
+        { pubkey: PROGRAMS.METEORA_DLMM, isSigner: false, isWritable: false },
+        ...binArrays.map(pubkey => ({ pubkey, isSigner: false, isWritable: true })),
+      ],
+      data: ixData,
+    });
+
+    return {
+      instructions: [swapIx],
+      atas: [userInputAta, userOutputAta],
+      wrapsSol: true,
+      computeUnits: 400_000,
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import BN from 'bn.js';
+import Decimal from 'decimal.js';
+import { PoolInfo } from '../../pools/types';
+import { userTokenAccount } from '../../pools/mintMetadata';
+import { decodeWhirlpool, swapTickArrayStarts, tickArrayAddress, whirlpoolOracleAddress } from '../../pools/orca';
+import { PROGRAMS } from '../../config';
+import { AccountSource, SwapInstructionBuilder, SwapInstructions, SwapParams } from './types';
+
+const SWAP_V2_DISC = Buffer.from([43, 4, 237, 11, 26, 201, 30, 98]);
+const MIN_SQRT_PRICE = new Decimal('4295048016');
+const MAX_SQRT_PRICE = new Decimal('79226673515401279992447579055');
+
+/**
+ * sqrtPriceLimit that lets the pool price move at most `maxMoveBps` from `sqrtPrice`
+ * in the swap direction (a→b lowers the price, b→a raises it).
+ */
+export function computeSqrtPriceLimit(sqrtPrice: Decimal, aToB: boolean, maxMoveBps: number): BN {
+  const factor = aToB
+    ? Decimal.max(0, new Decimal(10000 - maxMoveBps).div(10000)).sqrt()
+    : new Decimal(10000 + maxMoveBps).div(10000).sqrt();
+  const limit = Decimal.min(MAX_SQRT_PRICE, Decimal.max(MIN_SQRT_PRICE, sqrtPrice.mul(factor).floor()));
+  return new BN(limit.toFixed(0));
+}
+
+/**
+ * Orca Whirlpool — raw swap_v2 instruction (tick arrays via string-seed PDAs).
+ * swap_v2 takes each mint's token program, so Token-2022 pools work too.
+ */
+export class OrcaWhirlpoolBuilder implements SwapInstructionBuilder {
+  readonly name = 'orca-whirlpool';
+
+  supports(pool: PoolInfo): boolean {
+    return pool.dex === 'orca';
+  }
+
+  async build(params: SwapParams, accounts: AccountSource): Promise<SwapInstructions | null> {
+    const { pool, inputMint, amount, minAmountOut, maxPriceMoveBps, owner } = params;
+
+    const wp = await this.poolState(pool, accounts);
+    if (!wp) return null;
+    const { tokenMintA, tokenMintB, vaultA, vaultB, sqrtPrice, oracle } = wp;
+
+    const aToB = tokenMintA.equals(inputMint);
+
+    // Same three tick arrays the PoolManager quote walks through
+    const starts = swapTickArrayStarts(wp.tickCurrentIndex, wp.tickSpacing, aToB);
+    const tickArrays = starts.map(start => tickArrayAddress(pool.address, start));
+
+    // Verify tick arrays exist, unless they're among the ones the pool state was loaded from
+    if (!starts.every(start => wp.loadedStarts.includes(start))) {
+      const taInfos = await accounts.getMultipleAccountsInfo(tickArrays);
+      if (!taInfos.every(i => i)) {
+        console.log(`   ❌ Missing tick arrays (${taInfos.filter(i=>i).length}/3)`);
+        return null;
+      }
+    }
+
+    // User ATAs
+    const userAtaA = userTokenAccount(pool, tokenMintA, owner);
+    const userAtaB = userTokenAccount(pool, tokenMintB, owner);
+
+    // Whirlpool swap_v2 instruction
+    const sqrtPriceLimit = computeSqrtPriceLimit(sqrtPrice, aToB, maxPriceMoveBps);
+
+    const ixData = Buffer.alloc(43);
+    let off = 0;
+    SWAP_V2_DISC.copy(ixData, off); off += 8;
+    ixData.set(amount.toArrayLike(Buffer, 'le', 8), off); off += 8;
+    ixData.set(minAmountOut.toArrayLike(Buffer, 'le', 8), off); off += 8; // other_amount_threshold (min out)
+    ixData.set(sqrtPriceLimit.toArrayLike(Buffer, 'le', 16), off); off += 16;
+    ixData.writeUInt8(1, off); off += 1; // amount_specified_is_input = true
+    ixData.writeUInt8(aToB ? 1 : 0, off); off += 1; // a_to_b
+    ixData.writeUInt8(0, off); // remaining_accounts_info = None (no transfer hook accounts)
+
+    // Accounts always in A/B order
+    const swapIx = new TransactionInstruction({
+      programId: PROGRAMS.ORCA_WHIRLPOOL,
+      keys: [
+        { pubkey: userAtaA.tokenProgram, isSigner: false, isWritable: false },
+        { pubkey: userAtaB.tokenProgram, isSigner: false, isWritable: false },
+        { pubkey: PROGRAMS.MEMO, isSigner: false, isWritable: false },
+        { pubkey: owner, isSigner: true, isWritable: true },
+        { pubkey: pool.address, isSigner: false, isWritable: true },
+        { pubkey: tokenMintA, isSigner: false, isWritable: false },
+        { pubkey: tokenMintB, isSigner: false, isWritable: false },
+        { pubkey: userAtaA.ata, isSigner: false, isWritable: true },
+        { pubkey: vaultA, isSigner: false, isWritable: true },
+        { pubkey: userAtaB.ata, isSigner: false, isWritable: true },
+        { pubkey: vaultB, isSigner: false, isWritable: true },
+        { pubkey: tickArrays[0], isSigner: false, isWritable: true },
+        { pubkey: tickArrays[1], isSigner: false, isWritable: true },
+        { pubkey: tickArrays[2], isSigner: false, isWritable: true },
+        { pubkey: oracle, isSigner: false, isWritable: true },
+      ],
+      data: ixData,
+    });
+
+    return {
+      instructions: [swapIx],
+      atas: [userAtaA, userAtaB],
+      wrapsSol: true,
+      computeUnits: 300_000,
+    };
+  }
+
+  /**
+   * Swap-relevant Whirlpool state: the pool's live concentrated state when it
+   * has one (kept current by the price stream), else a fresh read.
+   */
+  private async poolState(pool: PoolInfo, accounts: AccountSource) {
+    const state = pool.concentrated;
+    if (state && pool.vaultA && pool.vaultB) {
+      return {
+        tokenMintA: pool.tokenA,
+        tokenMintB: pool.tokenB,
+        vaultA: pool.vaultA,
+        vaultB: pool.vaultB,
+        tickSpacing: state.tickSpacing,
+        tickCurrentIndex: state.tickCurrentIndex,
+        sqrtPrice: new Decimal(state.sqrtPrice.toString()),
+        oracle: pool.oracle || whirlpoolOracleAddress(pool.address),
+        loadedStarts: state.tickArrayStarts,
+      };
+    }
+
+    const poolInfo = await accounts.getAccountInfo(pool.address);
+    if (!poolInfo) { console.log('   ❌ Orca pool not found'); return null; }
+    const wp = decodeWhirlpool(poolInfo.data);
+    return {
+      tokenMintA: wp.tokenMintA,
+      tokenMintB: wp.tokenMintB,
+      vaultA: wp.vaultA,
+      vaultB: wp.vaultB,
+      tickSpacing: wp.tickSpacing,
+      tickCurrentIndex: wp.tickCurrentIndex,
+      sqrtPrice: new Decimal(wp.sqrtPrice.toString()),
+      oracle: whirlpoolOracleAddress(pool.address),
+      loadedStarts: [] as number[],
+    };
+  }
+}
@@ -0,0 +1,106 @@
+import { PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { BondingCurveData, PoolInfo } from '../../pools/types';
+import { userTokenAccount } from '../../pools/mintMetadata';
+import {
+  PUMPFUN_PROGRAM, PUMPFUN_FEE_RECIPIENT, getCreatorVaultPDA, getEventAuthorityPDA, getGlobalPDA,
+  getPumpFunFeeConfig, getPumpFunGlobalVolumeAccumulator, getPumpFunUserVolumeAccumulator,
+  parseBondingCurve, parsePumpFunGlobal,
+} from '../../pools/pumpfun';
+import { PUMPSWAP_FEE_PROGRAM } from '../../pools/pumpswap';
+import { AccountSource, SwapInstructionBuilder, SwapInstructions, SwapParams } from './types';
+
+const SOL_MINT = new PublicKey('So11111111111111111111111111111111111111112');
+const BUY_DISC = Buffer.from([102, 6, 61, 18, 1, 218, 235, 234]);
+const SELL_DISC = Buffer.from([51, 230, 133, 164, 1, 127, 131, 173]);
+
+/** Pump.fun — raw bonding curve buy/sell (native SOL, no WSOL) */
+export class PumpFunBuilder implements SwapInstructionBuilder {
+  readonly name = 'pumpfun-bonding-curve';
+
+  supports(pool: PoolInfo): boolean {
+    return pool.dex === 'pumpfun';
+  }
+
+  async build(params: SwapParams, accounts: AccountSource): Promise<SwapInstructions | null> {
+    const { pool, inputMint, outputMint, amount, minAmountOut, owner } = params;
+    const isBuy = inputMint.equals(SOL_MINT);
+    const tokenMint = isBuy ? outputMint : inputMint;
+    const bondingCurve = pool.address;
+    const userAta = userTokenAccount(pool, tokenMint, owner);
+    const associatedBondingCurve = getAssociatedTokenAddressSync(tokenMint, bondingCurve, true, userAta.tokenProgram);
+
+    // The creator vault is derived from the curve's creator; the default key's vault when it has none
+    const curve = pool.bondingCurve ?? await this.curve(bondingCurve, accounts);
+    if (!curve) { console.log('   ❌ Pump.fun bonding curve unreadable'); return null; }
+    const creatorVault = getCreatorVaultPDA(curve.creator ?? PublicKey.default);
+    const feeRecipient = pool.pumpfun?.feeRecipient ?? await this.feeRecipient(accounts);
+
+    let ixData: Buffer;
+
+    if (isBuy) {
+      // Buy: discriminator + amount(u64, exact tokens out) + maxSolCost(u64) + track_volume(OptionBool)
+      // 'amount' is our SOL budget; buy exactly the quoted minimum tokens and never pay more than the budget
+      ixData = Buffer.alloc(25);
+      BUY_DISC.copy(ixData, 0);
+      ixData.set(minAmountOut.toArrayLike(Buffer, 'le', 8), 8);
+      ixData.set(amount.toArrayLike(Buffer, 'le', 8), 16);
+      ixData[24] = 0; // track_volume: off, no volume rewards
+    } else {
+      // Sell: discriminator + amount(u64, token amount) + minSolOutput(u64)
+      ixData = Buffer.alloc(24);
+      SELL_DISC.copy(ixData, 0);
+      ixData.set(amount.toArrayLike(Buffer, 'le', 8), 8);
+      ixData.set(minAmountOut.toArrayLike(Buffer, 'le', 8), 16);
+    }
+
+    // Buy and sell share the leading accounts; the creator vault sits on either side of the
+    // token program, and only buys carry the volume accumulators
+    const keys = [
+      { pubkey: getGlobalPDA(), isSigner: false, isWritable: false },
+      { pubkey: feeRecipient, isSigner: false, isWritable: true },
+      { pubkey: tokenMint, isSigner: false, isWritable: false },
+      { pubkey: bondingCurve, isSigner: false, isWritable: true },
+      { pubkey: associatedBondingCurve, isSigner: false, isWritable: true },
+      { pubkey: userAta.ata, isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: true, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      ...(isBuy ? [
+        { pubkey: userAta.tokenProgram, isSigner: false, isWritable: false },
+        { pubkey: creatorVault, isSigner: false, isWritable: true },
+      ] : [
+        { pubkey: creatorVault, isSigner: false, isWritable: true },
+        { pubkey: userAta.tokenProgram, isSigner: false, isWritable: false },
+      ]),
+      { pubkey: getEventAuthorityPDA(), isSigner: false, isWritable: false },
+      { pubkey: PUMPFUN_PROGRAM, isSigner: false, isWritable: false },
+      ...(isBuy ? [
+        { pubkey: getPumpFunGlobalVolumeAccumulator(), isSigner: false, isWritable: true },
+        { pubkey: getPumpFunUserVolumeAccumulator(owner), isSigner: false, isWritable: true },
+      ] : []),
+      { pubkey: getPumpFunFeeConfig(), isSigner: false, isWritable: false },
+      { pubkey: PUMPSWAP_FEE_PROGRAM, isSigner: false, isWritable: false },
+    ];
+    const swapIx = new TransactionInstruction({ programId: PUMPFUN_PROGRAM, keys, data: ixData });
+
+    // Bonding curve trades native SOL — no WSOL wrap/unwrap
+    return {
+      instructions: [swapIx],
+      atas: [userAta],
+      wrapsSol: false,
+      computeUnits: 200_000,
+    };
+  }
+
+  /** Curve state for a pool discovered without it */
+  private async curve(address: PublicKey, accounts: AccountSource): Promise<BondingCurveData | null> {
+    const info = await accounts.getAccountInfo(address);
+    return info && parseBondingCurve(info.data);
+  }
+
+  /** Fee recipient from the Global account, or the long-standing default when it can't be read */
+  private async feeRecipient(accounts: AccountSource): Promise<PublicKey> {
+    const info = await accounts.getAccountInfo(getGlobalPDA());
+    return (info && parsePumpFunGlobal(info.data)?.feeRecipient) ?? PUMPFUN_FEE_RECIPIENT;
+  }
+}
@@ -0,0 +1,113 @@
+import { PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import {
+  TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { PoolInfo, PumpSwapState } from '../../pools/types';
+import {
+  PUMPSWAP_PROGRAM, PUMPSWAP_GLOBAL_CONFIG, PUMPSWAP_FEE_PROGRAM, PumpSwapPoolData,
+  getCoinCreatorVaultAuthority, getGlobalVolumeAccumulator, getPumpSwapEventAuthority, getPumpSwapFeeConfig,
+  getUserVolumeAccumulator, parsePumpSwapGlobalConfig, parsePumpSwapPool, pumpSwapState,
+} from '../../pools/pumpswap';
+import { AccountSource, SwapInstructionBuilder, SwapInstructions, SwapParams } from './types';
+
+const BUY_DISC = Buffer.from('66063d1201daebea', 'hex');
+const SELL_DISC = Buffer.from('33e685a4017f83ad', 'hex');
+
+/** PumpSwap AMM — raw buy/sell against the graduated pump.fun pool */
+export class PumpSwapBuilder implements SwapInstructionBuilder {
+  readonly name = 'pumpswap';
+
+  supports(pool: PoolInfo): boolean {
+    return pool.dex === 'pumpswap';
+  }
+
+  async build(params: SwapParams, accounts: AccountSource): Promise<SwapInstructions | null> {
+    const { pool, inputMint, amount, minAmountOut, owner } = params;
+
+    // Read pool account to get current data
+    const poolInfo = await accounts.getAccountInfo(pool.address);
+    if (!poolInfo) { console.log('   ❌ PumpSwap pool not found'); return null; }
+    const poolData = parsePumpSwapPool(pool.address, poolInfo.data);
+    if (!poolData) { console.log('   ❌ PumpSwap pool parse failed'); return null; }
+
+    const { baseMint, quoteMint, baseVault, quoteVault } = poolData;
+    const isBuy = inputMint.equals(quoteMint); // quote in, base out — whichever side SOL is on
+
+    const fees = pool.pumpswap ?? await this.fees(poolData, accounts);
+    if (!fees) { console.log('   ❌ PumpSwap global config unreadable'); return null; }
+
+    const [baseMintInfo, quoteMintInfo] = await accounts.getMultipleAccountsInfo([baseMint, quoteMint]);
+    const baseTokenProgram = baseMintInfo?.owner.equals(TOKEN_2022_PROGRAM_ID) ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+    const quoteTokenProgram = quoteMintInfo?.owner.equals(TOKEN_2022_PROGRAM_ID) ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+
+    const userBaseAta = getAssociatedTokenAddressSync(baseMint, owner, false, baseTokenProgram);
+    const userQuoteAta = getAssociatedTokenAddressSync(quoteMint, owner, false, quoteTokenProgram);
+    const protocolFeeQuoteAta = getAssociatedTokenAddressSync(quoteMint, fees.protocolFeeRecipient, true, quoteTokenProgram);
+    const creatorVaultAuthority = getCoinCreatorVaultAuthority(poolData.coinCreator ?? PublicKey.default);
+    const creatorVaultAta = getAssociatedTokenAddressSync(quoteMint, creatorVaultAuthority, true, quoteTokenProgram);
+
+    let ixData: Buffer;
+
+    if (isBuy) {
+      // BUY: discriminator(8) + base_amount_out(u64) + max_quote_amount_in(u64) + track_volume(OptionBool)
+      // Buy exactly the quoted minimum (what the next leg sells); the program charges curve input + fees
+      // for it, which the whole-budget quote guarantees stays within `amount`
+      ixData = Buffer.alloc(25);
+      BUY_DISC.copy(ixData, 0);
+      ixData.set(minAmountOut.toArrayLike(Buffer, 'le', 8), 8);
+      ixData.set(amount.toArrayLike(Buffer, 'le', 8), 16);
+      ixData[24] = 0; // track_volume: off, no volume rewards
+    } else {
+      // SELL: discriminator(8) + base_amount_in(u64) + min_quote_amount_out(u64)
+      ixData = Buffer.alloc(24);
+      SELL_DISC.copy(ixData, 0);
+      ixData.set(amount.toArrayLike(Buffer, 'le', 8), 8);
+      ixData.set(minAmountOut.toArrayLike(Buffer, 'le', 8), 16);
+    }
+
+    const keys = [
+      { pubkey: pool.address, isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: true, isWritable: true },
+      { pubkey: PUMPSWAP_GLOBAL_CONFIG, isSigner: false, isWritable: false },
+      { pubkey: baseMint, isSigner: false, isWritable: false },
+      { pubkey: quoteMint, isSigner: false, isWritable: false },
+      { pubkey: userBaseAta, isSigner: false, isWritable: true },
+      { pubkey: userQuoteAta, isSigner: false, isWritable: true },
+      { pubkey: baseVault, isSigner: false, isWritable: true },
+      { pubkey: quoteVault, isSigner: false, isWritable: true },
+      { pubkey: fees.protocolFeeRecipient, isSigner: false, isWritable: false },
+      { pubkey: protocolFeeQuoteAta, isSigner: false, isWritable: true },
+      { pubkey: baseTokenProgram, isSigner: false, isWritable: false },
+      { pubkey: quoteTokenProgram, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: getPumpSwapEventAuthority(), isSigner: false, isWritable: false },
+      { pubkey: PUMPSWAP_PROGRAM, isSigner: false, isWritable: false },
+      { pubkey: creatorVaultAta, isSigner: false, isWritable: true },
+      { pubkey: creatorVaultAuthority, isSigner: false, isWritable: false },
+      ...(isBuy ? [
+        { pubkey: getGlobalVolumeAccumulator(), isSigner: false, isWritable: false },
+        { pubkey: getUserVolumeAccumulator(owner), isSigner: false, isWritable: true },
+      ] : []),
+      { pubkey: getPumpSwapFeeConfig(), isSigner: false, isWritable: false },
+      { pubkey: PUMPSWAP_FEE_PROGRAM, isSigner: false, isWritable: false },
+    ];
+
+    return {
+      instructions: [new TransactionInstruction({ programId: PUMPSWAP_PROGRAM, keys, data: ixData })],
+      atas: [
+        { mint: baseMint, ata: userBaseAta, tokenProgram: baseTokenProgram },
+        { mint: quoteMint, ata: userQuoteAta, tokenProgram: quoteTokenProgram },
+      ],
+      wrapsSol: true,
+      computeUnits: 300_000,
+    };
+  }
+
+  /** Fees for a pool discovered without them: decode the global config */
+  private async fees(poolData: PumpSwapPoolData, accounts: AccountSource): Promise<PumpSwapState | null> {
+    const info = await accounts.getAccountInfo(PUMPSWAP_GLOBAL_CONFIG);
+    const globalConfig = info && parsePumpSwapGlobalConfig(info.data);
+    return globalConfig ? pumpSwapState(globalConfig, poolData) : null;
+  }
+}
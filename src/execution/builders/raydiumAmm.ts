@@ -0,0 +1,116 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { PoolInfo } from '../../pools/types';
+import { userTokenAccount } from '../../pools/mintMetadata';
+import { decodeAmmV4State, decodeSerumMarket } from '../../pools/raydium';
+import { PROGRAMS } from '../../config';
+import { AccountSource, SwapInstructionBuilder, SwapInstructions, SwapParams } from './types';
+
+// Raydium AMM Authority PDA
+const [AMM_AUTHORITY] = PublicKey.findProgramAddressSync(
+  [Buffer.from([97, 109, 109, 32, 97, 117, 116, 104, 111, 114, 105, 116, 121])],
+  PROGRAMS.RAYDIUM_AMM,
+);
+
+/** Raydium AMM v4 — raw swapBaseIn (instruction index 9) routed through the OpenBook market */
+export class RaydiumAmmBuilder implements SwapInstructionBuilder {
+  readonly name = 'raydium-amm-v4';
+
+  supports(pool: PoolInfo): boolean {
+    return pool.dex === 'raydium' && pool.poolType === 'amm-v4';
+  }
+
+  async build(params: SwapParams, accounts: AccountSource): Promise<SwapInstructions | null> {
+    const { pool, inputMint, outputMint, amount, minAmountOut, owner } = params;
+
+    const keys = await this.swapAccounts(pool, accounts);
+    if (!keys) return null;
+    const { baseVault, quoteVault, openOrders, targetOrders, marketId, marketProgramId, market } = keys;
+
+    // User ATAs
+    const userSourceAta = userTokenAccount(pool, inputMint, owner);
+    const userDestAta = userTokenAccount(pool, outputMint, owner);
+
+    // swapBaseIn instruction (index 9)
+    const ixData = Buffer.alloc(17);
+    ixData.writeUInt8(9, 0);
+    ixData.set(amount.toArrayLike(Buffer, 'le', 8), 1);
+    ixData.set(minAmountOut.toArrayLike(Buffer, 'le', 8), 9);
+
+    const swapIx = new TransactionInstruction({
+      programId: PROGRAMS.RAYDIUM_AMM,
+      keys: [
+        { pubkey: TOKEN_PROGRAM_ID,     isSigner: false, isWritable: false },
+        { pubkey: pool.address,          isSigner: false, isWritable: true },
+        { pubkey: AMM_AUTHORITY,         isSigner: false, isWritable: false },
+        { pubkey: openOrders,            isSigner: false, isWritable: true },
+        { pubkey: targetOrders,          isSigner: false, isWritable: true },
+        { pubkey: baseVault,             isSigner: false, isWritable: true },
+        { pubkey: quoteVault,            isSigner: false, isWritable: true },
+        { pubkey: marketProgramId,       isSigner: false, isWritable: false },
+        { pubkey: marketId,              isSigner: false, isWritable: true },
+        { pubkey: market.bids,           isSigner: false, isWritable: true },
+        { pubkey: market.asks,           isSigner: false, isWritable: true },
+        { pubkey: market.eventQueue,     isSigner: false, isWritable: true },
+        { pubkey: market.baseVault,      isSigner: false, isWritable: true },
+        { pubkey: market.quoteVault,     isSigner: false, isWritable: true },
+        { pubkey: market.authority,      isSigner: false, isWritable: false },
+        { pubkey: userSourceAta.ata,         isSigner: false, isWritable: true },
+        { pubkey: userDestAta.ata,           isSigner: false, isWritable: true },
+        { pubkey: owner,                 isSigner: true,  isWritable: true },
+      ],
+      data: ixData,
+    });
+
+    return {
+      instructions: [swapIx],
+      atas: [userSourceAta, userDestAta],
+      wrapsSol: true,
+      computeUnits: 400_000,
+    };
+  }
+
+  /**
+   * Pool + OpenBook market accounts. Pools loaded by RaydiumFetcher carry them
+   * (tokenA/vaultA are the coin side); others are read from chain.
+   */
+  private async swapAccounts(pool: PoolInfo, accounts: AccountSource) {
+    if (pool.openOrders && pool.targetOrders && pool.marketId && pool.marketProgramId && pool.marketAuthority
+      && pool.marketBids && pool.marketAsks && pool.marketEventQueue && pool.marketBaseVault && pool.marketQuoteVault
+      && pool.vaultA && pool.vaultB) {
+      return {
+        baseVault: pool.vaultA,
+        quoteVault: pool.vaultB,
+        openOrders: pool.openOrders,
+        targetOrders: pool.targetOrders,
+        marketId: pool.marketId,
+        marketProgramId: pool.marketProgramId,
+        market: {
+          authority: pool.marketAuthority,
+          baseVault: pool.marketBaseVault,
+          quoteVault: pool.marketQuoteVault,
+          eventQueue: pool.marketEventQueue,
+          bids: pool.marketBids,
+          asks: pool.marketAsks,
+        },
+      };
+    }
+
+    const poolAcct = await accounts.getAccountInfo(pool.address);
+    if (!poolAcct) { console.log('   ❌ Raydium pool not found'); return null; }
+    const amm = decodeAmmV4State(poolAcct.data);
+
+    const marketAcct = await accounts.getAccountInfo(amm.marketId);
+    if (!marketAcct) { console.log('   ❌ Serum market not found'); return null; }
+
+    return {
+      baseVault: amm.coinVault,
+      quoteVault: amm.pcVault,
+      openOrders: amm.openOrders,
+      targetOrders: amm.targetOrders,
+      marketId: amm.marketId,
+      marketProgramId: amm.marketProgramId,
+      market: decodeSerumMarket(marketAcct.data, amm.marketId, amm.marketProgramId),
+    };
+  }
+}
@@ -0,0 +1,125 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import BN from 'bn.js';
+import Decimal from 'decimal.js';
+import { PoolInfo } from '../../pools/types';
+import { userTokenAccount } from '../../pools/mintMetadata';
+import {
+  CLMM_SWAP_TICK_ARRAYS, CLMM_TICKS_PER_ARRAY, clmmBitmapExtensionAddress,
+  clmmSwapTickArrayStarts, clmmTickArrayAddress, clmmTickArrayStartIndex, decodeClmmPool, decodeClmmTickArray,
+} from '../../pools/raydiumClmm';
+import { PROGRAMS } from '../../config';
+import { computeSqrtPriceLimit } from './orca';
+import { AccountSource, SwapInstructionBuilder, SwapInstructions, SwapParams } from './types';
+
+const SWAP_V2_DISC = Buffer.from('2b04ed0b1ac91e62', 'hex');
+const MIN_SQRT_PRICE_X64 = new BN('4295048016');
+const MAX_SQRT_PRICE_X64 = new BN('79226673521066979257578248091');
+const TICK_ARRAY_CANDIDATES = 6; // arrays probed in the swap direction to find 3 initialized ones
+
+/** Raydium CLMM — raw swap_v2 (takes both token programs, tick arrays as remaining accounts) */
+export class RaydiumClmmBuilder implements SwapInstructionBuilder {
+  readonly name = 'raydium-clmm';
+
+  supports(pool: PoolInfo): boolean {
+    return pool.dex === 'raydium' && pool.poolType === 'clmm';
+  }
+
+  async build(params: SwapParams, accounts: AccountSource): Promise<SwapInstructions | null> {
+    const { pool, inputMint, outputMint, amount, minAmountOut, maxPriceMoveBps, owner } = params;
+
+    const cl = await this.poolState(pool, accounts);
+    if (!cl) return null;
+
+    const zeroForOne = cl.tokenMint0.equals(inputMint);
+    const inputVault = zeroForOne ? cl.vault0 : cl.vault1;
+    const outputVault = zeroForOne ? cl.vault1 : cl.vault0;
+    const bitmapExtension = clmmBitmapExtensionAddress(pool.address);
+
+    // The program walks initialized tick arrays only, nearest first. With live
+    // state those are the loaded ones; otherwise probe the candidates.
+    let tickArrays: PublicKey[];
+    let bitmapInfo;
+    if (pool.concentrated) {
+      tickArrays = clmmSwapTickArrayStarts(pool.concentrated, zeroForOne).map(s => clmmTickArrayAddress(pool.address, s));
+      bitmapInfo = await accounts.getAccountInfo(bitmapExtension);
+    } else {
+      const arraySpacing = cl.tickSpacing * CLMM_TICKS_PER_ARRAY;
+      const currentStart = clmmTickArrayStartIndex(cl.tickCurrentIndex, cl.tickSpacing);
+      const candidates = Array.from({ length: TICK_ARRAY_CANDIDATES }, (_, i) =>
+        clmmTickArrayAddress(pool.address, currentStart + (zeroForOne ? -i : i) * arraySpacing));
+      const [bitmap, ...arrayInfos] = await accounts.getMultipleAccountsInfo([bitmapExtension, ...candidates]);
+      bitmapInfo = bitmap;
+      tickArrays = candidates
+        .filter((_, i) => arrayInfos[i] && decodeClmmTickArray(arrayInfos[i]!.data).initializedCount > 0)
+        .slice(0, CLMM_SWAP_TICK_ARRAYS);
+    }
+    if (tickArrays.length === 0) { console.log('   ❌ No initialized CLMM tick arrays'); return null; }
+
+    const userInputAta = userTokenAccount(pool, inputMint, owner);
+    const userOutputAta = userTokenAccount(pool, outputMint, owner);
+
+    // Same price-move bound as Whirlpools, kept strictly inside the CLMM sqrt price range
+    const sqrtPriceLimit = BN.min(
+      MAX_SQRT_PRICE_X64.subn(1),
+      BN.max(MIN_SQRT_PRICE_X64.addn(1), computeSqrtPriceLimit(new Decimal(cl.sqrtPrice.toString()), zeroForOne, maxPriceMoveBps)),
+    );
+
+    const ixData = Buffer.alloc(41);
+    SWAP_V2_DISC.copy(ixData, 0);
+    ixData.set(amount.toArrayLike(Buffer, 'le', 8), 8);
+    ixData.set(minAmountOut.toArrayLike(Buffer, 'le', 8), 16);   // other_amount_threshold (min out)
+    ixData.set(sqrtPriceLimit.toArrayLike(Buffer, 'le', 16), 24);
+    ixData.writeUInt8(1, 40);                                     // is_base_input = true
+
+    const swapIx = new TransactionInstruction({
+      programId: PROGRAMS.RAYDIUM_CLMM,
+      keys: [
+        { pubkey: owner, isSigner: true, isWritable: false },
+        { pubkey: cl.ammConfig, isSigner: false, isWritable: false },
+        { pubkey: pool.address, isSigner: false, isWritable: true },
+        { pubkey: userInputAta.ata, isSigner: false, isWritable: true },
+        { pubkey: userOutputAta.ata, isSigner: false, isWritable: true },
+        { pubkey: inputVault, isSigner: false, isWritable: true },
+        { pubkey: outputVault, isSigner: false, isWritable: true },
+        { pubkey: cl.observation, isSigner: false, isWritable: true },
+        { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+        { pubkey: TOKEN_2022_PROGRAM_ID, isSigner: false, isWritable: false },
+        { pubkey: PROGRAMS.MEMO, isSigner: false, isWritable: false },
+        { pubkey: inputMint, isSigner: false, isWritable: false },
+        { pubkey: outputMint, isSigner: false, isWritable: false },
+        // Remaining accounts: bitmap extension (if the pool has one), then tick arrays
+        ...(bitmapInfo ? [{ pubkey: bitmapExtension, isSigner: false, isWritable: true }] : []),
+        ...tickArrays.map(pubkey => ({ pubkey, isSigner: false, isWritable: true })),
+      ],
+      data: ixData,
+    });
+
+    return {
+      instructions: [swapIx],
+      atas: [userInputAta, userOutputAta],
+      wrapsSol: true,
+      computeUnits: 400_000,
+    };
+  }
+
+  /** Swap-relevant PoolState: from the pool's live state when loaded, else read from chain */
+  private async poolState(pool: PoolInfo, accounts: AccountSource) {
+    const state = pool.concentrated;
+    if (state && pool.ammConfig && pool.observation && pool.vaultA && pool.vaultB) {
+      return {
+        ammConfig: pool.ammConfig,
+        observation: pool.observation,
+        tokenMint0: pool.tokenA,
+        vault0: pool.vaultA,
+        vault1: pool.vaultB,
+        tickSpacing: state.tickSpacing,
+        tickCurrentIndex: state.tickCurrentIndex,
+        sqrtPrice: state.sqrtPrice,
+      };
+    }
+    const poolAcct = await accounts.getAccountInfo(pool.address);
+    if (!poolAcct) { console.log('   ❌ CLMM pool not found'); return null; }
+    return decodeClmmPool(poolAcct.data);
+  }
+}
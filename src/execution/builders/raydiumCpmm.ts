@@ -0,0 +1,86 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import { PoolInfo } from '../../pools/types';
+import { userTokenAccount } from '../../pools/mintMetadata';
+import { decodeCpmmPool } from '../../pools/raydium';
+import { PROGRAMS } from '../../config';
+import { AccountSource, SwapInstructionBuilder, SwapInstructions, SwapParams } from './types';
+
+const [CPMM_AUTHORITY] = PublicKey.findProgramAddressSync(
+  [Buffer.from('vault_and_lp_mint_auth_seed')], PROGRAMS.RAYDIUM_CPMM);
+const CPMM_SWAP_DISC = Buffer.from('8fbe5adac41e33de', 'hex'); // swap_base_input
+
+/** Raydium CPMM — raw swap_base_input; supports Token-2022 mints */
+export class RaydiumCpmmBuilder implements SwapInstructionBuilder {
+  readonly name = 'raydium-cpmm';
+
+  supports(pool: PoolInfo): boolean {
+    return pool.dex === 'raydium' && pool.poolType === 'cpmm';
+  }
+
+  async build(params: SwapParams, accounts: AccountSource): Promise<SwapInstructions | null> {
+    const { pool, inputMint, outputMint, amount, minAmountOut, owner } = params;
+
+    const keys = await this.poolAccounts(pool, accounts);
+    if (!keys) return null;
+    const { ammConfig, token0Vault, token1Vault, token0Mint } = keys;
+
+    const isInput0 = inputMint.equals(token0Mint);
+    const inputVault = isInput0 ? token0Vault : token1Vault;
+    const outputVault = isInput0 ? token1Vault : token0Vault;
+
+    const [observation] = PublicKey.findProgramAddressSync(
+      [Buffer.from('observation'), pool.address.toBuffer()], PROGRAMS.RAYDIUM_CPMM);
+
+    const userInputAta = userTokenAccount(pool, inputMint, owner);
+    const userOutputAta = userTokenAccount(pool, outputMint, owner);
+
+    // Check token programs (some tokens use Token-2022)
+    const [inputMintInfo, outputMintInfo] = await accounts.getMultipleAccountsInfo([inputMint, outputMint]);
+    const inputTokenProg = inputMintInfo?.owner.equals(TOKEN_2022_PROGRAM_ID) ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+    const outputTokenProg = outputMintInfo?.owner.equals(TOKEN_2022_PROGRAM_ID) ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+
+    const ixData = Buffer.alloc(24);
+    CPMM_SWAP_DISC.copy(ixData, 0);
+    ixData.set(amount.toArrayLike(Buffer, 'le', 8), 8);
+    ixData.set(minAmountOut.toArrayLike(Buffer, 'le', 8), 16);
+
+    const swapIx = new TransactionInstruction({
+      programId: PROGRAMS.RAYDIUM_CPMM,
+      keys: [
+        { pubkey: owner, isSigner: true, isWritable: true },
+        { pubkey: CPMM_AUTHORITY, isSigner: false, isWritable: false },
+        { pubkey: ammConfig, isSigner: false, isWritable: false },
+        { pubkey: pool.address, isSigner: false, isWritable: true },
+        { pubkey: userInputAta.ata, isSigner: false, isWritable: true },
+        { pubkey: userOutputAta.ata, isSigner: false, isWritable: true },
+        { pubkey: inputVault, isSigner: false, isWritable: true },
+        { pubkey: outputVault, isSigner: false, isWritable: true },
+        { pubkey: inputTokenProg, isSigner: false, isWritable: false },
+        { pubkey: outputTokenProg, isSigner: false, isWritable: false },
+        { pubkey: inputMint, isSigner: false, isWritable: false },
+        { pubkey: outputMint, isSigner: false, isWritable: false },
+        { pubkey: observation, isSigner: false, isWritable: true },
+      ],
+      data: ixData,
+    });
+
+    return {
+      instructions: [swapIx],
+      atas: [userInputAta, userOutputAta],
+      wrapsSol: true,
+      computeUnits: 300_000,
+    };
+  }
+
+  /** Config + vaults: from the pool when RaydiumFetcher / the price stream set them, else read from chain */
+  private async poolAccounts(pool: PoolInfo, accounts: AccountSource) {
+    if (pool.ammConfig && pool.vaultA && pool.vaultB) {
+      return { ammConfig: pool.ammConfig, token0Vault: pool.vaultA, token1Vault: pool.vaultB, token0Mint: pool.tokenA };
+    }
+    const poolAcct = await accounts.getAccountInfo(pool.address);
+    if (!poolAcct) { console.log('   ❌ CPMM pool not found'); return null; }
+    const s = decodeCpmmPool(poolAcct.data);
+    return { ammConfig: s.ammConfig, token0Vault: s.vault0, token1Vault: s.vault1, token0Mint: s.mint0 };
+  }
+}
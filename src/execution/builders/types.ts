@@ -0,0 +1,43 @@
+import { AccountInfo, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import BN from 'bn.js';
+import { PoolInfo } from '../../pools/types';
+
+/**
+ * Where builders read on-chain state from. `Connection` satisfies this;
+ * tests and simulations can pass a fixture-backed implementation instead.
+ */
+export interface AccountSource {
+  getAccountInfo(address: PublicKey): Promise<AccountInfo<Buffer> | null>;
+  getMultipleAccountsInfo(addresses: PublicKey[]): Promise<(AccountInfo<Buffer> | null)[]>;
+}
+
+export interface SwapParams {
+  pool: PoolInfo;
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  amount: BN;          // exact input amount (raw units)
+  minAmountOut: BN;    // reverts below this — quote less slippage
+  maxPriceMoveBps: number; // concentrated liquidity: how far the pool price may move before the swap stops
+  owner: PublicKey;    // signer + owner of the user token accounts
+}
+
+/** A user ATA and the token program it was derived under */
+export interface UserTokenAccount {
+  mint: PublicKey;
+  ata: PublicKey;
+  tokenProgram: PublicKey;
+}
+
+/** Instructions for one swap, without compute budget or WSOL wrap/unwrap */
+export interface SwapInstructions {
+  instructions: TransactionInstruction[];
+  atas: UserTokenAccount[];                     // user ATAs the swap touches (caller ensures they exist)
+  wrapsSol: boolean;                            // SOL side goes through the WSOL ATA (false = native SOL)
+  computeUnits: number;                         // CU budget for this swap alone
+}
+
+export interface SwapInstructionBuilder {
+  readonly name: string;
+  supports(pool: PoolInfo): boolean;
+  build(params: SwapParams, accounts: AccountSource): Promise<SwapInstructions | null>;
+}
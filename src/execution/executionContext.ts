@@ -0,0 +1,204 @@
+import { AccountInfo, BlockhashWithExpiryBlockHeight, Connection, PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { PoolInfo } from '../pools/types';
+import { userTokenAccount } from '../pools/mintMetadata';
+import { config } from '../config';
+import { AccountSource, getSwapBuilder } from './builders';
+
+const MAX_ACCOUNTS_PER_CALL = 100;
+const BLOCKHASH_MAX_AGE_MS = 30_000; // well inside the ~60s a blockhash stays valid
+// Pools whose own account holds price state (sqrt price / tick, active bin, AMM pnl and fees)
+const PRICE_STATE_POOL_TYPES: PoolInfo['poolType'][] = ['whirlpool', 'clmm', 'dlmm', 'amm-v4', 'cpmm'];
+
+/** Pool-state account data as the price stream last delivered it (PriceStream satisfies this) */
+export interface PoolStateSource {
+  poolAccountData(address: PublicKey): Buffer | undefined;
+}
+
+/** The wallet's balances as last read in the background (ExecutionContextCache satisfies this) */
+export interface WalletBalances {
+  /** SOL balance, or null before the first read */
+  walletLamports(): number | null;
+  /** Raw token amount in one of the wallet's ATAs (0 if it doesn't exist), or null if it isn't tracked */
+  tokenAccountBalance(ata: PublicKey): bigint | null;
+}
+
+/**
+ * Everything a trade needs besides the quote, resolved ahead of time so that
+ * building and signing a swap makes no RPC calls:
+ *
+ * - Builder reads (OpenBook markets, mint owners, vaults, tick / bin array
+ *   existence): recorded per pool by priming its builder in both directions,
+ *   then re-read in one batched call every config.executionRefreshMs.
+ * - Pool-state accounts that hold price (Whirlpool, CLMM, DLMM, AMM) are
+ *   never served from that refresh: their data is the price stream's latest
+ *   copy, or a fresh read when the stream hasn't delivered one yet.
+ * - The wallet's ATAs for every pool mint, so missing ones are known locally,
+ *   plus the wallet account itself: the risk checks read SOL and token
+ *   balances from here. The Executor re-reads them after every trade.
+ * - A rolling blockhash, refreshed every config.blockhashRefreshMs.
+ *
+ * Serves the builders as their AccountSource. A read the cache hasn't seen
+ * falls through to RPC and is kept (and refreshed) from then on.
+ */
+export class ExecutionContextCache implements AccountSource, WalletBalances {
+  private accounts = new Map<string, AccountInfo<Buffer> | null>();
+  private poolAccounts = new Map<string, PublicKey[]>();
+  private priceStates = new Set<string>();
+  private extraAccounts = new Map<string, PublicKey>();
+  private walletAccounts = new Map<string, PublicKey>(); // the wallet and its ATAs for every pool mint
+  private blockhash: (BlockhashWithExpiryBlockHeight & { fetchedAt: number }) | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private blockhashTimer: NodeJS.Timeout | null = null;
+
+  constructor(private connection: Connection, private owner: PublicKey, private poolStates?: PoolStateSource) {}
+
+  /** Resolve the context for these pools and start the background refreshes */
+  async start(pools: PoolInfo[]): Promise<void> {
+    this.walletAccounts.set(this.owner.toBase58(), this.owner);
+    await Promise.all([this.refreshBlockhash(), this.load([this.owner]), this.addPools(pools)]);
+    console.log(`   🧰 Execution context: ${this.accounts.size} accounts for ${this.poolAccounts.size} pools`);
+
+    this.refreshTimer = setInterval(() => {
+      this.refresh().catch(e => console.log(`   ⚠️ Execution context refresh failed: ${e.message?.slice(0, 60)}`));
+    }, config.executionRefreshMs);
+    this.blockhashTimer = setInterval(() => {
+      this.refreshBlockhash().catch(() => {}); // keep the previous one until it ages out
+    }, config.blockhashRefreshMs);
+  }
+
+  stop(): void {
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+    if (this.blockhashTimer) clearInterval(this.blockhashTimer);
+    this.refreshTimer = null;
+    this.blockhashTimer = null;
+  }
+
+  /** Record which accounts each pool's builder reads, plus the wallet ATAs for its mints */
+  async addPools(pools: PoolInfo[]): Promise<void> {
+    const fresh = pools.filter(p => !this.poolAccounts.has(p.address.toBase58()));
+    if (fresh.length === 0) return;
+
+    // Pool accounts and ATAs in one batch first, so priming mostly hits the cache
+    const atas = (pool: PoolInfo) => [pool.tokenA, pool.tokenB].map(m => userTokenAccount(pool, m, this.owner).ata);
+    await this.load(fresh.flatMap(p => [p.address, ...atas(p)]));
+
+    for (const pool of fresh) {
+      for (const ata of atas(pool)) this.walletAccounts.set(ata.toBase58(), ata);
+      if (PRICE_STATE_POOL_TYPES.includes(pool.poolType)) this.priceStates.add(pool.address.toBase58());
+      const recorded = new Map<string, PublicKey>();
+      for (const address of [pool.address, ...atas(pool)]) recorded.set(address.toBase58(), address);
+      await this.prime(pool, recorded);
+      this.poolAccounts.set(pool.address.toBase58(), [...recorded.values()]);
+    }
+  }
+
+  removePools(pools: PoolInfo[]): void {
+    for (const pool of pools) {
+      this.poolAccounts.delete(pool.address.toBase58());
+      this.priceStates.delete(pool.address.toBase58());
+    }
+  }
+
+  async getAccountInfo(address: PublicKey): Promise<AccountInfo<Buffer> | null> {
+    return (await this.getMultipleAccountsInfo([address]))[0];
+  }
+
+  async getMultipleAccountsInfo(addresses: PublicKey[]): Promise<(AccountInfo<Buffer> | null)[]> {
+    return this.resolve(addresses, true);
+  }
+
+  /** Latest blockhash from the rolling cache; fetched inline only if the cache has gone stale */
+  async latestBlockhash(): Promise<BlockhashWithExpiryBlockHeight> {
+    if (!this.blockhash || Date.now() - this.blockhash.fetchedAt > BLOCKHASH_MAX_AGE_MS) {
+      await this.refreshBlockhash();
+    }
+    return this.blockhash!;
+  }
+
+  walletLamports(): number | null {
+    const info = this.accounts.get(this.owner.toBase58());
+    return info === undefined ? null : info?.lamports ?? 0;
+  }
+
+  tokenAccountBalance(ata: PublicKey): bigint | null {
+    if (!this.walletAccounts.has(ata.toBase58())) return null;
+    const info = this.accounts.get(ata.toBase58());
+    return info && info.data.length >= 72 ? info.data.readBigUInt64LE(64) : 0n;
+  }
+
+  /** Re-read the wallet and its ATAs (after a trade moved them) */
+  async refreshWallet(): Promise<void> {
+    await this.load([...this.walletAccounts.values()]);
+  }
+
+  /** Re-read every cached account in batched calls (price-state accounts are served live instead) */
+  async refresh(): Promise<void> {
+    const all = new Map([...this.extraAccounts, ...this.walletAccounts]);
+    for (const list of this.poolAccounts.values()) {
+      for (const a of list) if (!this.priceStates.has(a.toBase58())) all.set(a.toBase58(), a);
+    }
+    await this.load([...all.values()]);
+  }
+
+  /**
+   * Run the pool's builder against a recording source in both swap directions
+   * so every account it reads is known (and cached) before a real trade.
+   */
+  private async prime(pool: PoolInfo, recorded: Map<string, PublicKey>): Promise<void> {
+    const builder = getSwapBuilder(pool);
+    if (!builder) return;
+    const recorder: AccountSource = {
+      getAccountInfo: async address => {
+        recorded.set(address.toBase58(), address);
+        return (await this.resolve([address], false))[0];
+      },
+      getMultipleAccountsInfo: async addresses => {
+        for (const a of addresses) recorded.set(a.toBase58(), a);
+        return this.resolve(addresses, false);
+      },
+    };
+
+    for (const [inputMint, outputMint] of [[pool.tokenA, pool.tokenB], [pool.tokenB, pool.tokenA]]) {
+      try {
+        await builder.build({
+          pool, inputMint, outputMint,
+          amount: new BN(1), minAmountOut: new BN(1), maxPriceMoveBps: config.slippageBps,
+          owner: this.owner,
+        }, recorder);
+      } catch {}
+    }
+  }
+
+  /**
+   * Cached infos, loading any misses. Misses outside priming belong to no
+   * pool and are kept refreshed separately. Price-state accounts get the
+   * stream's data, or are re-read when it has none.
+   */
+  private async resolve(addresses: PublicKey[], trackMisses: boolean): Promise<(AccountInfo<Buffer> | null)[]> {
+    const live = (a: PublicKey) => this.priceStates.has(a.toBase58()) ? this.poolStates?.poolAccountData(a) : undefined;
+    const missing = addresses.filter(a => !this.accounts.has(a.toBase58()) || (this.priceStates.has(a.toBase58()) && !live(a)));
+    if (missing.length > 0) {
+      if (trackMisses) for (const a of missing) if (!this.priceStates.has(a.toBase58())) this.extraAccounts.set(a.toBase58(), a);
+      await this.load(missing);
+    }
+    return addresses.map(a => {
+      const info = this.accounts.get(a.toBase58()) ?? null;
+      const data = live(a);
+      return info && data ? { ...info, data } : info;
+    });
+  }
+
+  private async load(addresses: PublicKey[]): Promise<void> {
+    for (let i = 0; i < addresses.length; i += MAX_ACCOUNTS_PER_CALL) {
+      const chunk = addresses.slice(i, i + MAX_ACCOUNTS_PER_CALL);
+      const infos = await this.connection.getMultipleAccountsInfo(chunk);
+      chunk.forEach((a, j) => this.accounts.set(a.toBase58(), infos[j]));
+    }
+  }
+
+  private async refreshBlockhash(): Promise<void> {
+    const latest = await this.connection.getLatestBlockhash();
+    this.blockhash = { ...latest, fetchedAt: Date.now() };
+  }
+}
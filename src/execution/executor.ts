@@ -1,54 +1,158 @@
 import {
-  Connection, PublicKey, Transaction, VersionedTransaction,
+  Connection, PublicKey, VersionedTransaction, TransactionInstruction, TransactionMessage,
   ComputeBudgetProgram, SystemProgram,
 } from '@solana/web3.js';
 import {
-  TOKEN_PROGRAM_ID, getAssociatedTokenAddress, getAssociatedTokenAddressSync,
-  createAssociatedTokenAccountInstruction,
+  TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync,
+  createAssociatedTokenAccountIdempotentInstruction,
   createSyncNativeInstruction, createCloseAccountInstruction,
 } from '@solana/spl-token';
 import Decimal from 'decimal.js';
 import BN from 'bn.js';
+import bs58 from 'bs58';
 import { ArbOpportunity, PoolInfo } from '../pools/types';
-import { config, wallet, PROGRAMS } from '../config';
-import {
-  PUMPFUN_PROGRAM, PUMPFUN_FEE_RECIPIENT,
-  getBondingCurvePDA, getGlobalPDA, getEventAuthorityPDA,
-} from '../pools/pumpfun';
-import {
-  PUMPSWAP_PROGRAM, PUMPSWAP_GLOBAL_CONFIG, PUMPSWAP_FEE_RECIPIENT,
-  PUMPSWAP_FEE_PROGRAM, getPumpSwapEventAuthority, getPumpSwapPoolAuthority,
-  parsePumpSwapPool,
-} from '../pools/pumpswap';
+import { PoolManager } from '../pools/poolManager';
+import { config, wallet } from '../config';
+import { SwapInstructions, UserTokenAccount, getSwapBuilder } from './builders';
+import { LookupTableManager } from './lookupTable';
+import { TransactionSubmitter, createSubmitter } from './submission';
+import { PriorityFeeEstimator } from './priorityFees';
+import { ExecutionContextCache, PoolStateSource, WalletBalances } from './executionContext';
+import { ExecutionMode, TradeAttempt, TradeJournal } from '../journal/journal';
+import { TradeReconciler } from '../journal/reconciler';
 
 const SOL_MINT = new PublicKey('So11111111111111111111111111111111111111112');
 const SOL_STR = SOL_MINT.toBase58();
 const API_TIMEOUT_MS = 10_000;
-
-// Raydium AMM Authority PDA
-const [AMM_AUTHORITY] = PublicKey.findProgramAddressSync(
-  [Buffer.from([97, 109, 109, 32, 97, 117, 116, 104, 111, 114, 105, 116, 121])],
-  new PublicKey('675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8'),
-);
+const MAX_COMPUTE_UNITS = 1_400_000;
+const BASE_FEE_LAMPORTS = 5_000;
 
 /**
  * Transaction Executor — Raw Instructions
  *
- * - Raydium swaps: raw AMM-V4 instructions (buy AND sell)
- * - Orca swaps: raw Whirlpool swap instructions (tick arrays via string-seed PDAs)
+ * Swap instructions come from the per-DEX builders in ./builders; the executor
+ * only adds compute budget, ATAs and WSOL wrap/unwrap, then compiles a v0
+ * message against the bot's lookup tables, simulates and sends.
+ *
+ * Compute budget is sized per transaction: the CU limit comes from the
+ * simulation's unitsConsumed, the CU price from recent prioritization fees,
+ * and the total fee is capped at config.maxFeeProfitFraction of expected profit.
  *
- * Executes as TWO sequential transactions (not atomic).
- * If leg 1 succeeds but leg 2 fails, we temporarily hold tokens.
+ * Atomic mode (default): both legs in one transaction — either both land or neither.
+ * Sequential mode (ATOMIC_EXECUTION=false): TWO transactions — sent as one
+ * bundle when SUBMIT_MODE=jito, otherwise one after the other over RPC, where
+ * a failed leg 2 leaves us temporarily holding tokens.
+ *
+ * Every attempt (dry runs included) goes to the trade journal with its
+ * quotes, signatures and errors; live attempts are then reconciled against
+ * the confirmed transactions, and that realized PnL is what getStats reports.
  */
 export class Executor {
   private executionCount = 0;
-  private totalProfit = new Decimal(0);
+  private dryRunCount = 0;
+  private expectedProfit = new Decimal(0);  // dry runs: what the opportunities promised
+  private realizedProfit = new Decimal(0);  // live: reconciled from confirmed balances
   private lastExecution: { key: string; timestamp: number } | null = null;
+  private lookupTable: LookupTableManager;
+  private submitter: TransactionSubmitter;
+  private feeEstimator: PriorityFeeEstimator;
+  private context: ExecutionContextCache;
+  private journal: TradeJournal;
+  private reconciler: TradeReconciler;
+  private attempt: TradeAttempt | null = null; // the execute() in progress (one at a time)
+
+  constructor(private connection: Connection, private poolManager: PoolManager, poolStates: PoolStateSource) {
+    this.lookupTable = new LookupTableManager(connection);
+    this.submitter = createSubmitter(connection);
+    this.feeEstimator = new PriorityFeeEstimator(connection);
+    this.context = new ExecutionContextCache(connection, wallet.publicKey, poolStates);
+    this.journal = new TradeJournal();
+    this.reconciler = new TradeReconciler(connection, this.journal, wallet.publicKey);
+  }
+
+  /**
+   * Resolve the execution context (builder accounts, ATAs, wallet balances,
+   * blockhash), start the priority fee refresh and load/create the bot's
+   * lookup tables, seeded with every known pool account. Dry runs only need
+   * the context, for the wallet balances the risk checks read.
+   */
+  async prepare(pools: PoolInfo[]): Promise<void> {
+    try {
+      await this.context.start(pools);
+    } catch (e: any) {
+      console.log(`   ⚠️ Execution context prefetch failed, resolving per trade: ${e.message}`);
+    }
+    if (config.dryRun) return;
+    await this.feeEstimator.start();
+
+    if (!config.useLookupTable) return;
+    try {
+      await this.lookupTable.init();
+      this.lookupTable.trackPools(pools);
+      await this.lookupTable.flush();
+    } catch (e: any) {
+      console.log(`   ⚠️ Lookup table unavailable, sending without it: ${e.message}`);
+    }
+  }
+
+  /** Resolve execution context for newly discovered pools and add their accounts to the lookup tables. */
+  async trackPools(pools: PoolInfo[]): Promise<void> {
+    if (pools.length === 0) return;
+    try {
+      await this.context.addPools(pools);
+    } catch (e: any) {
+      console.log(`   ⚠️ Execution context prefetch failed: ${e.message}`);
+    }
 
-  constructor(private connection: Connection) {}
+    if (config.dryRun || !config.useLookupTable) return;
+    try {
+      this.lookupTable.trackPools(pools);
+      await this.lookupTable.flush();
+    } catch (e: any) {
+      console.log(`   ⚠️ Lookup table extend failed: ${e.message}`);
+    }
+  }
+
+  /** Write accounts queued by recent trades to the lookup tables — from the refresh loop, never per trade. */
+  async flushLookupTables(): Promise<void> {
+    if (config.dryRun || !config.useLookupTable) return;
+    try {
+      await this.lookupTable.flush();
+    } catch (e: any) {
+      console.log(`   ⚠️ Lookup table extend failed: ${e.message}`);
+    }
+  }
+
+  /** Stop refreshing context for pools discovery dropped. */
+  untrackPools(pools: PoolInfo[]): void {
+    this.context.removePools(pools);
+  }
+
+  /** Wallet SOL / token balances, kept current in the background and after every trade */
+  walletBalances(): WalletBalances {
+    return this.context;
+  }
+
+  stop(): void {
+    this.context.stop();
+    this.feeEstimator.stop();
+  }
+
+  /**
+   * Whether this executor can run the opportunity's route: atomic mode runs
+   * any number of hops, the two-transaction modes only buy-then-sell pairs.
+   * Callers filter on this before choosing an opportunity.
+   */
+  static supportsRoute(opp: ArbOpportunity): boolean {
+    return config.atomicExecution || opp.route.length <= 2;
+  }
 
   async execute(opportunity: ArbOpportunity): Promise<boolean> {
     const { type, buyPool, sellPool, inputAmount, expectedProfit, profitBps } = opportunity;
+    if (!Executor.supportsRoute(opportunity)) {
+      console.log(`   ⏭️ Skipping: ${opportunity.route.length}-hop route (needs atomic execution)`);
+      return false;
+    }
 
     const dedupKey = `${buyPool.address.toBase58()}-${sellPool.address.toBase58()}-${type}`;
     const now = Date.now();
@@ -64,58 +168,99 @@ export class Executor {
     console.log(`   Size:   ${inputAmount.div(1e9).toFixed(4)} SOL`);
     console.log(`   Profit: ${expectedProfit.div(1e9).toFixed(6)} SOL (${profitBps} bps)`);
 
+    const attempt = this.journal.begin(opportunity, this.mode());
     if (config.dryRun) {
       console.log(`   📝 DRY RUN — not executing`);
-      this.executionCount++;
-      this.totalProfit = this.totalProfit.add(expectedProfit);
+      this.journal.finish(attempt, 'dry-run');
+      this.dryRunCount++;
+      this.expectedProfit = this.expectedProfit.add(expectedProfit);
       return true;
     }
 
+    this.attempt = attempt;
+    let landed = false;
     try {
-      return await this.executeArb(opportunity);
+      landed = await this.executeArb(opportunity);
     } catch (error: any) {
-      console.log(`   ❌ Execution failed: ${error.message}`);
-      return false;
+      this.fail(`Execution failed: ${error.message}`);
+    } finally {
+      this.attempt = null;
     }
+
+    this.journal.finish(attempt, landed ? 'landed' : 'failed');
+    if (landed) this.executionCount++;
+    if (attempt.transactions.length > 0) this.reconcile(attempt);
+    // The trade moved our balances; re-read them before the next risk check
+    await this.context.refreshWallet().catch(e => console.log(`   ⚠️ Wallet refresh failed: ${e.message?.slice(0, 60)}`));
+    return landed;
+  }
+
+  private mode(): ExecutionMode {
+    if (config.dryRun) return 'dry-run';
+    if (config.atomicExecution) return 'atomic';
+    return this.submitter.atomicBundles ? 'bundle' : 'sequential';
+  }
+
+  /** Realized PnL from the confirmed balances, in the background so scanning resumes right away */
+  private reconcile(attempt: TradeAttempt): void {
+    this.reconciler.reconcile(attempt)
+      .then(r => {
+        if (!r) return;
+        this.realizedProfit = this.realizedProfit.add(r.realizedPnl);
+        const sol = (lamports: string) => new Decimal(lamports).div(1e9).toFixed(6);
+        console.log(`   🧾 Realized ${sol(r.realizedPnl)} SOL (fees ${sol(r.fees)} | tips ${sol(r.tips)} | rent ${sol(r.rent)})`);
+      })
+      .catch(e => console.log(`   ⚠️ Reconciliation failed: ${e.message?.slice(0, 60)}`));
+  }
+
+  /** Log a failure and journal it against the attempt in progress */
+  private fail(message: string): void {
+    console.log(`   ❌ ${message}`);
+    this.attempt?.errors.push(message);
   }
 
   private async executeArb(opp: ArbOpportunity): Promise<boolean> {
+    if (config.atomicExecution) return this.executeAtomic(opp);
+    if (this.submitter.atomicBundles) return this.executeBundle(opp);
+
     const tokenMint = opp.tokenMint;
     const solLamports = opp.inputAmount.toFixed(0);
+    const legFeeBudget = this.feeBudget(opp) / 2;
 
     // ── Leg 1: Buy token (SOL → Token) ──
     console.log(`   📡 Leg 1: Buy on ${opp.buyPool.dex}...`);
-    const sig1 = await this.executeBuyLeg(tokenMint, solLamports, opp.buyPool);
+    const sig1 = await this.executeSwap(SOL_MINT, tokenMint, solLamports, opp.buyPool, legFeeBudget);
 
-    if (!sig1) { console.log('   ❌ Leg 1 failed'); return false; }
+    if (!sig1) { this.fail('Leg 1 failed'); return false; }
     console.log(`   🔗 Leg 1: ${sig1}`);
 
     // Get token balance for leg 2
-    const tokenAta = await getAssociatedTokenAddress(tokenMint, wallet.publicKey);
+    const tokenAta = this.poolManager.mints.ata(tokenMint, wallet.publicKey);
     await new Promise(r => setTimeout(r, 1000)); // brief settle
     const tokenBal = await this.connection.getTokenAccountBalance(tokenAta);
     const tokenAmount = tokenBal.value.amount;
     console.log(`   💰 Got ${tokenBal.value.uiAmountString} tokens`);
 
     if (parseInt(tokenAmount) === 0) {
-      console.log('   ❌ No tokens received');
+      this.fail('No tokens received');
       return false;
     }
 
     // ── Leg 2: Sell token (Token → SOL) ──
     console.log(`   📡 Leg 2: Sell on ${opp.sellPool.dex}...`);
 
-    const sig2 = await this.executeSellLeg(tokenMint, tokenAmount, opp.sellPool);
+    const sig2 = await this.executeSwap(tokenMint, SOL_MINT, tokenAmount, opp.sellPool, legFeeBudget);
 
     if (!sig2) {
-      console.log('    Leg 2 failed — trying fallback...');
+      this.fail('Leg 2 failed — trying fallback...');
       const tokenBal2 = await this.connection.getTokenAccountBalance(tokenAta);
       if (parseInt(tokenBal2.value.amount) > 0) {
         const otherPool = opp.sellPool !== opp.buyPool ? opp.buyPool : null;
         if (otherPool) {
           console.log(`    Fallback via ${otherPool.dex}...`);
-          const fb = await this.executeSellLeg(tokenMint, tokenBal2.value.amount, otherPool);
+          const fb = await this.executeSwap(tokenMint, SOL_MINT, tokenBal2.value.amount, otherPool, legFeeBudget);
           if (fb) console.log(`    Fallback: ${fb}`);
+          else this.fail('Fallback sell failed');
         }
       }
       return false;
@@ -123,615 +268,285 @@ export class Executor {
     console.log(`    Leg 2: ${sig2}`);
 
     console.log(`    Arb complete!`);
-    this.executionCount++;
-    this.totalProfit = this.totalProfit.add(opp.expectedProfit);
     return true;
   }
 
-  private async executeBuyLeg(tokenMint: PublicKey, amount: string, pool: PoolInfo): Promise<string | null> {
-    if (pool.dex === 'orca') return this.swapViaOrca(SOL_MINT, tokenMint, amount, pool);
-    if (pool.dex === 'pumpfun') return this.swapViaPumpFun(SOL_MINT, tokenMint, amount, pool);
-    if (pool.dex === 'pumpswap') return this.swapViaPumpSwap(SOL_MINT, tokenMint, amount, pool);
-    if (pool.dex === 'raydium' && pool.poolType === 'cpmm') return this.swapViaCpmm(SOL_MINT, tokenMint, amount, pool);
-    if (pool.dex === 'raydium') return this.swapViaRaydiumRaw(SOL_MINT, tokenMint, amount, pool);
-    return null;
-  }
-
-  private async executeSellLeg(tokenMint: PublicKey, amount: string, pool: PoolInfo): Promise<string | null> {
-    if (pool.dex === 'orca') return this.swapViaOrca(tokenMint, SOL_MINT, amount, pool);
-    if (pool.dex === 'pumpfun') return this.swapViaPumpFun(tokenMint, SOL_MINT, amount, pool);
-    if (pool.dex === 'pumpswap') return this.swapViaPumpSwap(tokenMint, SOL_MINT, amount, pool);
-    if (pool.dex === 'raydium' && pool.poolType === 'cpmm') return this.swapViaCpmm(tokenMint, SOL_MINT, amount, pool);
-    if (pool.dex === 'raydium') return this.swapViaRaydiumRaw(tokenMint, SOL_MINT, amount, pool);
-    return null;
-  }
-
-  // ═══════════════════════════════════════════
-  // Raydium — raw AMM-V4 swap instruction
-  // ═══════════════════════════════════════════
-  private async swapViaRaydiumRaw(
-    inputMint: PublicKey, outputMint: PublicKey,
-    amount: string, pool: PoolInfo,
-  ): Promise<string | null> {
-    // Read AMM pool on-chain
-    const poolAcct = await this.connection.getAccountInfo(pool.address);
-    if (!poolAcct) { console.log('   ❌ Raydium pool not found'); return null; }
-    const buf = poolAcct.data as Buffer;
-
-    const baseVault = new PublicKey(buf.subarray(336, 368));
-    const quoteVault = new PublicKey(buf.subarray(368, 400));
-    const baseMint = new PublicKey(buf.subarray(400, 432));
-    const quoteMint = new PublicKey(buf.subarray(432, 464));
-    const openOrders = new PublicKey(buf.subarray(496, 528));
-    const marketId = new PublicKey(buf.subarray(528, 560));
-    const marketProgramId = new PublicKey(buf.subarray(560, 592));
-    const targetOrders = new PublicKey(buf.subarray(592, 624));
-
-    // Read Serum/OpenBook market
-    const marketAcct = await this.connection.getAccountInfo(marketId);
-    if (!marketAcct) { console.log('   ❌ Serum market not found'); return null; }
-    const mBuf = marketAcct.data as Buffer;
-    const vaultSignerNonce = mBuf.readBigUInt64LE(45);
-    const serumBaseVault = new PublicKey(mBuf.subarray(117, 149));
-    const serumQuoteVault = new PublicKey(mBuf.subarray(165, 197));
-    const eventQueue = new PublicKey(mBuf.subarray(253, 285));
-    const bids = new PublicKey(mBuf.subarray(285, 317));
-    const asks = new PublicKey(mBuf.subarray(317, 349));
-
-    // Derive vault signer
-    const nonceBuffer = Buffer.alloc(8);
-    nonceBuffer.writeBigUInt64LE(vaultSignerNonce);
-    const vaultSigner = PublicKey.createProgramAddressSync(
-      [marketId.toBuffer(), nonceBuffer], marketProgramId,
-    );
-
-    // User ATAs
-    const userSourceAta = await getAssociatedTokenAddress(inputMint, wallet.publicKey);
-    const userDestAta = await getAssociatedTokenAddress(outputMint, wallet.publicKey);
-
-    const tx = new Transaction();
-    tx.add(ComputeBudgetProgram.setComputeUnitLimit({ units: 400_000 }));
-    tx.add(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 100_000 }));
-
-    // Ensure ATAs
-    for (const [mint, ata] of [[inputMint, userSourceAta], [outputMint, userDestAta]] as [PublicKey, PublicKey][]) {
-      const info = await this.connection.getAccountInfo(ata);
-      if (!info) tx.add(createAssociatedTokenAccountInstruction(wallet.publicKey, ata, wallet.publicKey, mint));
+  /**
+   * Every hop of the route in ONE transaction: wrap SOL → hop 1 → … → hop N → unwrap.
+   * Each later hop spends the minimum the hop before it is quoted to deliver
+   * after slippage, so it can never overdraw that ATA; any surplus stays as
+   * dust. If any swap fails the whole transaction reverts and we hold nothing.
+   * Slippage compounds per hop, so the route is refused unless the last hop's
+   * minimum still covers the input plus fees — a landed trade can't lose.
+   */
+  private async executeAtomic(opp: ArbOpportunity): Promise<boolean> {
+    const solLamports = opp.inputAmount.toFixed(0);
+    console.log(`   📡 Atomic: ${opp.route.map(hop => hop.pool.dex).join(' → ')}`);
+
+    const legs: SwapInstructions[] = [];
+    let amount = opp.inputAmount.floor();
+    for (const [i, hop] of opp.route.entries()) {
+      if (amount.lte(0)) { this.fail(`Leg ${i} quote returned no output`); return false; }
+      const leg = await this.buildLeg(hop.inputMint, hop.outputMint, amount.toFixed(0), hop.pool);
+      if (!leg) { this.fail(`Leg ${i + 1} build failed`); return false; }
+      legs.push(leg);
+      amount = this.minAmountOut(hop.pool, hop.inputMint, amount);
     }
+    if (!this.coversCost(opp, amount, 1)) return false;
 
-    // Wrap SOL if input
-    if (inputMint.equals(SOL_MINT)) {
-      tx.add(
-        SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: userSourceAta, lamports: parseInt(amount) }),
-        createSyncNativeInstruction(userSourceAta),
-      );
-    }
+    const usesWsol = legs.some(leg => leg.wrapsSol);
+    const wsolAta = getAssociatedTokenAddressSync(SOL_MINT, wallet.publicKey);
+    const atas = legs.flatMap(leg => leg.atas);
+    if (usesWsol) atas.push({ mint: SOL_MINT, ata: wsolAta, tokenProgram: TOKEN_PROGRAM_ID });
 
-    // swapBaseIn instruction (index 9)
-    const ixData = Buffer.alloc(17);
-    ixData.writeUInt8(9, 0);
-    const amountBN = new BN(amount);
-    ixData.set(amountBN.toArrayLike(Buffer, 'le', 8), 1);
-    ixData.set(new BN(0).toArrayLike(Buffer, 'le', 8), 9); // minOut = 0 (sim protects)
-
-    tx.add({
-      programId: PROGRAMS.RAYDIUM_AMM,
-      keys: [
-        { pubkey: TOKEN_PROGRAM_ID,     isSigner: false, isWritable: false },
-        { pubkey: pool.address,          isSigner: false, isWritable: true },
-        { pubkey: AMM_AUTHORITY,         isSigner: false, isWritable: false },
-        { pubkey: openOrders,            isSigner: false, isWritable: true },
-        { pubkey: targetOrders,          isSigner: false, isWritable: true },
-        { pubkey: baseVault,             isSigner: false, isWritable: true },
-        { pubkey: quoteVault,            isSigner: false, isWritable: true },
-        { pubkey: marketProgramId,       isSigner: false, isWritable: false },
-        { pubkey: marketId,              isSigner: false, isWritable: true },
-        { pubkey: bids,                  isSigner: false, isWritable: true },
-        { pubkey: asks,                  isSigner: false, isWritable: true },
-        { pubkey: eventQueue,            isSigner: false, isWritable: true },
-        { pubkey: serumBaseVault,        isSigner: false, isWritable: true },
-        { pubkey: serumQuoteVault,       isSigner: false, isWritable: true },
-        { pubkey: vaultSigner,           isSigner: false, isWritable: false },
-        { pubkey: userSourceAta,         isSigner: false, isWritable: true },
-        { pubkey: userDestAta,           isSigner: false, isWritable: true },
-        { pubkey: wallet.publicKey,      isSigner: true,  isWritable: true },
-      ],
-      data: ixData,
-    });
+    const ixs: TransactionInstruction[] = await this.ensureAtas(atas);
 
-    // Unwrap WSOL if output is SOL
-    if (outputMint.equals(SOL_MINT)) {
-      tx.add(createCloseAccountInstruction(userDestAta, wallet.publicKey, wallet.publicKey));
+    // Routes start in SOL, so only the first hop can need it wrapped
+    if (legs[0].wrapsSol) {
+      ixs.push(
+        SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: wsolAta, lamports: parseInt(solLamports) }),
+        createSyncNativeInstruction(wsolAta),
+      );
     }
-
-    tx.feePayer = wallet.publicKey;
-    const { blockhash } = await this.connection.getLatestBlockhash();
-    tx.recentBlockhash = blockhash;
-
-    const sim = await this.connection.simulateTransaction(tx);
-    if (sim.value.err) {
-      console.log(`   ❌ Raydium raw sim failed:`, JSON.stringify(sim.value.err));
-      if (sim.value.logs) console.log(`   ${sim.value.logs.slice(-3).join('\n   ')}`);
-      return null;
+    ixs.push(...legs.flatMap(leg => leg.instructions));
+    if (usesWsol) {
+      ixs.push(createCloseAccountInstruction(wsolAta, wallet.publicKey, wallet.publicKey));
     }
 
-    tx.sign(wallet);
-    return this.sendAndConfirm(Buffer.from(tx.serialize()));
+    const computeUnits = legs.reduce((sum, leg) => sum + leg.computeUnits, 0);
+    const sig = await this.simulateAndSend(ixs, computeUnits, 'Atomic arb', this.feeBudget(opp));
+    if (!sig) { this.fail('Atomic arb failed — no position taken'); return false; }
+    console.log(`    Arb complete: ${sig}`);
+    return true;
   }
 
-  // ═══════════════════════════════════════════
-  // Raydium CPMM — raw swap instruction
-  // ═══════════════════════════════════════════
-  private async swapViaCpmm(
-    inputMint: PublicKey, outputMint: PublicKey,
-    amount: string, pool: PoolInfo,
-  ): Promise<string | null> {
-    const CPMM_PROGRAM = new PublicKey('CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C');
-    const [cpmmAuth] = PublicKey.findProgramAddressSync(
-      [Buffer.from('vault_and_lp_mint_auth_seed')], CPMM_PROGRAM);
-    const CPMM_SWAP_DISC = Buffer.from('8fbe5adac41e33de', 'hex');
-
-    const poolAcct = await this.connection.getAccountInfo(pool.address);
-    if (!poolAcct) { console.log('   ❌ CPMM pool not found'); return null; }
-    const buf = poolAcct.data as Buffer;
-
-    const ammConfig = new PublicKey(buf.subarray(8, 40));
-    const token0Vault = new PublicKey(buf.subarray(72, 104));
-    const token1Vault = new PublicKey(buf.subarray(104, 136));
-    const token0Mint = new PublicKey(buf.subarray(168, 200));
-    const token1Mint = new PublicKey(buf.subarray(200, 232));
-
-    const isInput0 = inputMint.equals(token0Mint);
-    const inputVault = isInput0 ? token0Vault : token1Vault;
-    const outputVault = isInput0 ? token1Vault : token0Vault;
-
-    const [observation] = PublicKey.findProgramAddressSync(
-      [Buffer.from('observation'), pool.address.toBuffer()], CPMM_PROGRAM);
-
-    const userInputAta = await getAssociatedTokenAddress(inputMint, wallet.publicKey);
-    const userOutputAta = await getAssociatedTokenAddress(outputMint, wallet.publicKey);
-
-    // Check token programs (some tokens use Token-2022)
-    const TOKEN_2022 = new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
-    const inputMintInfo = await this.connection.getAccountInfo(inputMint);
-    const outputMintInfo = await this.connection.getAccountInfo(outputMint);
-    const inputTokenProg = inputMintInfo?.owner.equals(TOKEN_2022) ? TOKEN_2022 : TOKEN_PROGRAM_ID;
-    const outputTokenProg = outputMintInfo?.owner.equals(TOKEN_2022) ? TOKEN_2022 : TOKEN_PROGRAM_ID;
-
-    const tx = new Transaction();
-    tx.add(ComputeBudgetProgram.setComputeUnitLimit({ units: 300_000 }));
-    tx.add(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 100_000 }));
-
-    for (const [mint, ata] of [[inputMint, userInputAta], [outputMint, userOutputAta]] as [PublicKey, PublicKey][]) {
-      const info = await this.connection.getAccountInfo(ata);
-      if (!info) tx.add(createAssociatedTokenAccountInstruction(wallet.publicKey, ata, wallet.publicKey, mint));
-    }
+  /**
+   * Two legs as two transactions in one all-or-nothing bundle (tip on leg 2).
+   * Leg 2 can't be simulated before leg 1 lands, so only leg 1 is simulated;
+   * a failing leg 2 drops the whole bundle.
+   */
+  private async executeBundle(opp: ArbOpportunity): Promise<boolean> {
+    const tokenMint = opp.tokenMint;
+    const solLamports = opp.inputAmount.toFixed(0);
 
-    if (inputMint.equals(SOL_MINT)) {
-      tx.add(
-        SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: userInputAta, lamports: parseInt(amount) }),
-        createSyncNativeInstruction(userInputAta),
-      );
-    }
+    const tokenAmount = this.minAmountOut(opp.buyPool, SOL_MINT, opp.inputAmount);
+    if (tokenAmount.lte(0)) { this.fail('Buy quote returned no tokens'); return false; }
+    if (!this.coversCost(opp, this.minAmountOut(opp.sellPool, tokenMint, tokenAmount), 2)) return false;
 
-    const ixData = Buffer.alloc(24);
-    CPMM_SWAP_DISC.copy(ixData, 0);
-    ixData.set(new BN(amount).toArrayLike(Buffer, 'le', 8), 8);
-    ixData.set(new BN(0).toArrayLike(Buffer, 'le', 8), 16);
-
-    tx.add({
-      programId: CPMM_PROGRAM,
-      keys: [
-        { pubkey: wallet.publicKey, isSigner: true, isWritable: true },
-        { pubkey: cpmmAuth, isSigner: false, isWritable: false },
-        { pubkey: ammConfig, isSigner: false, isWritable: false },
-        { pubkey: pool.address, isSigner: false, isWritable: true },
-        { pubkey: userInputAta, isSigner: false, isWritable: true },
-        { pubkey: userOutputAta, isSigner: false, isWritable: true },
-        { pubkey: inputVault, isSigner: false, isWritable: true },
-        { pubkey: outputVault, isSigner: false, isWritable: true },
-        { pubkey: inputTokenProg, isSigner: false, isWritable: false },
-        { pubkey: outputTokenProg, isSigner: false, isWritable: false },
-        { pubkey: inputMint, isSigner: false, isWritable: false },
-        { pubkey: outputMint, isSigner: false, isWritable: false },
-        { pubkey: observation, isSigner: false, isWritable: true },
-      ],
-      data: ixData,
-    });
+    console.log(`   📡 Bundle: buy on ${opp.buyPool.dex} → sell ${tokenAmount.toFixed(0)} on ${opp.sellPool.dex}`);
 
-    if (outputMint.equals(SOL_MINT)) {
-      tx.add(createCloseAccountInstruction(userOutputAta, wallet.publicKey, wallet.publicKey));
-    }
+    const buyLeg = await this.buildLeg(SOL_MINT, tokenMint, solLamports, opp.buyPool);
+    if (!buyLeg) { this.fail('Leg 1 build failed'); return false; }
+    const sellLeg = await this.buildLeg(tokenMint, SOL_MINT, tokenAmount.toFixed(0), opp.sellPool);
+    if (!sellLeg) { this.fail('Leg 2 build failed'); return false; }
 
-    tx.feePayer = wallet.publicKey;
-    const { blockhash } = await this.connection.getLatestBlockhash();
-    tx.recentBlockhash = blockhash;
+    const buyIxs = await this.legInstructions(buyLeg, SOL_MINT, tokenMint, solLamports);
+    const sellIxs = await this.legInstructions(sellLeg, tokenMint, SOL_MINT, tokenAmount.toFixed(0));
+    sellIxs.push(...this.submitter.tipInstructions(wallet.publicKey));
 
-    const sim = await this.connection.simulateTransaction(tx);
-    if (sim.value.err) {
-      console.log(`   ❌ CPMM sim failed:`, JSON.stringify(sim.value.err));
-      if (sim.value.logs) console.log(`   ${sim.value.logs.slice(-3).join('\n   ')}`);
-      return null;
-    }
+    const legFeeBudget = this.feeBudget(opp) / 2;
+    const tx1 = await this.compile(buyIxs, buyLeg.computeUnits, 'Leg 1', true, legFeeBudget);
+    if (!tx1) return false;
+    const tx2 = await this.compile(sellIxs, sellLeg.computeUnits, 'Leg 2', false, legFeeBudget);
+    if (!tx2) return false;
 
-    tx.sign(wallet);
-    return this.sendAndConfirm(Buffer.from(tx.serialize()));
+    this.journalTx('Leg 1', tx1);
+    this.journalTx('Leg 2', tx2);
+    const sig = await this.submitter.submit([tx1, tx2]);
+    if (!sig) { this.fail('Bundle did not land — no position taken'); return false; }
+    console.log(`    Arb complete: ${sig}`);
+    return true;
   }
 
-  // ═══════════════════════════════════════════
-  // Orca — raw Whirlpool swap instruction
-  // ═══════════════════════════════════════════
-  private async swapViaOrca(
+  /** Single swap in its own transaction: compute budget + ATAs + wrap + swap + unwrap. */
+  private async executeSwap(
     inputMint: PublicKey, outputMint: PublicKey,
-    amount: string, pool: PoolInfo,
+    amount: string, pool: PoolInfo, feeBudgetLamports: number,
   ): Promise<string | null> {
-    // Read pool on-chain for current tick + vaults
-    const poolInfo = await this.connection.getAccountInfo(pool.address);
-    if (!poolInfo) { console.log('   ❌ Orca pool not found'); return null; }
-    const buf = poolInfo.data as Buffer;
-
-    const tickSpacing = buf.readUInt16LE(41);
-    const currentTick = buf.readInt32LE(81);
-    const tokenMintA = new PublicKey(buf.subarray(101, 133));
-    const vaultA = new PublicKey(buf.subarray(133, 165));
-    const tokenMintB = new PublicKey(buf.subarray(181, 213));
-    const vaultB = new PublicKey(buf.subarray(213, 245));
-
-    const aToB = tokenMintA.equals(inputMint);
-
-    // Derive tick arrays with STRING seeds (critical!)
-    const arraySpacing = tickSpacing * 88;
-    const currentStart = Math.floor(currentTick / arraySpacing) * arraySpacing;
-    const offsets = aToB ? [0, -1, -2] : [0, 1, 2];
-    const tickArrays = offsets.map(o => {
-      const idx = currentStart + o * arraySpacing;
-      return PublicKey.findProgramAddressSync(
-        [Buffer.from('tick_array'), pool.address.toBuffer(), Buffer.from(idx.toString())],
-        PROGRAMS.ORCA_WHIRLPOOL,
-      )[0];
-    });
-
-    // Verify tick arrays exist
-    const taInfos = await this.connection.getMultipleAccountsInfo(tickArrays);
-    if (!taInfos.every(i => i)) {
-      console.log(`   ❌ Missing tick arrays (${taInfos.filter(i=>i).length}/3)`);
-      return null;
-    }
+    const leg = await this.buildLeg(inputMint, outputMint, amount, pool);
+    if (!leg) return null;
 
-    // Oracle PDA
-    const [oraclePda] = PublicKey.findProgramAddressSync(
-      [Buffer.from('oracle'), pool.address.toBuffer()], PROGRAMS.ORCA_WHIRLPOOL);
+    const ixs = await this.legInstructions(leg, inputMint, outputMint, amount);
+    return this.simulateAndSend(ixs, leg.computeUnits, `${pool.dex}[${pool.poolType}]`, feeBudgetLamports);
+  }
 
-    // User ATAs
-    const userAtaA = await getAssociatedTokenAddress(tokenMintA, wallet.publicKey);
-    const userAtaB = await getAssociatedTokenAddress(tokenMintB, wallet.publicKey);
+  /**
+   * Every leg carries a real minimum-out: the PoolManager quote less config.slippageBps.
+   * Concentrated-liquidity builders also get a price-move bound (our own quoted
+   * impact, doubled since the marginal price moves ~2× the average, plus slippage).
+   */
+  private async buildLeg(
+    inputMint: PublicKey, outputMint: PublicKey,
+    amount: string, pool: PoolInfo,
+  ): Promise<SwapInstructions | null> {
+    const builder = getSwapBuilder(pool);
+    if (!builder) { this.fail(`No swap builder for ${pool.dex}[${pool.poolType}]`); return null; }
+
+    const quote = this.poolManager.getQuote(pool, inputMint, new Decimal(amount));
+    const minOut = this.minAmountOut(pool, inputMint, new Decimal(amount));
+    if (this.attempt) this.journal.quote(this.attempt, pool, inputMint, outputMint, new Decimal(amount), quote.outputAmount, minOut);
+    if (minOut.lte(0)) { this.fail(`${pool.dex} quote returned no output`); return null; }
+    const impactBps = Math.max(0, Math.ceil(quote.priceImpact.mul(20000).toNumber()));
+
+    return builder.build(
+      {
+        pool, inputMint, outputMint,
+        amount: new BN(amount),
+        minAmountOut: new BN(minOut.toFixed(0)),
+        maxPriceMoveBps: impactBps + config.slippageBps,
+        owner: wallet.publicKey,
+      },
+      this.context,
+    );
+  }
 
-    const tx = new Transaction();
-    tx.add(ComputeBudgetProgram.setComputeUnitLimit({ units: 300000 }));
-    tx.add(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 100000 }));
+  private minAmountOut(pool: PoolInfo, inputMint: PublicKey, amount: Decimal): Decimal {
+    const quote = this.poolManager.getQuote(pool, inputMint, amount);
+    return quote.outputAmount.mul(10000 - config.slippageBps).div(10000).floor();
+  }
 
-    // Ensure ATAs exist
-    for (const [mint, ata] of [[tokenMintA, userAtaA], [tokenMintB, userAtaB]] as [PublicKey, PublicKey][]) {
-      const info = await this.connection.getAccountInfo(ata);
-      if (!info) {
-        tx.add(createAssociatedTokenAccountInstruction(wallet.publicKey, ata, wallet.publicKey, mint));
-      }
-    }
+  /**
+   * Whether a route's final minimum out (in the base mint) covers its input
+   * plus the most its `txCount` transactions can cost: base fees, the
+   * priority-fee budget and any bundle tip.
+   */
+  private coversCost(opp: ArbOpportunity, finalMinOut: Decimal, txCount: number): boolean {
+    const tip = this.submitter.atomicBundles ? config.jitoTipLamports : 0;
+    const breakEven = opp.inputAmount.floor().add(BASE_FEE_LAMPORTS * txCount + this.feeBudget(opp) + tip);
+    if (finalMinOut.gte(breakEven)) return true;
+    this.fail(`Minimum out ${finalMinOut.toFixed(0)} after slippage is below input + fees ${breakEven.toFixed(0)}`);
+    return false;
+  }
+
+  /** Most we'll spend on priority fees for this arb: a share of expected profit, less any bundle tip. */
+  private feeBudget(opp: ArbOpportunity): number {
+    const tip = this.submitter.atomicBundles ? config.jitoTipLamports : 0;
+    const budget = opp.expectedProfit.mul(config.maxFeeProfitFraction).sub(tip);
+    return Math.max(0, Math.floor(budget.toNumber()));
+  }
 
-    // Wrap SOL if input is SOL
-    const isInputSol = inputMint.equals(SOL_MINT);
-    if (isInputSol) {
-      const solAta = aToB ? userAtaA : userAtaB;
-      tx.add(
-        SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: solAta, lamports: parseInt(amount) }),
-        createSyncNativeInstruction(solAta),
+  /** One leg as a standalone transaction body: ATAs + wrap + swap + unwrap (compute budget is added at compile). */
+  private async legInstructions(
+    leg: SwapInstructions, inputMint: PublicKey, outputMint: PublicKey, amount: string,
+  ): Promise<TransactionInstruction[]> {
+    const wsolAta = getAssociatedTokenAddressSync(SOL_MINT, wallet.publicKey);
+    const ixs: TransactionInstruction[] = await this.ensureAtas(leg.atas);
+
+    if (leg.wrapsSol && inputMint.equals(SOL_MINT)) {
+      ixs.push(
+        SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: wsolAta, lamports: parseInt(amount) }),
+        createSyncNativeInstruction(wsolAta),
       );
     }
-
-    // Whirlpool swap instruction
-    const amountIn = new BN(amount);
-    const sqrtPriceLimit = aToB
-      ? new BN('4295048016')
-      : new BN('79226673515401279992447579055');
-
-    const SWAP_DISC = Buffer.from([248, 198, 158, 145, 225, 117, 135, 200]);
-    const ixData = Buffer.alloc(42);
-    let off = 0;
-    SWAP_DISC.copy(ixData, off); off += 8;
-    ixData.set(amountIn.toArrayLike(Buffer, 'le', 8), off); off += 8;
-    ixData.set(new BN(0).toArrayLike(Buffer, 'le', 8), off); off += 8; // min out = 0 (slippage handled by sqrtPriceLimit)
-    ixData.set(sqrtPriceLimit.toArrayLike(Buffer, 'le', 16), off); off += 16;
-    ixData.writeUInt8(1, off); off += 1; // amount_specified_is_input = true
-    ixData.writeUInt8(aToB ? 1 : 0, off); // a_to_b
-
-    // Accounts always in A/B order
-    tx.add({
-      programId: PROGRAMS.ORCA_WHIRLPOOL,
-      keys: [
-        { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
-        { pubkey: wallet.publicKey, isSigner: true, isWritable: true },
-        { pubkey: pool.address, isSigner: false, isWritable: true },
-        { pubkey: userAtaA, isSigner: false, isWritable: true },
-        { pubkey: vaultA, isSigner: false, isWritable: true },
-        { pubkey: userAtaB, isSigner: false, isWritable: true },
-        { pubkey: vaultB, isSigner: false, isWritable: true },
-        { pubkey: tickArrays[0], isSigner: false, isWritable: true },
-        { pubkey: tickArrays[1], isSigner: false, isWritable: true },
-        { pubkey: tickArrays[2], isSigner: false, isWritable: true },
-        { pubkey: oraclePda, isSigner: false, isWritable: false },
-      ],
-      data: ixData,
-    });
-
-    // Unwrap WSOL if output is SOL (close the WSOL ATA)
-    const isOutputSol = outputMint.equals(SOL_MINT);
-    if (isOutputSol && !isInputSol) {
-      const wsolAta = aToB ? userAtaB : userAtaA;
-      tx.add(createCloseAccountInstruction(wsolAta, wallet.publicKey, wallet.publicKey));
-    }
-
-    tx.feePayer = wallet.publicKey;
-    const { blockhash } = await this.connection.getLatestBlockhash();
-    tx.recentBlockhash = blockhash;
-
-    // Simulate
-    const sim = await this.connection.simulateTransaction(tx);
-    if (sim.value.err) {
-      console.log(`   ❌ Orca sim failed:`, JSON.stringify(sim.value.err));
-      if (sim.value.logs) console.log(`   ${sim.value.logs.slice(-2).join('\n   ')}`);
-      return null;
+    ixs.push(...leg.instructions);
+    if (leg.wrapsSol && outputMint.equals(SOL_MINT)) {
+      ixs.push(createCloseAccountInstruction(wsolAta, wallet.publicKey, wallet.publicKey));
     }
+    return ixs;
+  }
 
-    // Sign and send
-    tx.sign(wallet);
-    return this.sendAndConfirm(Buffer.from(tx.serialize()));
+  /**
+   * Create any missing user ATAs (deduplicated across legs, looked up in the
+   * execution context). Idempotent, so a later transaction in the same bundle
+   * can repeat the create — and the WSOL ATA, which every trade closes, is
+   * always (re)created rather than trusted to the cache.
+   */
+  private async ensureAtas(atas: UserTokenAccount[]): Promise<TransactionInstruction[]> {
+    const unique = new Map<string, UserTokenAccount>();
+    for (const a of atas) unique.set(a.ata.toBase58(), a);
+    const list = [...unique.values()];
+    if (list.length === 0) return [];
+
+    const infos = await this.context.getMultipleAccountsInfo(list.map(a => a.ata));
+    return list
+      .filter((a, i) => !infos[i] || a.mint.equals(SOL_MINT))
+      .map(({ mint, ata, tokenProgram }) => createAssociatedTokenAccountIdempotentInstruction(
+        wallet.publicKey, ata, wallet.publicKey, mint, tokenProgram,
+      ));
   }
 
   // ═══════════════════════════════════════════
-  // Pump.fun — raw bonding curve instruction
+  // Shared compile (v0) + compute budget + simulate + sign
   // ═══════════════════════════════════════════
-  private async swapViaPumpFun(
-    inputMint: PublicKey, outputMint: PublicKey,
-    amount: string, pool: PoolInfo,
+  private async simulateAndSend(
+    instructions: TransactionInstruction[], computeUnits: number, label: string, feeBudgetLamports: number,
   ): Promise<string | null> {
-    const isBuy = inputMint.equals(SOL_MINT);
-    const tokenMint = isBuy ? outputMint : inputMint;
-    const bondingCurve = pool.address;
-    const associatedBondingCurve = getAssociatedTokenAddressSync(tokenMint, bondingCurve, true);
-    const userAta = await getAssociatedTokenAddress(tokenMint, wallet.publicKey);
-
-    const tx = new Transaction();
-    tx.add(ComputeBudgetProgram.setComputeUnitLimit({ units: 200000 }));
-    tx.add(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 100000 }));
-
-    // Ensure user ATA exists
-    const ataInfo = await this.connection.getAccountInfo(userAta);
-    if (!ataInfo) {
-      tx.add(createAssociatedTokenAccountInstruction(wallet.publicKey, userAta, wallet.publicKey, tokenMint));
-    }
-
-    const amountBN = new BN(amount);
-    let ixData: Buffer;
-
-    if (isBuy) {
-      // Buy: discriminator + amount(u64, token amount to buy) + maxSolCost(u64)
-      const BUY_DISC = Buffer.from([102, 6, 61, 18, 1, 218, 235, 234]);
-      // For buy, 'amount' is SOL lamports. We pass max tokens as a large number
-      // and maxSolCost as our amount + slippage
-      const maxSolCost = amountBN.muln(10000 + config.slippageBps).divn(10000);
-      // amount field = 0 means "buy with this much SOL" — actually pump.fun buy amount is token amount
-      // We need to estimate tokens. For simplicity, pass max u64 and control via maxSolCost
-      ixData = Buffer.alloc(24);
-      BUY_DISC.copy(ixData, 0);
-      // token amount — use a very large number (buy as many as possible for the SOL)
-      const maxTokens = new BN('18446744073709551615'); // u64 max
-      ixData.set(maxTokens.toArrayLike(Buffer, 'le', 8), 8);
-      ixData.set(maxSolCost.toArrayLike(Buffer, 'le', 8), 16);
-    } else {
-      // Sell: discriminator + amount(u64, token amount) + minSolOutput(u64)
-      const SELL_DISC = Buffer.from([51, 230, 133, 164, 1, 127, 131, 173]);
-      ixData = Buffer.alloc(24);
-      SELL_DISC.copy(ixData, 0);
-      ixData.set(amountBN.toArrayLike(Buffer, 'le', 8), 8);
-      // minSolOutput = 0 for now (slippage protection via simulation)
-      ixData.set(new BN(0).toArrayLike(Buffer, 'le', 8), 16);
-    }
-
-    const globalPda = getGlobalPDA();
-    const eventAuthority = getEventAuthorityPDA();
-    const RENT = new PublicKey('SysvarRent111111111111111111111111111111111');
-
-    tx.add({
-      programId: PUMPFUN_PROGRAM,
-      keys: [
-        { pubkey: globalPda, isSigner: false, isWritable: false },
-        { pubkey: PUMPFUN_FEE_RECIPIENT, isSigner: false, isWritable: true },
-        { pubkey: tokenMint, isSigner: false, isWritable: false },
-        { pubkey: bondingCurve, isSigner: false, isWritable: true },
-        { pubkey: associatedBondingCurve, isSigner: false, isWritable: true },
-        { pubkey: userAta, isSigner: false, isWritable: true },
-        { pubkey: wallet.publicKey, isSigner: true, isWritable: true },
-        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
-        { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
-        { pubkey: RENT, isSigner: false, isWritable: false },
-        { pubkey: eventAuthority, isSigner: false, isWritable: false },
-        { pubkey: PUMPFUN_PROGRAM, isSigner: false, isWritable: false },
-      ],
-      data: ixData,
-    });
-
-    tx.feePayer = wallet.publicKey;
-    const { blockhash } = await this.connection.getLatestBlockhash();
-    tx.recentBlockhash = blockhash;
-
-    // Simulate
-    const sim = await this.connection.simulateTransaction(tx);
-    if (sim.value.err) {
-      console.log(`   ❌ PumpFun sim failed:`, JSON.stringify(sim.value.err));
-      if (sim.value.logs) console.log(`   ${sim.value.logs.slice(-3).join('\n   ')}`);
-      return null;
-    }
-
-    tx.sign(wallet);
-    return this.sendAndConfirm(Buffer.from(tx.serialize()));
+    const body = [...instructions, ...this.submitter.tipInstructions(wallet.publicKey)];
+    const tx = await this.compile(body, computeUnits, label, true, feeBudgetLamports);
+    if (!tx) return null;
+    this.journalTx(label, tx);
+    return this.submitter.submit([tx]);
   }
 
-  // ═══════════════════════════════════════════
-  // PumpSwap — raw AMM swap instruction
-  // ═══════════════════════════════════════════
-  private async swapViaPumpSwap(
-    inputMint: PublicKey, outputMint: PublicKey,
-    amount: string, pool: PoolInfo,
-  ): Promise<string | null> {
-    const isBuy = inputMint.equals(SOL_MINT); // buying meme token with SOL
-    const tokenMint = isBuy ? outputMint : inputMint;
-
-    // Read pool account to get current data
-    const poolInfo = await this.connection.getAccountInfo(pool.address);
-    if (!poolInfo) { console.log('   ❌ PumpSwap pool not found'); return null; }
-    const poolData = parsePumpSwapPool(pool.address, poolInfo.data as Buffer);
-    if (!poolData) { console.log('   ❌ PumpSwap pool parse failed'); return null; }
-
-    const poolAuthority = getPumpSwapPoolAuthority(pool.address);
-    const eventAuthority = getPumpSwapEventAuthority();
-
-    // Determine base/quote orientation
-    const baseMint = poolData.baseMint;
-    const quoteMint = poolData.quoteMint;
-    const baseVault = poolData.baseVault;
-    const quoteVault = poolData.quoteVault;
-
-    // User ATAs
-    const userBaseAta = await getAssociatedTokenAddress(baseMint, wallet.publicKey);
-    const userQuoteAta = await getAssociatedTokenAddress(quoteMint, wallet.publicKey);
-
-    // Protocol fee ATAs (fee recipient's ATAs for base and quote)
-    const protocolFeeBaseAta = await getAssociatedTokenAddress(baseMint, PUMPSWAP_FEE_RECIPIENT);
-    const protocolFeeQuoteAta = await getAssociatedTokenAddress(quoteMint, PUMPSWAP_FEE_RECIPIENT);
-
-    const tx = new Transaction();
-    tx.add(ComputeBudgetProgram.setComputeUnitLimit({ units: 300000 }));
-    tx.add(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 100000 }));
-
-    // Ensure user ATAs exist
-    for (const [mint, ata] of [[baseMint, userBaseAta], [quoteMint, userQuoteAta]] as [PublicKey, PublicKey][]) {
-      const info = await this.connection.getAccountInfo(ata);
-      if (!info) {
-        tx.add(createAssociatedTokenAccountInstruction(wallet.publicKey, ata, wallet.publicKey, mint));
-      }
-    }
+  /** Journal a signed transaction before it's sent, so the reconciler can find it whatever happens next */
+  private journalTx(label: string, tx: VersionedTransaction): void {
+    this.attempt?.transactions.push({ label, signature: bs58.encode(tx.signatures[0]) });
+  }
 
-    // Wrap SOL if needed
-    if (isBuy) {
-      const solAta = baseMint.equals(SOL_MINT) ? userBaseAta : userQuoteAta;
-      tx.add(
-        SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: solAta, lamports: parseInt(amount) }),
-        createSyncNativeInstruction(solAta),
+  /**
+   * Compile a v0 message against the lookup tables and sign it.
+   * When simulating, the CU limit is tightened to the simulated unitsConsumed
+   * (plus margin); otherwise the builders' estimate is used. The CU price is
+   * then chosen so limit × price stays within feeBudgetLamports.
+   */
+  private async compile(
+    instructions: TransactionInstruction[], computeUnits: number, label: string,
+    simulate: boolean, feeBudgetLamports: number,
+  ): Promise<VersionedTransaction | null> {
+    // Anything the tables don't hold yet is queued for the next refresh-loop flush
+    if (config.useLookupTable) this.lookupTable.track(instructions);
+
+    const { blockhash } = await this.context.latestBlockhash();
+    let units = Math.min(MAX_COMPUTE_UNITS, computeUnits);
+
+    if (simulate) {
+      const sim = await this.connection.simulateTransaction(
+        this.buildTx(instructions, units, 0, blockhash),
+        { sigVerify: false },
       );
+      if (sim.value.err) {
+        console.log(`   ❌ ${label} sim failed:`, JSON.stringify(sim.value.err));
+        if (sim.value.logs) console.log(`   ${sim.value.logs.slice(-3).join('\n   ')}`);
+        this.attempt?.errors.push(`${label} sim failed: ${JSON.stringify(sim.value.err)}${sim.value.logs ? ` | ${sim.value.logs.slice(-3).join(' | ')}` : ''}`);
+        return null;
+      }
+      if (sim.value.unitsConsumed) {
+        units = Math.min(MAX_COMPUTE_UNITS, this.feeEstimator.computeUnitLimit(sim.value.unitsConsumed));
+      }
     }
 
-    const amountBN = new BN(amount);
-    let ixData: Buffer;
-
-    if (isBuy) {
-      // BUY: discriminator(8) + base_in_amount(u64) + max_quote_amount(u64) + 1 byte
-      const BUY_DISC = Buffer.from('66063d1201daebea', 'hex');
-      const maxQuote = amountBN.muln(10000 + config.slippageBps).divn(10000);
-      ixData = Buffer.alloc(25);
-      BUY_DISC.copy(ixData, 0);
-      // base_in_amount = max u64 (buy as many tokens as possible)
-      const maxTokens = new BN('18446744073709551615');
-      ixData.set(maxTokens.toArrayLike(Buffer, 'le', 8), 8);
-      ixData.set(maxQuote.toArrayLike(Buffer, 'le', 8), 16);
-      ixData[24] = 1; // extra byte
-    } else {
-      // SELL: discriminator(8) + base_in_amount(u64) + min_quote_amount(u64)
-      const SELL_DISC = Buffer.from('33e685a4017f83ad', 'hex');
-      ixData = Buffer.alloc(24);
-      SELL_DISC.copy(ixData, 0);
-      ixData.set(amountBN.toArrayLike(Buffer, 'le', 8), 8);
-      ixData.set(new BN(0).toArrayLike(Buffer, 'le', 8), 16); // min out = 0 (sim protects)
-    }
-
-    // Determine token programs for base and quote
-    // PumpSwap uses Token-2022 for LP mint, but standard Token for SOL and most meme tokens
-    const TOKEN_PROGRAM = TOKEN_PROGRAM_ID;
-    const TOKEN_2022_PROGRAM = new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
-
-    // Check which token program each mint uses
-    const baseMintInfo = await this.connection.getAccountInfo(baseMint);
-    const quoteMintInfo = await this.connection.getAccountInfo(quoteMint);
-    const baseTokenProgram = baseMintInfo?.owner.equals(TOKEN_2022_PROGRAM) ? TOKEN_2022_PROGRAM : TOKEN_PROGRAM;
-    const quoteTokenProgram = quoteMintInfo?.owner.equals(TOKEN_2022_PROGRAM) ? TOKEN_2022_PROGRAM : TOKEN_PROGRAM;
-
-    const ASSOCIATED_TOKEN_PROGRAM = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
-
-    // Account layout for PumpSwap swap
-    const keys = [
-      { pubkey: pool.address, isSigner: false, isWritable: true },
-      { pubkey: poolAuthority, isSigner: false, isWritable: false },
-      { pubkey: PUMPSWAP_GLOBAL_CONFIG, isSigner: false, isWritable: false },
-      { pubkey: baseMint, isSigner: false, isWritable: false },
-      { pubkey: quoteMint, isSigner: false, isWritable: false },
-      { pubkey: wallet.publicKey, isSigner: true, isWritable: true },
-      { pubkey: isBuy ? userQuoteAta : userBaseAta, isSigner: false, isWritable: true }, // user token ATA
-      { pubkey: baseVault, isSigner: false, isWritable: true },
-      { pubkey: quoteVault, isSigner: false, isWritable: true },
-      { pubkey: protocolFeeBaseAta, isSigner: false, isWritable: true },
-      { pubkey: protocolFeeQuoteAta, isSigner: false, isWritable: true },
-      { pubkey: baseTokenProgram, isSigner: false, isWritable: false },
-      { pubkey: quoteTokenProgram, isSigner: false, isWritable: false },
-      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
-      { pubkey: ASSOCIATED_TOKEN_PROGRAM, isSigner: false, isWritable: false },
-      { pubkey: eventAuthority, isSigner: false, isWritable: false },
-      { pubkey: PUMPSWAP_PROGRAM, isSigner: false, isWritable: false },
-    ];
-
-    tx.add({ programId: PUMPSWAP_PROGRAM, keys, data: ixData });
-
-    // Unwrap WSOL if output is SOL
-    if (!isBuy) {
-      const wsolAta = baseMint.equals(SOL_MINT) ? userBaseAta : userQuoteAta;
-      tx.add(createCloseAccountInstruction(wsolAta, wallet.publicKey, wallet.publicKey));
-    }
-
-    tx.feePayer = wallet.publicKey;
-    const { blockhash } = await this.connection.getLatestBlockhash();
-    tx.recentBlockhash = blockhash;
-
-    // Simulate
-    const sim = await this.connection.simulateTransaction(tx);
-    if (sim.value.err) {
-      console.log(`   ❌ PumpSwap sim failed:`, JSON.stringify(sim.value.err));
-      if (sim.value.logs) console.log(`   ${sim.value.logs.slice(-3).join('\n   ')}`);
-      return null;
-    }
+    const microLamports = this.feeEstimator.microLamportsPerCu(instructions, units, feeBudgetLamports);
+    console.log(`   ⛽ ${label}: ${units} CU @ ${microLamports} µL/CU`);
 
-    tx.sign(wallet);
-    return this.sendAndConfirm(Buffer.from(tx.serialize()));
+    const tx = this.buildTx(instructions, units, microLamports, blockhash);
+    tx.sign([wallet]);
+    return tx;
   }
 
-  // ═══════════════════════════════════════════
-  // Shared send + confirm
-  // ═══════════════════════════════════════════
-  private async sendAndConfirm(serialized: Buffer): Promise<string | null> {
-    const sig = await this.connection.sendRawTransaction(serialized, { skipPreflight: true });
-    console.log(`   ⏳ Confirming ${sig.slice(0, 20)}...`);
-    const conf = await this.connection.confirmTransaction(sig, 'confirmed');
-    if (conf.value.err) {
-      console.log('   ❌ TX failed:', JSON.stringify(conf.value.err));
-      return null;
-    }
-    console.log(`   ✅ Confirmed`);
-    return sig;
+  private buildTx(
+    instructions: TransactionInstruction[], units: number, microLamports: number, blockhash: string,
+  ): VersionedTransaction {
+    const message = new TransactionMessage({
+      payerKey: wallet.publicKey,
+      recentBlockhash: blockhash,
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitLimit({ units }),
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+        ...instructions,
+      ],
+    }).compileToV0Message(this.lookupTable.getTables());
+    return new VersionedTransaction(message);
   }
 
+  /** Landed executions and their reconciled PnL; dry runs only ever report what they expected */
   getStats() {
     return {
       executions: this.executionCount,
-      totalProfit: this.totalProfit.div(1e9).toFixed(6),
+      dryRuns: this.dryRunCount,
+      realizedProfit: this.realizedProfit.div(1e9).toFixed(6),
+      expectedProfit: this.expectedProfit.div(1e9).toFixed(6),
       avgProfit: this.executionCount > 0
-        ? this.totalProfit.div(this.executionCount).div(1e9).toFixed(6)
+        ? this.realizedProfit.div(this.executionCount).div(1e9).toFixed(6)
         : '0',
     };
   }
@@ -0,0 +1,208 @@
+import {
+  AddressLookupTableAccount, AddressLookupTableProgram, Connection, PublicKey,
+  SystemProgram, TransactionInstruction, TransactionMessage, VersionedTransaction,
+  SYSVAR_RENT_PUBKEY,
+} from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PoolInfo } from '../pools/types';
+import { config, wallet, PROGRAMS } from '../config';
+
+const MAX_TABLE_ENTRIES = 256;
+const MAX_TABLES = 4;    // a v0 message only pays for the tables it actually references
+const EXTEND_CHUNK = 20; // addresses per extend instruction (keeps each tx under the size limit)
+const U64_MAX = 2n ** 64n - 1n; // deactivationSlot of a table that's still active
+
+// Which queued addresses get the remaining table room first
+const PRIORITY_SHARED = 2;  // programs and sysvars every swap uses
+const PRIORITY_TRADED = 1;  // accounts of transactions we've built
+const PRIORITY_POOL = 0;    // accounts of tracked pools that haven't traded yet
+
+interface LookupTableCache {
+  address: string;
+  addresses: string[];
+}
+
+/**
+ * Bot-owned Address Lookup Tables.
+ *
+ * Created on demand (addresses cached in data/lookup-table.json), then extended
+ * with every pool, vault, market and program account we may touch — once a
+ * table holds 256 addresses the next one is created, up to MAX_TABLES. When
+ * room runs short, accounts of pools we actually trade go in before the rest.
+ * All swaps are compiled as v0 messages against them, so an 18-account AMM v4
+ * swap costs one byte per account instead of 32 — enough headroom for atomic
+ * multi-leg txs. Extends are sent from discovery / refresh, never per trade.
+ */
+export class LookupTableManager {
+  private tables: AddressLookupTableAccount[] = [];
+  private known = new Set<string>();
+  private pending = new Map<string, number>(); // address → priority
+  private extending = false;
+  private readonly cachePath = path.join(config.dataDir, 'lookup-table.json');
+
+  constructor(private connection: Connection) {}
+
+  /** Load the cached tables, or create a new one if none is on-chain. */
+  async init(): Promise<void> {
+    for (const cached of this.loadCache()) {
+      const res = await this.connection.getAddressLookupTable(new PublicKey(cached.address));
+      if (res.value) this.setTable(res.value);
+      else console.log(`   ⚠️ Cached lookup table ${cached.address.slice(0, 8)}... not found — dropping it`);
+    }
+    if (this.tables.length > 0) {
+      console.log(`   📇 ${this.tables.length} lookup table(s) (${this.known.size} addresses)`);
+      return;
+    }
+    await this.create();
+  }
+
+  getTables(): AddressLookupTableAccount[] {
+    return this.tables;
+  }
+
+  /** Queue the non-signer accounts of these instructions for the tables, ahead of untraded pools. */
+  track(instructions: TransactionInstruction[]): void {
+    for (const ix of instructions) {
+      this.queue(ix.programId, PRIORITY_SHARED);
+      for (const k of ix.keys) if (!k.isSigner) this.queue(k.pubkey, PRIORITY_TRADED);
+    }
+  }
+
+  /** Queue every static account known from PoolManager for these pools. */
+  trackPools(pools: PoolInfo[]): void {
+    for (const a of [
+      ...Object.values(PROGRAMS), TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID,
+      ASSOCIATED_TOKEN_PROGRAM_ID, SystemProgram.programId, SYSVAR_RENT_PUBKEY,
+    ]) this.queue(a, PRIORITY_SHARED);
+
+    for (const p of pools) {
+      for (const a of [
+        p.address, p.vaultA, p.vaultB, p.authority, p.openOrders, p.targetOrders,
+        p.marketId, p.marketProgramId, p.marketAuthority, p.marketBaseVault, p.marketQuoteVault,
+        p.marketBids, p.marketAsks, p.marketEventQueue, p.oracle, p.ammConfig, p.observation,
+        ...(p.tickArrays || []),
+      ]) {
+        if (a) this.queue(a, PRIORITY_POOL);
+      }
+    }
+  }
+
+  /**
+   * Write queued addresses to the tables, highest priority first, creating a
+   * new table when the last one is full. New entries are only usable one slot
+   * after the extend lands, so call this off the hot path.
+   */
+  async flush(): Promise<void> {
+    if (this.tables.length === 0 || this.extending || this.pending.size === 0) return;
+    this.extending = true;
+    try {
+      const queued = [...this.pending].sort((a, b) => b[1] - a[1]).map(([address]) => address);
+      let added = 0;
+      while (added < queued.length) {
+        let table = this.tables[this.tables.length - 1];
+        if (table.state.addresses.length >= MAX_TABLE_ENTRIES) {
+          if (this.tables.length >= MAX_TABLES) {
+            console.log(`   ⚠️ Lookup tables full (${MAX_TABLES} × ${MAX_TABLE_ENTRIES}) — ${queued.length - added} addresses not added`);
+            this.pending.clear();
+            break;
+          }
+          table = await this.create();
+        }
+
+        const room = MAX_TABLE_ENTRIES - table.state.addresses.length;
+        const batch = queued.slice(added, added + Math.min(room, EXTEND_CHUNK));
+        await this.send([AddressLookupTableProgram.extendLookupTable({
+          lookupTable: table.key,
+          authority: wallet.publicKey,
+          payer: wallet.publicKey,
+          addresses: batch.map(a => new PublicKey(a)),
+        })]);
+        added += batch.length;
+        await this.refresh(table.key);
+      }
+      if (added > 0) console.log(`   📇 Lookup tables extended by ${added} (${this.known.size} total)`);
+    } finally {
+      this.extending = false;
+    }
+  }
+
+  private queue(address: PublicKey, priority: number): void {
+    const key = address.toBase58();
+    if (!this.known.has(key) && priority > (this.pending.get(key) ?? -1)) this.pending.set(key, priority);
+  }
+
+  private async create(): Promise<AddressLookupTableAccount> {
+    const recentSlot = await this.connection.getSlot('finalized');
+    const [ix, address] = AddressLookupTableProgram.createLookupTable({
+      authority: wallet.publicKey,
+      payer: wallet.publicKey,
+      recentSlot,
+    });
+    await this.send([ix]);
+    console.log(`   📇 Created lookup table ${address.toBase58().slice(0, 8)}...`);
+    const table = await this.refresh(address);
+    if (table) return table;
+
+    // Not visible to the RPC yet: track it empty so the next extend targets it rather than another new table
+    const empty = new AddressLookupTableAccount({
+      key: address,
+      state: { deactivationSlot: U64_MAX, lastExtendedSlot: 0, lastExtendedSlotStartIndex: 0, authority: wallet.publicKey, addresses: [] },
+    });
+    this.setTable(empty);
+    this.saveCache();
+    return empty;
+  }
+
+  private async refresh(address: PublicKey): Promise<AddressLookupTableAccount | null> {
+    const res = await this.connection.getAddressLookupTable(address);
+    if (!res.value) return null;
+    this.setTable(res.value);
+    this.saveCache();
+    return res.value;
+  }
+
+  private setTable(table: AddressLookupTableAccount): void {
+    const i = this.tables.findIndex(t => t.key.equals(table.key));
+    if (i >= 0) this.tables[i] = table;
+    else this.tables.push(table);
+    for (const a of table.state.addresses) {
+      this.known.add(a.toBase58());
+      this.pending.delete(a.toBase58());
+    }
+  }
+
+  private async send(instructions: TransactionInstruction[]): Promise<void> {
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+    const message = new TransactionMessage({
+      payerKey: wallet.publicKey,
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message();
+    const tx = new VersionedTransaction(message);
+    tx.sign([wallet]);
+    const sig = await this.connection.sendRawTransaction(tx.serialize());
+    const conf = await this.connection.confirmTransaction({ signature: sig, blockhash, lastValidBlockHeight }, 'confirmed');
+    if (conf.value.err) throw new Error(`lookup table tx failed: ${JSON.stringify(conf.value.err)}`);
+  }
+
+  /** Cached tables, oldest first (older caches hold a single table object) */
+  private loadCache(): LookupTableCache[] {
+    try {
+      const cached = JSON.parse(fs.readFileSync(this.cachePath, 'utf8'));
+      return Array.isArray(cached) ? cached : [cached];
+    } catch {
+      return [];
+    }
+  }
+
+  private saveCache(): void {
+    fs.mkdirSync(path.dirname(this.cachePath), { recursive: true });
+    const cache: LookupTableCache[] = this.tables.map(t => ({
+      address: t.key.toBase58(),
+      addresses: t.state.addresses.map(a => a.toBase58()),
+    }));
+    fs.writeFileSync(this.cachePath, JSON.stringify(cache, null, 2));
+  }
+}
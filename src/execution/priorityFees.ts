@@ -0,0 +1,118 @@
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { config } from '../config';
+
+const MAX_LOCKED_ACCOUNTS = 128; // getRecentPrioritizationFees limit
+const ACCOUNT_SET_IDLE_MS = 60_000; // stop refreshing an account set no transaction has asked about for this long
+const MIN_COMPUTE_UNITS = 20_000;
+
+interface AccountSetFee {
+  accounts: PublicKey[];
+  microLamports: number | null; // null until the first refresh after it was asked about
+  askedAt: number;
+}
+
+/**
+ * Priority fee + compute-unit sizing.
+ *
+ * - CU limit: simulation's unitsConsumed plus config.computeUnitMargin
+ * - CU price: config.priorityFeePercentile of recent prioritization fees paid
+ *   on the writable accounts we lock, clamped to [min, max] and capped so the
+ *   total priority fee never exceeds the leg's share of expected profit
+ *
+ * Fees are re-read on a background timer (config.priorityFeeRefreshMs), never
+ * inline: an account set seen for the first time is priced at the
+ * network-wide percentile until the next refresh covers it.
+ */
+export class PriorityFeeEstimator {
+  private accountSets = new Map<string, AccountSetFee>();
+  private networkFee = config.minPriorityFeeMicroLamports;
+  private timer: NodeJS.Timeout | null = null;
+  private refreshing = false;
+
+  constructor(private connection: Connection) {}
+
+  /** Read current fees, then keep them fresh in the background */
+  async start(): Promise<void> {
+    await this.refresh();
+    this.timer = setInterval(() => { this.refresh().catch(() => {}); }, config.priorityFeeRefreshMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Tight CU limit from a simulation's unitsConsumed */
+  computeUnitLimit(unitsConsumed: number): number {
+    return Math.max(MIN_COMPUTE_UNITS, Math.ceil(unitsConsumed * (1 + config.computeUnitMargin)));
+  }
+
+  /**
+   * microLamports per CU for these instructions, given the CU limit and the
+   * most we are willing to spend on priority fees for them.
+   */
+  microLamportsPerCu(
+    instructions: TransactionInstruction[], computeUnits: number, feeBudgetLamports: number,
+  ): number {
+    const market = this.recentFee(this.writableAccounts(instructions));
+    const cap = Math.floor((Math.max(0, feeBudgetLamports) * 1_000_000) / computeUnits);
+    return Math.max(0, Math.min(market, cap));
+  }
+
+  /** Re-read the network-wide fee and every account set asked about recently */
+  async refresh(): Promise<void> {
+    if (this.refreshing) return;
+    this.refreshing = true;
+    try {
+      this.networkFee = await this.fetchFee([]);
+      const now = Date.now();
+      for (const [key, entry] of this.accountSets) {
+        if (now - entry.askedAt > ACCOUNT_SET_IDLE_MS) this.accountSets.delete(key);
+        else entry.microLamports = await this.fetchFee(entry.accounts);
+      }
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  /** Last refreshed fee for these accounts (registering them for the next refresh if new) */
+  private recentFee(accounts: PublicKey[]): number {
+    const key = accounts.map(a => a.toBase58()).sort().join(',');
+    const entry = this.accountSets.get(key);
+    if (entry) {
+      entry.askedAt = Date.now();
+      return entry.microLamports ?? this.networkFee;
+    }
+    this.accountSets.set(key, { accounts, microLamports: null, askedAt: Date.now() });
+    return this.networkFee;
+  }
+
+  private async fetchFee(accounts: PublicKey[]): Promise<number> {
+    let microLamports = config.minPriorityFeeMicroLamports;
+    try {
+      const fees = await this.connection.getRecentPrioritizationFees({ lockedWritableAccounts: accounts });
+      const sorted = fees.map(f => f.prioritizationFee).sort((a, b) => a - b);
+      if (sorted.length > 0) {
+        const idx = Math.min(sorted.length - 1, Math.floor((config.priorityFeePercentile / 100) * sorted.length));
+        microLamports = sorted[idx];
+      }
+    } catch {
+      // RPC without the method — keep the floor
+    }
+
+    return Math.min(
+      config.maxPriorityFeeMicroLamports,
+      Math.max(config.minPriorityFeeMicroLamports, microLamports),
+    );
+  }
+
+  private writableAccounts(instructions: TransactionInstruction[]): PublicKey[] {
+    const seen = new Map<string, PublicKey>();
+    for (const ix of instructions) {
+      for (const k of ix.keys) {
+        if (k.isWritable && !k.isSigner) seen.set(k.pubkey.toBase58(), k.pubkey);
+      }
+    }
+    return [...seen.values()].slice(0, MAX_LOCKED_ACCOUNTS);
+  }
+}
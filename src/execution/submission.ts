@@ -0,0 +1,166 @@
+import {
+  Connection, PublicKey, SystemProgram, TransactionInstruction, VersionedTransaction,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import { config } from '../config';
+
+// Mainnet block-engine tip accounts — one is picked at random per bundle
+export const JITO_TIP_ACCOUNTS = [
+  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
+  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe',
+  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
+  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
+  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
+  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
+  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
+  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT',
+].map(a => new PublicKey(a));
+
+const BUNDLE_POLL_MS = 500;
+const BUNDLE_TIMEOUT_MS = 30_000;
+const HTTP_TIMEOUT_MS = 10_000;
+
+/**
+ * Pluggable transaction submission.
+ * The executor compiles + signs; a submitter only decides how the bytes land.
+ */
+export interface TransactionSubmitter {
+  readonly name: string;
+  /** True if submit() lands multiple transactions all-or-nothing */
+  readonly atomicBundles: boolean;
+  /** Extra instructions to append to the LAST transaction before signing (e.g. a tip) */
+  tipInstructions(payer: PublicKey): TransactionInstruction[];
+  /** Land the transactions in order. Returns the last signature, or null if they did not land. */
+  submit(txs: VersionedTransaction[]): Promise<string | null>;
+}
+
+/** Standard RPC path: sendRawTransaction + confirm, one transaction at a time. */
+export class RpcSubmitter implements TransactionSubmitter {
+  readonly name = 'rpc';
+  readonly atomicBundles = false;
+
+  constructor(private connection: Connection) {}
+
+  tipInstructions(): TransactionInstruction[] {
+    return [];
+  }
+
+  async submit(txs: VersionedTransaction[]): Promise<string | null> {
+    let sig: string | null = null;
+    for (const tx of txs) {
+      sig = await this.sendAndConfirm(Buffer.from(tx.serialize()));
+      if (!sig) return null;
+    }
+    return sig;
+  }
+
+  private async sendAndConfirm(serialized: Buffer): Promise<string | null> {
+    const sig = await this.connection.sendRawTransaction(serialized, { skipPreflight: true });
+    console.log(`   ⏳ Confirming ${sig.slice(0, 20)}...`);
+    const conf = await this.connection.confirmTransaction(sig, 'confirmed');
+    if (conf.value.err) {
+      console.log('   ❌ TX failed:', JSON.stringify(conf.value.err));
+      return null;
+    }
+    console.log(`   ✅ Confirmed`);
+    return sig;
+  }
+}
+
+/**
+ * Block-engine bundle path: the arb transactions go out as one bundle with a
+ * tip transfer in the last transaction, so they land together or not at all.
+ * Endpoint is config.blockEngineUrl (point it at a local mock for testing).
+ *
+ * If the block engine is unreachable, a single-transaction submission falls
+ * back to plain RPC (the tip still goes to the tip account). Multi-transaction
+ * bundles never fall back — sending them one by one would break atomicity.
+ */
+export class JitoBundleSubmitter implements TransactionSubmitter {
+  readonly name = 'jito';
+  readonly atomicBundles = true;
+
+  constructor(private fallback: RpcSubmitter, private blockEngineUrl = config.blockEngineUrl) {}
+
+  tipInstructions(payer: PublicKey): TransactionInstruction[] {
+    const tipAccount = JITO_TIP_ACCOUNTS[Math.floor(Math.random() * JITO_TIP_ACCOUNTS.length)];
+    return [SystemProgram.transfer({ fromPubkey: payer, toPubkey: tipAccount, lamports: config.jitoTipLamports })];
+  }
+
+  async submit(txs: VersionedTransaction[]): Promise<string | null> {
+    const signatures = txs.map(tx => bs58.encode(tx.signatures[0]));
+    const encoded = txs.map(tx => Buffer.from(tx.serialize()).toString('base64'));
+
+    let bundleId: string;
+    try {
+      bundleId = await this.rpc('sendBundle', [encoded, { encoding: 'base64' }]);
+    } catch (e: any) {
+      console.log(`   ⚠️ Block engine unavailable: ${e.message?.slice(0, 60)}`);
+      if (txs.length === 1) {
+        console.log('   ↩️  Falling back to RPC');
+        return this.fallback.submit(txs);
+      }
+      return null;
+    }
+
+    console.log(`   ⏳ Bundle ${bundleId.slice(0, 16)}... (${txs.length} tx)`);
+    const landed = await this.waitForBundle(bundleId);
+    if (!landed) return null;
+    console.log(`   ✅ Bundle landed`);
+    return signatures[signatures.length - 1];
+  }
+
+  /** Poll bundle status until it lands, fails, or times out. */
+  private async waitForBundle(bundleId: string): Promise<boolean> {
+    const deadline = Date.now() + BUNDLE_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      await new Promise(r => setTimeout(r, BUNDLE_POLL_MS));
+      try {
+        const inflight = await this.rpc('getInflightBundleStatuses', [[bundleId]], '/api/v1/getInflightBundleStatuses');
+        const status = inflight?.value?.[0]?.status;
+        if (status === 'Failed' || status === 'Invalid') {
+          console.log(`   ❌ Bundle ${status.toLowerCase()}`);
+          return false;
+        }
+
+        const result = await this.rpc('getBundleStatuses', [[bundleId]]);
+        const entry = result?.value?.[0];
+        if (entry?.err && entry.err.Ok === undefined) {
+          console.log('   ❌ Bundle failed:', JSON.stringify(entry.err));
+          return false;
+        }
+        if (entry && (entry.confirmation_status === 'confirmed' || entry.confirmation_status === 'finalized')) {
+          return true;
+        }
+      } catch {
+        // transient — keep polling until the deadline
+      }
+    }
+    console.log('   ❌ Bundle not landed before timeout');
+    return false;
+  }
+
+  private async rpc(method: string, params: unknown[], route = '/api/v1/bundles'): Promise<any> {
+    const ctrl = new AbortController();
+    const t = setTimeout(() => ctrl.abort(), HTTP_TIMEOUT_MS);
+    try {
+      const resp = await fetch(`${this.blockEngineUrl}${route}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+        signal: ctrl.signal,
+      });
+      if (!resp.ok) throw new Error(`${method} HTTP ${resp.status}`);
+      const data: any = await resp.json();
+      if (data.error) throw new Error(`${method}: ${data.error.message || JSON.stringify(data.error)}`);
+      return data.result;
+    } finally {
+      clearTimeout(t);
+    }
+  }
+}
+
+export function createSubmitter(connection: Connection): TransactionSubmitter {
+  const rpc = new RpcSubmitter(connection);
+  return config.submitMode === 'jito' ? new JitoBundleSubmitter(rpc) : rpc;
+}
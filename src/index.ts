@@ -10,6 +10,7 @@ import { TemporalStrategy } from './strategies/temporal';
 import { TriangularStrategy } from './strategies/triangular';
 import { Executor } from './execution/executor';
 import { RiskManager } from './risk/riskManager';
+import { UpdateRecorder } from './backtest/recorder';
 import { ArbOpportunity, PoolInfo } from './pools/types';
 
 // Load tokens from tokens.json (edit that file to add/remove tokens, then restart)
@@ -29,6 +30,10 @@ function loadTokenMints(): string[] {
 
 const MEME_MINTS = loadTokenMints();
 
+// PumpSwap pool creation can land a few slots after the curve completes
+const GRADUATION_DISCOVERY_ATTEMPTS = 3;
+const GRADUATION_RETRY_MS = 10_000;
+
 class ArbitrageBot {
   private poolManager: PoolManager;
   private priceStream: PriceStream;
@@ -37,18 +42,20 @@ class ArbitrageBot {
   private triangular: TriangularStrategy;
   private executor: Executor;
   private risk: RiskManager;
+  private recorder: UpdateRecorder | null;
   private running = false;
   private cycleCount = 0;
   private updatesReceived = 0;
 
   constructor() {
-    this.poolManager = new PoolManager(connection);
     this.priceStream = new PriceStream(connection);
+    this.poolManager = new PoolManager(connection, this.priceStream);
     this.spatial = new SpatialStrategy(this.poolManager);
-    this.temporal = new TemporalStrategy(connection, this.poolManager);
+    this.temporal = new TemporalStrategy(this.poolManager);
     this.triangular = new TriangularStrategy(this.poolManager);
-    this.executor = new Executor(connection);
-    this.risk = new RiskManager(connection);
+    this.executor = new Executor(connection, this.poolManager, this.priceStream);
+    this.risk = new RiskManager(this.poolManager, this.executor.walletBalances());
+    this.recorder = config.recordFile ? new UpdateRecorder(config.recordFile) : null;
   }
 
   async start() {
@@ -74,18 +81,40 @@ class ArbitrageBot {
       return;
     }
 
-    // Subscribe to real-time updates via WebSocket
+    // Execution context + lookup table for v0 transactions (live mode only)
+    await this.executor.prepare(pools);
+    this.recorder?.recordPools(pools);
+
+    // Subscribe to real-time account updates (RPC WebSocket or gRPC, per STREAM_MODE)
     await this.priceStream.subscribe(pools, (updatedPool: PoolInfo) => {
       this.updatesReceived++;
+      this.temporal.recordUpdate(updatedPool, TOKENS.SOL);
+      this.recorder?.record(updatedPool);
+    }, (graduated: PoolInfo) => {
+      this.handleGraduation(graduated).catch(e => console.log(`  Graduation handling failed: ${e.message?.slice(0, 60)}`));
     });
 
-    // Periodic API refresh every 10 seconds (backup for WebSocket)
+    // State refresh: one batched read of every watched account, applied in place (backup for the stream)
     const refreshInterval = setInterval(async () => {
       try {
-        await this.poolManager.init(MEME_MINTS);
-        console.log(` Reserves refreshed from API (WS updates: ${this.updatesReceived})`);
+        const refreshed = await this.priceStream.refresh();
+        if (this.recorder) for (const pool of this.poolManager.getAllPools()) this.recorder.record(pool);
+        await this.executor.flushLookupTables();
+        console.log(` ${refreshed} pools refreshed on-chain (stream updates: ${this.updatesReceived})`);
       } catch {}
-    }, 10000);
+    }, config.stateRefreshMs);
+
+    // Discovery: rarely, diff in new pools and drop delisted ones
+    const discoveryInterval = setInterval(async () => {
+      try {
+        const { added, removed } = await this.poolManager.discover(MEME_MINTS);
+        this.applyDiscovery(added, removed);
+        await this.priceStream.addPools(added);
+        await this.executor.trackPools(added);
+      } catch (e: any) {
+        console.log(`  Discovery failed: ${e.message?.slice(0, 60)}`);
+      }
+    }, config.discoveryIntervalMs);
 
     // Main scanning loop
     this.running = true;
@@ -101,9 +130,40 @@ class ArbitrageBot {
     }
 
     clearInterval(refreshInterval);
+    clearInterval(discoveryInterval);
+    this.executor.stop();
     await this.priceStream.unsubscribeAll();
   }
 
+  /**
+   * A Pump.fun curve completed: retire it everywhere, then discover the
+   * token's pools again until its PumpSwap pool shows up.
+   */
+  private async handleGraduation(curve: PoolInfo) {
+    const mint = curve.tokenA.equals(TOKENS.SOL) ? curve.tokenB : curve.tokenA;
+    console.log(`🎓 ${mint.toBase58().slice(0, 8)}... graduated — retiring bonding curve, looking for its PumpSwap pool`);
+    this.poolManager.retire([curve]);
+    this.applyDiscovery([], [curve]);
+
+    for (let attempt = 1; attempt <= GRADUATION_DISCOVERY_ATTEMPTS; attempt++) {
+      const { added, removed } = await this.poolManager.discover([mint.toBase58()]);
+      this.applyDiscovery(added, removed);
+      await this.priceStream.addPools(added);
+      await this.executor.trackPools(added);
+      if (added.some(p => p.dex === 'pumpswap')) return;
+      if (attempt < GRADUATION_DISCOVERY_ATTEMPTS) await sleep(GRADUATION_RETRY_MS);
+    }
+    console.log(`  ⚠️ No PumpSwap pool found yet for ${mint.toBase58().slice(0, 8)}... — periodic discovery will pick it up`);
+  }
+
+  /** Stop watching removed pools and start recording added ones (added pools are subscribed by the caller) */
+  private applyDiscovery(added: PoolInfo[], removed: PoolInfo[]) {
+    this.priceStream.removePools(removed);
+    this.executor.untrackPools(removed);
+    this.recorder?.recordRemoved(removed);
+    this.recorder?.recordPools(added);
+  }
+
   private async runCycle() {
     this.cycleCount++;
     const tradeSize = new Decimal(config.maxTradeSizeSol).mul(1e9);
@@ -112,7 +172,7 @@ class ArbitrageBot {
     for (const mint of MEME_MINTS) {
       const mintPk = new PublicKey(mint);
       const pools = this.poolManager.getPoolsForPair(TOKENS.SOL, mintPk);
-      if (pools.length < 2) continue;
+      if (pools.length === 0) continue; // triangular only needs one SOL pool
 
       // Check all three strategies
       const opps = [
@@ -121,7 +181,8 @@ class ArbitrageBot {
         ...this.triangular.findOpportunities(pools, TOKENS.SOL, tradeSize),
       ];
 
-      for (const opp of opps) {
+      // Routes the executor can't run (multi-hop outside atomic mode) must not crowd out ones it can
+      for (const opp of opps.filter(Executor.supportsRoute)) {
         if (!bestOpp || opp.profitBps > bestOpp.profitBps) {
           bestOpp = opp;
         }
@@ -129,7 +190,7 @@ class ArbitrageBot {
     }
 
     if (bestOpp) {
-      const riskCheck = await this.risk.canExecute(bestOpp);
+      const riskCheck = this.risk.canExecute(bestOpp);
       if (riskCheck.allowed) {
         const success = await this.executor.execute(bestOpp);
         success ? this.risk.recordSuccess() : this.risk.recordFailure();
@@ -139,15 +200,22 @@ class ArbitrageBot {
     }
 
     if (this.cycleCount % 100 === 0) {
-      const stats = this.executor.getStats();
-      console.log(` Cycle ${this.cycleCount} | WS updates: ${this.updatesReceived} | Execs: ${stats.executions} | Profit: ${stats.totalProfit} SOL`);
+      const lag = this.priceStream.lag();
+      console.log(` Cycle ${this.cycleCount} | Stream updates: ${this.updatesReceived} (lag ${lag.slots} slots / ${lag.ms}ms) | ${this.statsLine()}`);
     }
   }
 
-  stop() {
+  async stop() {
     this.running = false;
+    console.log(`\n Bot stopped — Cycles: ${this.cycleCount} | ${this.statsLine()}`);
+    await this.recorder?.close(); // flush buffered lines before exit
+  }
+
+  /** Realized profit only counts reconciled live trades; dry runs show what they would have expected */
+  private statsLine(): string {
     const stats = this.executor.getStats();
-    console.log(`\n Bot stopped — Cycles: ${this.cycleCount} | Execs: ${stats.executions} | Profit: ${stats.totalProfit} SOL`);
+    if (config.dryRun) return `Dry runs: ${stats.dryRuns} | Expected: ${stats.expectedProfit} SOL`;
+    return `Execs: ${stats.executions} | Realized: ${stats.realizedProfit} SOL`;
   }
 }
 
@@ -156,6 +224,6 @@ function sleep(ms: number): Promise<void> {
 }
 
 const bot = new ArbitrageBot();
-process.on('SIGINT', () => { bot.stop(); process.exit(0); });
-process.on('SIGTERM', () => { bot.stop(); process.exit(0); });
+process.on('SIGINT', () => { bot.stop().finally(() => process.exit(0)); });
+process.on('SIGTERM', () => { bot.stop().finally(() => process.exit(0)); });
 bot.start().catch(err => { console.error('Fatal:', err); process.exit(1); });
@@ -0,0 +1,113 @@
+import Decimal from 'decimal.js';
+import { connection, wallet } from '../config';
+import { JournalEntry, JournalFilter, TradeJournal, defaultJournalFile, queryJournal, readJournal, unreconciled } from './journal';
+import { TradeReconciler } from './reconciler';
+
+const USAGE = 'Usage: npm run journal -- [--token <mint>] [--pair <dex>/<dex>] [--strategy <spatial|temporal|triangular>] [--reconcile] [--file <journal.jsonl>]';
+
+interface GroupStats {
+  attempts: number;
+  landed: number;
+  failed: number;
+  dryRuns: number;
+  expected: Decimal;      // lamports, landed + dry-run attempts
+  reconciled: number;
+  realized: Decimal;      // lamports, reconciled attempts (failed ones included — their fees count)
+  fees: Decimal;          // fees + tips
+}
+
+function summarize(entries: JournalEntry[], key: (e: JournalEntry) => string): Map<string, GroupStats> {
+  const groups = new Map<string, GroupStats>();
+  for (const e of entries) {
+    const k = key(e);
+    let g = groups.get(k);
+    if (!g) {
+      g = { attempts: 0, landed: 0, failed: 0, dryRuns: 0, expected: new Decimal(0), reconciled: 0, realized: new Decimal(0), fees: new Decimal(0) };
+      groups.set(k, g);
+    }
+    g.attempts++;
+    if (e.outcome === 'landed') g.landed++;
+    else if (e.outcome === 'failed') g.failed++;
+    else g.dryRuns++;
+    if (e.outcome !== 'failed') g.expected = g.expected.add(e.expectedProfit);
+    if (e.reconciliation) {
+      g.reconciled++;
+      g.realized = g.realized.add(e.reconciliation.realizedPnl);
+      g.fees = g.fees.add(e.reconciliation.fees).add(e.reconciliation.tips);
+    }
+  }
+  return groups;
+}
+
+function printGroups(title: string, groups: Map<string, GroupStats>): void {
+  const sol = (d: Decimal) => d.div(1e9).toFixed(6);
+  console.log(`\n${title}`);
+  const rows = [...groups.entries()].sort(([, a], [, b]) => b.realized.cmp(a.realized));
+  for (const [name, g] of rows) {
+    console.log(`   ${name.padEnd(20)} ${g.attempts} attempts | landed ${g.landed} | failed ${g.failed} | dry run ${g.dryRuns}`);
+    console.log(`   ${''.padEnd(20)} expected ${sol(g.expected)} SOL | realized ${sol(g.realized)} SOL over ${g.reconciled} reconciled | fees + tips ${sol(g.fees)} SOL`);
+  }
+}
+
+function parseArgs(argv: string[]): { filter: JournalFilter; reconcile: boolean; file: string } {
+  const filter: JournalFilter = {};
+  let reconcile = false;
+  let file = defaultJournalFile();
+  for (let i = 0; i < argv.length; i++) {
+    const value = () => {
+      if (i + 1 >= argv.length) throw new Error(`${argv[i]} needs a value`);
+      return argv[++i];
+    };
+    switch (argv[i]) {
+      case '--token': filter.token = value(); break;
+      case '--pair': filter.pair = value(); break;
+      case '--strategy': filter.strategy = value(); break;
+      case '--file': file = value(); break;
+      case '--reconcile': reconcile = true; break;
+      default: throw new Error(`Unknown option ${argv[i]}`);
+    }
+  }
+  return { filter, reconcile, file };
+}
+
+async function main() {
+  let args: ReturnType<typeof parseArgs>;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (e: any) {
+    console.error(`${e.message}\n${USAGE}`);
+    process.exit(1);
+  }
+  const { filter, reconcile, file } = args;
+
+  console.log(`\n🧾 Trade journal: ${file}`);
+  if (reconcile) {
+    // Attempts whose transactions weren't available when the bot ran (or that it crashed before reconciling)
+    const pending = unreconciled(readJournal(file));
+    const reconciler = new TradeReconciler(connection, new TradeJournal(file), wallet.publicKey);
+    let done = 0;
+    for (const entry of pending) {
+      try {
+        if (await reconciler.reconcile(entry)) done++;
+      } catch (e: any) {
+        console.log(`   ⚠️ ${entry.id.slice(0, 8)}: ${e.message?.slice(0, 60)}`);
+      }
+    }
+    console.log(`   Reconciled ${done} of ${pending.length} pending attempts`);
+  }
+
+  const entries = queryJournal(readJournal(file), filter);
+  const filters = Object.entries(filter).map(([k, v]) => `${k}=${v}`).join(' ');
+  console.log(`   ${entries.length} attempts${filters ? ` matching ${filters}` : ''}`);
+  if (entries.length === 0) return;
+
+  printGroups('By strategy', summarize(entries, e => e.strategy));
+  printGroups('By DEX pair', summarize(entries, e => e.pair));
+  printGroups('By token', summarize(entries, e => `${e.tokenMint.slice(0, 8)}...`));
+
+  const total = summarize(entries, () => 'all').get('all')!;
+  console.log('═'.repeat(50));
+  console.log(`Realized PnL: ${total.realized.div(1e9).toFixed(6)} SOL over ${total.reconciled} reconciled attempts (${unreconciled(entries).length} pending)`);
+}
+
+main().catch(err => { console.error('Fatal:', err); process.exit(1); });
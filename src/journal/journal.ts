@@ -0,0 +1,191 @@
+import { PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../config';
+import { ArbOpportunity, PoolInfo } from '../pools/types';
+
+export type ExecutionMode = 'dry-run' | 'atomic' | 'bundle' | 'sequential';
+export type AttemptOutcome = 'dry-run' | 'landed' | 'failed';
+
+export interface JournalPool {
+  address: string;
+  dex: PoolInfo['dex'];
+  poolType: PoolInfo['poolType'];
+}
+
+/** A leg as the Executor priced it when building the swap (raw token units) */
+export interface JournalQuote {
+  pool: string;
+  dex: PoolInfo['dex'];
+  inputMint: string;
+  outputMint: string;
+  amountIn: string;
+  expectedOut: string;
+  minOut: string;
+}
+
+export interface JournalTransaction {
+  label: string;
+  signature: string;
+}
+
+/** One Executor.execute() call: what was seen, what was priced, what was sent and what went wrong */
+export interface TradeAttempt {
+  id: string;
+  startedAt: number;
+  finishedAt: number;
+  strategy: ArbOpportunity['type'];
+  mode: ExecutionMode;
+  tokenMint: string;
+  pair: string;               // buy dex / sell dex, e.g. "raydium/orca"
+  route: JournalPool[];
+  inputAmount: string;        // lamports
+  expectedProfit: string;     // lamports
+  profitBps: number;
+  confidence?: number;
+  quotes: JournalQuote[];
+  transactions: JournalTransaction[];
+  errors: string[];           // build, simulation, submission and confirmation failures
+  outcome: AttemptOutcome;
+}
+
+/** One of the attempt's transactions as it landed (all amounts in lamports / raw token units) */
+export interface ReconciledTransaction {
+  signature: string;
+  landed: boolean;            // false: never made it on-chain, cost nothing
+  slot?: number;
+  err?: string;               // landed but failed — the fee was still paid
+  fee: string;                // base + priority fee
+  tip: string;                // transfers to block-engine tip accounts
+  rent: string;               // lamports locked in (or, if negative, released from) our token accounts
+  solDelta: string;           // wallet SOL + WSOL change, everything above included
+  tokenDelta: string;         // change in our balance of the traded token
+}
+
+/** Realized result of an attempt, from the confirmed transactions' pre/post balances */
+export interface Reconciliation {
+  id: string;
+  reconciledAt: number;
+  transactions: ReconciledTransaction[];
+  fees: string;
+  tips: string;
+  rent: string;
+  tokenDelta: string;         // tokens still held after the attempt (e.g. a failed leg 2)
+  realizedPnl: string;        // lamports, net of fees, tips and rent
+}
+
+export type JournalEntry = TradeAttempt & { reconciliation?: Reconciliation };
+
+export interface JournalFilter {
+  token?: string;             // mint, or a prefix of it
+  pair?: string;              // "raydium/orca" matches either direction
+  strategy?: string;
+}
+
+type JournalLine =
+  | ({ type: 'attempt' } & TradeAttempt)
+  | ({ type: 'reconciliation' } & Reconciliation);
+
+export const defaultJournalFile = () => config.journalFile || path.join(config.dataDir, 'journal.jsonl');
+
+/**
+ * Append-only JSONL journal of every execution attempt (dry runs included),
+ * followed later by a reconciliation line per attempt once its transactions
+ * are confirmed. Attempts are rare, so each line is appended synchronously
+ * and survives a crash right after it.
+ */
+export class TradeJournal {
+  constructor(readonly file = defaultJournalFile()) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+
+  /** Start an attempt; the Executor fills in quotes, transactions and errors as it goes */
+  begin(opp: ArbOpportunity, mode: ExecutionMode): TradeAttempt {
+    return {
+      id: randomUUID(),
+      startedAt: Date.now(),
+      finishedAt: 0,
+      strategy: opp.type,
+      mode,
+      tokenMint: opp.tokenMint.toBase58(),
+      pair: `${opp.buyPool.dex}/${opp.sellPool.dex}`,
+      route: opp.route.map(hop => ({ address: hop.pool.address.toBase58(), dex: hop.pool.dex, poolType: hop.pool.poolType })),
+      inputAmount: opp.inputAmount.toFixed(0),
+      expectedProfit: opp.expectedProfit.toFixed(0),
+      profitBps: opp.profitBps,
+      confidence: opp.confidence,
+      quotes: [],
+      transactions: [],
+      errors: [],
+      outcome: 'failed',
+    };
+  }
+
+  quote(attempt: TradeAttempt, pool: PoolInfo, inputMint: PublicKey, outputMint: PublicKey, amountIn: Decimal, expectedOut: Decimal, minOut: Decimal): void {
+    attempt.quotes.push({
+      pool: pool.address.toBase58(),
+      dex: pool.dex,
+      inputMint: inputMint.toBase58(),
+      outputMint: outputMint.toBase58(),
+      amountIn: amountIn.toFixed(0),
+      expectedOut: expectedOut.floor().toFixed(0),
+      minOut: minOut.toFixed(0),
+    });
+  }
+
+  finish(attempt: TradeAttempt, outcome: AttemptOutcome): void {
+    attempt.outcome = outcome;
+    attempt.finishedAt = Date.now();
+    this.append({ type: 'attempt', ...attempt });
+  }
+
+  reconciled(reconciliation: Reconciliation): void {
+    this.append({ type: 'reconciliation', ...reconciliation });
+  }
+
+  private append(line: JournalLine): void {
+    fs.appendFileSync(this.file, JSON.stringify(line) + '\n');
+  }
+}
+
+/** Every attempt in the journal with its latest reconciliation, oldest first */
+export function readJournal(file = defaultJournalFile()): JournalEntry[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch {
+    return [];
+  }
+  const entries = new Map<string, JournalEntry>();
+  for (const raw of text.split('\n')) {
+    if (!raw.trim()) continue;
+    let line: JournalLine;
+    try {
+      line = JSON.parse(raw);
+    } catch {
+      continue; // a line cut short by a crash
+    }
+    const { type, ...rest } = line;
+    if (type === 'attempt') entries.set(rest.id, { ...(rest as TradeAttempt), reconciliation: entries.get(rest.id)?.reconciliation });
+    else {
+      const entry = entries.get(rest.id);
+      if (entry) entry.reconciliation = rest as Reconciliation;
+    }
+  }
+  return [...entries.values()];
+}
+
+export function queryJournal(entries: JournalEntry[], filter: JournalFilter): JournalEntry[] {
+  const pair = filter.pair?.toLowerCase().split('/').sort().join('/');
+  return entries.filter(e =>
+    (!filter.token || e.tokenMint.startsWith(filter.token)) &&
+    (!filter.strategy || e.strategy === filter.strategy) &&
+    (!pair || e.pair.split('/').sort().join('/') === pair));
+}
+
+/** Attempts that sent transactions but have no reconciliation yet */
+export function unreconciled(entries: JournalEntry[]): JournalEntry[] {
+  return entries.filter(e => e.transactions.length > 0 && !e.reconciliation);
+}
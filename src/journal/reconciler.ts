@@ -0,0 +1,120 @@
+import { Connection, PublicKey, VersionedTransactionResponse } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { JITO_TIP_ACCOUNTS } from '../execution/submission';
+import { ReconciledTransaction, Reconciliation, TradeAttempt, TradeJournal } from './journal';
+
+const SOL_STR = 'So11111111111111111111111111111111111111112';
+const FETCH_ATTEMPTS = 3;
+const FETCH_RETRY_MS = 2_000; // a just-confirmed transaction can take a moment to be served by getTransaction
+const TIP_ACCOUNTS = new Set(JITO_TIP_ACCOUNTS.map(a => a.toBase58()));
+
+/**
+ * Realized PnL of journaled attempts, from their transactions' pre/post
+ * balances rather than our quotes:
+ *   - SOL delta: the wallet's lamports plus its WSOL token balance
+ *   - fee: meta.fee; tip: lamports received by block-engine tip accounts
+ *   - rent: lamports our token accounts gained beyond their token amount
+ *     (ATAs created; negative when an account is closed)
+ * Realized PnL is the SOL delta, so it is already net of all three; tokens
+ * left over (a failed sequential leg 2) are reported, not valued.
+ *
+ * A transaction that can't be found counts as never landed if the attempt
+ * failed (e.g. a dropped bundle); if the attempt landed it is still pending,
+ * and the attempt is left for a later run (`npm run journal -- --reconcile`).
+ */
+export class TradeReconciler {
+  constructor(private connection: Connection, private journal: TradeJournal, private owner: PublicKey) {}
+
+  /** Reconcile one attempt and journal the result; null if a transaction isn't available yet */
+  async reconcile(attempt: TradeAttempt): Promise<Reconciliation | null> {
+    const transactions: ReconciledTransaction[] = [];
+    for (const { signature } of attempt.transactions) {
+      const tx = await this.fetch(signature);
+      if (!tx?.meta) {
+        if (attempt.outcome === 'landed') return null;
+        transactions.push({ signature, landed: false, fee: '0', tip: '0', rent: '0', solDelta: '0', tokenDelta: '0' });
+        continue;
+      }
+      transactions.push(this.balanceChanges(signature, tx, attempt.tokenMint));
+    }
+
+    const sum = (field: 'fee' | 'tip' | 'rent' | 'solDelta' | 'tokenDelta') =>
+      transactions.reduce((total, t) => total.add(t[field]), new Decimal(0)).toFixed(0);
+    const reconciliation: Reconciliation = {
+      id: attempt.id,
+      reconciledAt: Date.now(),
+      transactions,
+      fees: sum('fee'),
+      tips: sum('tip'),
+      rent: sum('rent'),
+      tokenDelta: sum('tokenDelta'),
+      realizedPnl: sum('solDelta'),
+    };
+    this.journal.reconciled(reconciliation);
+    return reconciliation;
+  }
+
+  private async fetch(signature: string): Promise<VersionedTransactionResponse | null> {
+    for (let attempt = 1; attempt <= FETCH_ATTEMPTS; attempt++) {
+      const tx = await this.connection.getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+      if (tx) return tx;
+      if (attempt < FETCH_ATTEMPTS) await new Promise(r => setTimeout(r, FETCH_RETRY_MS));
+    }
+    return null;
+  }
+
+  private balanceChanges(signature: string, tx: VersionedTransactionResponse, tokenMint: string): ReconciledTransaction {
+    const meta = tx.meta!;
+    const keys = tx.transaction.message.getAccountKeys({ accountKeysFromLookups: meta.loadedAddresses });
+    const owner = this.owner.toBase58();
+    const lamports = (balances: number[], i: number) => BigInt(balances[i] ?? 0);
+
+    let solDelta = 0n;
+    let tip = 0n;
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys.get(i)!.toBase58();
+      const delta = lamports(meta.postBalances, i) - lamports(meta.preBalances, i);
+      if (key === owner) solDelta += delta;
+      else if (TIP_ACCOUNTS.has(key)) tip += delta;
+    }
+
+    // Our token accounts, by account index: raw amount before / after (absent = didn't exist)
+    const amounts = new Map<number, { mint: string; pre: bigint; post: bigint }>();
+    const collect = (balances: typeof meta.preTokenBalances, side: 'pre' | 'post') => {
+      for (const b of balances ?? []) {
+        if (b.owner !== owner) continue;
+        const entry = amounts.get(b.accountIndex) ?? { mint: b.mint, pre: 0n, post: 0n };
+        entry[side] = BigInt(b.uiTokenAmount.amount);
+        amounts.set(b.accountIndex, entry);
+      }
+    };
+    collect(meta.preTokenBalances, 'pre');
+    collect(meta.postTokenBalances, 'post');
+
+    let rent = 0n;
+    let tokenDelta = 0n;
+    for (const [i, { mint, pre, post }] of amounts) {
+      const lamportDelta = lamports(meta.postBalances, i) - lamports(meta.preBalances, i);
+      if (mint === SOL_STR) {
+        // WSOL: the token amount is SOL we hold, the rest of the account's lamports is rent
+        solDelta += post - pre;
+        rent += lamportDelta - (post - pre);
+      } else {
+        rent += lamportDelta;
+        if (mint === tokenMint) tokenDelta += post - pre;
+      }
+    }
+
+    return {
+      signature,
+      landed: true,
+      slot: tx.slot,
+      err: meta.err ? JSON.stringify(meta.err) : undefined,
+      fee: meta.fee.toString(),
+      tip: tip.toString(),
+      rent: rent.toString(),
+      solDelta: solDelta.toString(),
+      tokenDelta: tokenDelta.toString(),
+    };
+  }
+}
@@ -0,0 +1,338 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import Client, { CommitmentLevel, SubscribeRequest, SubscribeUpdate } from '@triton-one/yellowstone-grpc';
+import bs58 from 'bs58';
+import { config } from '../config';
+
+const GRPC_PING_MS = 10_000;
+const GRPC_RECONNECT_MS = 1_000;
+const LAG_SMOOTHING = 0.1;        // EMA weight of the newest lag sample
+const SLOT_HISTORY = 150;         // slots remembered for first-seen timestamps
+const SLOT_CONFIRMED = 1;         // geyser SlotStatus.SLOT_CONFIRMED (the client doesn't export the enum)
+
+export type AccountUpdateHandler = (data: Buffer, slot: number) => void;
+
+/** How far account updates trail the newest slot the stream has seen (smoothed) */
+export interface StreamLag {
+  tipSlot: number;
+  slots: number;
+  ms: number;
+}
+
+/**
+ * Pluggable account-update feed.
+ * PriceStream decides which accounts matter and how to decode them; a stream
+ * only delivers the raw account bytes with the slot they were written in.
+ */
+export interface AccountStream {
+  readonly name: string;
+  /** Register an account — subscribed on start(), or right away if already started */
+  watch(address: PublicKey, onUpdate: AccountUpdateHandler): void;
+  /** Stop delivering updates for an account */
+  unwatch(address: PublicKey): void;
+  /** Open the feed. Returns how many accounts are subscribed. */
+  start(): Promise<number>;
+  lag(): StreamLag;
+  /**
+   * Newest slot an account is known current through: the slot of its last
+   * update, advanced past it only when the stream can show the account
+   * didn't change since. Null while it isn't subscribed or before either.
+   */
+  observedSlot(address: PublicKey): number | null;
+  close(): Promise<void>;
+}
+
+/**
+ * Lag is measured against the stream's own slot feed: when an account update
+ * for slot S arrives, ms = now − when S was first seen (or the server's
+ * timestamp if it sends one), slots = newest slot − S.
+ */
+class LagTracker {
+  private tipSlot = 0;
+  private slotSeenAt = new Map<number, number>();
+  private lagSlots = 0;
+  private lagMs = 0;
+
+  slot(slot: number): void {
+    if (!this.slotSeenAt.has(slot)) this.slotSeenAt.set(slot, Date.now());
+    if (slot > this.tipSlot) this.tipSlot = slot;
+    for (const s of this.slotSeenAt.keys()) {
+      if (s < this.tipSlot - SLOT_HISTORY) this.slotSeenAt.delete(s);
+    }
+  }
+
+  account(slot: number, createdAt?: number): void {
+    this.slot(slot);
+    const seenAt = createdAt ?? this.slotSeenAt.get(slot)!;
+    this.lagMs += (Math.max(0, Date.now() - seenAt) - this.lagMs) * LAG_SMOOTHING;
+    this.lagSlots += (this.tipSlot - slot - this.lagSlots) * LAG_SMOOTHING;
+  }
+
+  snapshot(): StreamLag {
+    return { tipSlot: this.tipSlot, slots: Math.round(this.lagSlots * 10) / 10, ms: Math.round(this.lagMs) };
+  }
+}
+
+interface RpcWatch {
+  address: PublicKey;
+  handlers: AccountUpdateHandler[];
+  subId: number | null;
+  slot: number | null;        // slot of the last notification
+}
+
+/**
+ * JSON-RPC WebSocket: one accountSubscribe per account plus a slot subscription.
+ * Notifications only say when an account changed, never that it didn't, so
+ * an account is observed through its last notification's slot only.
+ */
+export class RpcAccountStream implements AccountStream {
+  readonly name = 'rpc';
+  private watches = new Map<string, RpcWatch>();
+  private slotSubscription: number | null = null;
+  private started = false;
+  private lagTracker = new LagTracker();
+
+  constructor(private connection: Connection) {}
+
+  watch(address: PublicKey, onUpdate: AccountUpdateHandler): void {
+    const key = address.toBase58();
+    const entry = this.watches.get(key) || { address, handlers: [], subId: null, slot: null };
+    entry.handlers.push(onUpdate);
+    this.watches.set(key, entry);
+    if (this.started && entry.subId === null) this.subscribeAccount(entry);
+  }
+
+  unwatch(address: PublicKey): void {
+    const key = address.toBase58();
+    const entry = this.watches.get(key);
+    if (!entry) return;
+    this.watches.delete(key);
+    if (entry.subId !== null) this.connection.removeAccountChangeListener(entry.subId).catch(() => {});
+  }
+
+  async start(): Promise<number> {
+    this.started = true;
+    this.slotSubscription = this.connection.onSlotChange(info => this.lagTracker.slot(info.slot));
+    for (const entry of this.watches.values()) this.subscribeAccount(entry);
+    return [...this.watches.values()].filter(w => w.subId !== null).length;
+  }
+
+  private subscribeAccount(entry: RpcWatch): void {
+    try {
+      entry.subId = this.connection.onAccountChange(
+        entry.address,
+        (accountInfo, context) => {
+          this.lagTracker.account(context.slot);
+          entry.slot = Math.max(entry.slot ?? 0, context.slot);
+          for (const handler of entry.handlers) handler(accountInfo.data, context.slot);
+        },
+        'confirmed'
+      );
+    } catch (e: any) {
+      console.log(`   ⚠️ Failed to subscribe to ${entry.address.toBase58().slice(0, 8)}...`);
+    }
+  }
+
+  lag(): StreamLag {
+    return this.lagTracker.snapshot();
+  }
+
+  observedSlot(address: PublicKey): number | null {
+    const entry = this.watches.get(address.toBase58());
+    return entry && entry.subId !== null ? entry.slot : null;
+  }
+
+  async close(): Promise<void> {
+    for (const { subId } of this.watches.values()) {
+      if (subId === null) continue;
+      try {
+        await this.connection.removeAccountChangeListener(subId);
+      } catch {}
+    }
+    if (this.slotSubscription !== null) {
+      try { await this.connection.removeSlotChangeListener(this.slotSubscription); } catch {}
+    }
+    this.watches.clear();
+    this.slotSubscription = null;
+    this.started = false;
+  }
+}
+
+/**
+ * Yellowstone (Geyser) gRPC: a single bidirectional stream filtered by our
+ * pool / vault pubkeys, plus slot updates for the lag metric. Watch changes
+ * after start re-send the filter on the open stream; a dropped stream
+ * reconnects with the current filter.
+ * Endpoint is config.grpcUrl (point it at a local fake server for testing).
+ */
+export class GeyserAccountStream implements AccountStream {
+  readonly name = 'grpc';
+  private client: Client;
+  private handlers = new Map<string, AccountUpdateHandler[]>();
+  private updatedAt = new Map<string, number>(); // slot of each account's last update
+  private liveFrom = new Map<string, number>();  // accounts in the filter on the open stream → newest slot when it went live
+  private newestSlot = 0;                         // newest slot of any status
+  private confirmedSlot = 0;                      // newest confirmed slot whose account updates have all been delivered
+  private stream: Awaited<ReturnType<Client['subscribe']>> | null = null;
+  private pingTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private filterUpdatePending = false;
+  private closed = false;
+  private lagTracker = new LagTracker();
+
+  constructor(endpoint = config.grpcUrl, token = config.grpcToken) {
+    this.client = new Client(endpoint, token, undefined);
+  }
+
+  watch(address: PublicKey, onUpdate: AccountUpdateHandler): void {
+    const key = address.toBase58();
+    this.handlers.set(key, [...(this.handlers.get(key) || []), onUpdate]);
+    this.scheduleFilterUpdate();
+  }
+
+  unwatch(address: PublicKey): void {
+    this.updatedAt.delete(address.toBase58());
+    if (this.handlers.delete(address.toBase58())) this.scheduleFilterUpdate();
+  }
+
+  async start(): Promise<number> {
+    this.closed = false;
+    await this.connect();
+    return this.handlers.size;
+  }
+
+  lag(): StreamLag {
+    return this.lagTracker.snapshot();
+  }
+
+  observedSlot(address: PublicKey): number | null {
+    const key = address.toBase58();
+    const liveFrom = this.liveFrom.get(key);
+    if (!this.stream || liveFrom === undefined) return null;
+    // A confirmed slot after the subscription went live vouches for every account it didn't update
+    const updated = this.updatedAt.get(key) ?? null;
+    const unchangedThrough = this.confirmedSlot > liveFrom ? this.confirmedSlot : null;
+    return updated === null ? unchangedThrough : Math.max(updated, unchangedThrough ?? updated);
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.pingTimer = null;
+    this.reconnectTimer = null;
+    this.stream?.end();
+    this.stream = null;
+    this.handlers.clear();
+    this.updatedAt.clear();
+    this.liveFrom.clear();
+  }
+
+  private async connect(): Promise<void> {
+    const stream = await this.client.subscribe();
+    this.stream = stream;
+
+    stream.on('data', (update: SubscribeUpdate) => this.handleUpdate(update));
+    stream.on('error', (e: any) => {
+      if (this.stream === stream) this.scheduleReconnect(`error: ${e.message?.slice(0, 60)}`);
+    });
+    stream.on('end', () => {
+      if (this.stream === stream) this.scheduleReconnect('ended');
+    });
+
+    await this.writeFilter(stream);
+
+    // Keep-alive: some providers drop idle streams; a ping-only request leaves filters unchanged
+    let pingId = 0;
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    this.pingTimer = setInterval(() => {
+      this.write(stream, { ...this.emptyRequest(), ping: { id: ++pingId } }).catch(() => {});
+    }, GRPC_PING_MS);
+  }
+
+  /** Coalesce watch / unwatch calls into one filter write on the open stream */
+  private scheduleFilterUpdate(): void {
+    if (!this.stream || this.filterUpdatePending) return;
+    this.filterUpdatePending = true;
+    setImmediate(() => {
+      this.filterUpdatePending = false;
+      if (this.stream) this.writeFilter(this.stream).catch(() => {});
+    });
+  }
+
+  private scheduleReconnect(reason: string): void {
+    if (this.closed || this.reconnectTimer) return;
+    console.log(`   ⚠️ gRPC stream ${reason} — reconnecting`);
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    this.pingTimer = null;
+    this.stream = null;
+    this.liveFrom.clear();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.closed) return;
+      this.connect().catch(e => this.scheduleReconnect(`connect failed: ${e.message?.slice(0, 60)}`));
+    }, GRPC_RECONNECT_MS);
+  }
+
+  /** Send the current account filter; accounts count as subscribed once the stream accepted it */
+  private async writeFilter(stream: NonNullable<GeyserAccountStream['stream']>): Promise<void> {
+    const accounts = [...this.handlers.keys()];
+    await this.write(stream, this.request(accounts));
+    if (this.stream !== stream) return;
+    const live = new Map<string, number>();
+    for (const key of accounts) live.set(key, this.liveFrom.get(key) ?? this.newestSlot);
+    this.liveFrom = live;
+  }
+
+  private request(accounts: string[]): SubscribeRequest {
+    return {
+      ...this.emptyRequest(),
+      accounts: { pools: { account: accounts, owner: [], filters: [] } },
+      slots: { tip: {} },
+      commitment: CommitmentLevel.CONFIRMED,
+    };
+  }
+
+  private emptyRequest(): SubscribeRequest {
+    return {
+      accounts: {}, slots: {}, transactions: {}, transactionsStatus: {},
+      blocks: {}, blocksMeta: {}, entry: {}, accountsDataSlice: [],
+    };
+  }
+
+  private write(stream: NonNullable<GeyserAccountStream['stream']>, request: SubscribeRequest): Promise<void> {
+    return new Promise((resolve, reject) => {
+      stream.write(request, (err: Error | null | undefined) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  private handleUpdate(update: SubscribeUpdate): void {
+    if (update.slot) {
+      const slot = Number(update.slot.slot);
+      this.lagTracker.slot(slot);
+      this.newestSlot = Math.max(this.newestSlot, slot);
+      // At confirmed commitment a slot's account updates are sent before its confirmed status
+      if (update.slot.status === SLOT_CONFIRMED) this.confirmedSlot = Math.max(this.confirmedSlot, slot);
+      return;
+    }
+
+    const account = update.account?.account;
+    if (!account) return;
+    const slot = Number(update.account!.slot);
+    this.lagTracker.account(slot, update.createdAt?.getTime());
+
+    const key = bs58.encode(account.pubkey);
+    const handlers = this.handlers.get(key);
+    if (!handlers) return;
+    this.updatedAt.set(key, Math.max(this.updatedAt.get(key) ?? 0, slot));
+    const data = Buffer.from(account.data);
+    for (const handler of handlers) handler(data, slot);
+  }
+}
+
+export function createAccountStream(connection: Connection): AccountStream {
+  if (config.streamMode === 'grpc') {
+    if (config.grpcUrl) return new GeyserAccountStream();
+    console.log('   ⚠️ STREAM_MODE=grpc but GRPC_URL is not set — using RPC WebSocket');
+  }
+  return new RpcAccountStream(connection);
+}
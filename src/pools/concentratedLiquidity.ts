@@ -0,0 +1,146 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { ConcentratedState } from './types';
+
+/**
+ * Shared concentrated-liquidity swap math (Orca Whirlpool, Raydium CLMM).
+ * Integer Q64.64 math mirroring the on-chain programs: fee taken per step
+ * in 1e-6 units, liquidity updated by liquidityNet on every tick crossed.
+ */
+
+export const Q64 = 1n << 64n;
+export const MIN_TICK = -443636;
+export const MAX_TICK = 443636;
+const FEE_RATE_DENOMINATOR = 1_000_000n;
+const MAX_ACCOUNTS_PER_CALL = 100;
+
+const HighPrecision = Decimal.clone({ precision: 50 });
+
+/**
+ * Exact-input swap from the current price towards `boundaryTick` (the last tick
+ * the loaded tick arrays cover in the swap direction). Returns the output
+ * amount, or 0 if the input can't be filled before the boundary.
+ */
+export function simulateExactIn(
+  state: ConcentratedState, aToB: boolean, amountIn: bigint, boundaryTick: number,
+): bigint {
+  if (amountIn <= 0n) return 0n;
+
+  const boundary = aToB ? Math.max(MIN_TICK, boundaryTick) : Math.min(MAX_TICK, boundaryTick);
+  const path = aToB
+    ? state.ticks.filter(t => t.index <= state.tickCurrentIndex && t.index >= boundary).reverse()
+    : state.ticks.filter(t => t.index > state.tickCurrentIndex && t.index <= boundary);
+
+  let remaining = amountIn;
+  let out = 0n;
+  let sqrtPrice = state.sqrtPrice;
+  let liquidity = state.liquidity;
+
+  for (let i = 0; remaining > 0n; i++) {
+    const next = path[i];
+    const target = sqrtPriceAtTick(next ? next.index : boundary);
+    const step = swapStep(sqrtPrice, target, liquidity, remaining, state.feeRate, aToB);
+
+    remaining -= step.amountIn + step.fee;
+    out += step.amountOut;
+    sqrtPrice = step.nextSqrtPrice;
+
+    if (sqrtPrice !== target) break;            // input used up inside this range
+    if (!next) return remaining > 0n ? 0n : out; // hit the end of the loaded arrays
+    liquidity = aToB ? liquidity - next.liquidityNet : liquidity + next.liquidityNet;
+  }
+  return out;
+}
+
+/** Virtual reserves at the current price: x = L / √P, y = L · √P */
+export function virtualReserves(liquidity: bigint, sqrtPrice: bigint): { reserveA: Decimal; reserveB: Decimal } | null {
+  if (liquidity <= 0n || sqrtPrice <= 0n) return null;
+  return {
+    reserveA: new Decimal(((liquidity * Q64) / sqrtPrice).toString()),
+    reserveB: new Decimal(((liquidity * sqrtPrice) / Q64).toString()),
+  };
+}
+
+export function sqrtPriceAtTick(tick: number): bigint {
+  let v = sqrtPriceCache.get(tick);
+  if (v === undefined) {
+    const sqrt = new HighPrecision('1.0001').pow(tick).sqrt();
+    v = BigInt(sqrt.mul(HighPrecision.pow(2, 64)).floor().toFixed(0));
+    sqrtPriceCache.set(tick, v);
+  }
+  return v;
+}
+
+export function readU128(buf: Buffer, offset: number): bigint {
+  const lo = buf.readBigUInt64LE(offset);
+  const hi = buf.readBigUInt64LE(offset + 8);
+  return (hi << 64n) | lo;
+}
+
+/** getMultipleAccountsInfo in RPC-sized chunks */
+export async function getMultipleAccounts(connection: Connection, keys: PublicKey[]) {
+  return (await getMultipleAccountsWithSlot(connection, keys)).infos;
+}
+
+/** Same, plus the context slot the data is valid at (the oldest chunk's slot) */
+export async function getMultipleAccountsWithSlot(connection: Connection, keys: PublicKey[]) {
+  const infos = [];
+  let slot = 0;
+  for (let i = 0; i < keys.length; i += MAX_ACCOUNTS_PER_CALL) {
+    const res = await connection.getMultipleAccountsInfoAndContext(keys.slice(i, i + MAX_ACCOUNTS_PER_CALL));
+    infos.push(...res.value);
+    slot = slot === 0 ? res.context.slot : Math.min(slot, res.context.slot);
+  }
+  return { infos, slot };
+}
+
+function swapStep(
+  sqrtPrice: bigint, target: bigint, liquidity: bigint,
+  amountRemaining: bigint, feeRate: number, aToB: boolean,
+): { nextSqrtPrice: bigint; amountIn: bigint; amountOut: bigint; fee: bigint } {
+  const rate = BigInt(feeRate);
+  const lessFee = (amountRemaining * (FEE_RATE_DENOMINATOR - rate)) / FEE_RATE_DENOMINATOR;
+  const maxIn = aToB
+    ? deltaA(target, sqrtPrice, liquidity, true)
+    : deltaB(sqrtPrice, target, liquidity, true);
+
+  const reached = lessFee >= maxIn;
+  const nextSqrtPrice = reached
+    ? target
+    : aToB
+      ? ceilDiv(liquidity * Q64 * sqrtPrice, liquidity * Q64 + lessFee * sqrtPrice)
+      : sqrtPrice + (lessFee * Q64) / liquidity;
+
+  const amountIn = reached
+    ? maxIn
+    : aToB ? deltaA(nextSqrtPrice, sqrtPrice, liquidity, true) : deltaB(sqrtPrice, nextSqrtPrice, liquidity, true);
+  const amountOut = aToB
+    ? deltaB(nextSqrtPrice, sqrtPrice, liquidity, false)
+    : deltaA(sqrtPrice, nextSqrtPrice, liquidity, false);
+  const fee = reached
+    ? ceilDiv(amountIn * rate, FEE_RATE_DENOMINATOR - rate)
+    : amountRemaining - amountIn;
+
+  return { nextSqrtPrice, amountIn, amountOut, fee };
+}
+
+/** Token A between two sqrt prices: L · (upper − lower) / (upper · lower) */
+function deltaA(lower: bigint, upper: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  if (upper <= lower || liquidity === 0n) return 0n;
+  const num = liquidity * (upper - lower) * Q64;
+  const den = upper * lower;
+  return roundUp ? ceilDiv(num, den) : num / den;
+}
+
+/** Token B between two sqrt prices: L · (upper − lower) */
+function deltaB(lower: bigint, upper: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  if (upper <= lower || liquidity === 0n) return 0n;
+  const num = liquidity * (upper - lower);
+  return roundUp ? ceilDiv(num, Q64) : num / Q64;
+}
+
+const sqrtPriceCache = new Map<number, bigint>();
+
+export function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - 1n) / b;
+}
@@ -0,0 +1,547 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { DlmmBin, DlmmState, PoolInfo } from './types';
+import { PROGRAMS } from '../config';
+import { Q64, ceilDiv, getMultipleAccounts, getMultipleAccountsWithSlot } from './concentratedLiquidity';
+import { pairLabel } from './pairs';
+
+// Anchor account discriminators (base58, for memcmp filters)
+export const LB_PAIR_DISCRIMINATOR = '6XZoLajBWVJ';
+export const DAMM_POOL_DISCRIMINATOR = 'hQrXeCntzbV';
+
+// DLMM BinArray: disc(8) + index(i64) + version(u8) + pad(7) + lbPair(32) + 70 × Bin(144)
+export const BINS_PER_ARRAY = 70;
+const BINS_OFFSET = 56;
+const BIN_SIZE = 144;
+const BIN_ARRAY_SIZE = BINS_OFFSET + BINS_PER_ARRAY * BIN_SIZE;
+// Bin arrays loaded on each side of the active one
+const BIN_ARRAY_WINDOW = 2;
+// A swap instruction walks at most this many bin arrays in our builds
+export const DLMM_SWAP_BIN_ARRAYS = 3;
+
+// DLMM fee math (1e9 precision)
+const FEE_PRECISION = 1_000_000_000n;
+const MAX_FEE_RATE = 100_000_000n;
+const BASIS_POINT_MAX = 10_000;
+
+// Dynamic AMM pool / vault layout
+const DAMM_CURVE_TYPE_OFFSET = 874; // 0 = constant product, 1 = stable
+const LOCKED_PROFIT_DEGRADATION_DENOMINATOR = 1_000_000_000_000n;
+
+const HighPrecision = Decimal.clone({ precision: 50 });
+
+// ═══════════════════════════════════════════
+// DLMM (bin pools)
+// ═══════════════════════════════════════════
+
+export function binArrayIndex(binId: number): number {
+  return Math.floor(binId / BINS_PER_ARRAY);
+}
+
+/** Bin arrays kept loaded (and streamed) for a pair: BIN_ARRAY_WINDOW on each side of the centre one */
+export function dlmmBinArrayWindow(lbPair: PublicKey, centre: number): PublicKey[] {
+  const addresses: PublicKey[] = [];
+  for (let o = -BIN_ARRAY_WINDOW; o <= BIN_ARRAY_WINDOW; o++) addresses.push(dlmmBinArrayAddress(lbPair, centre + o));
+  return addresses;
+}
+
+/** Bin array PDA — the index seed is i64 little-endian bytes */
+export function dlmmBinArrayAddress(lbPair: PublicKey, index: number): PublicKey {
+  const seed = Buffer.alloc(8);
+  seed.writeBigInt64LE(BigInt(index));
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('bin_array'), lbPair.toBuffer(), seed],
+    PROGRAMS.METEORA_DLMM,
+  )[0];
+}
+
+export function dlmmBitmapExtensionAddress(lbPair: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('bitmap'), lbPair.toBuffer()],
+    PROGRAMS.METEORA_DLMM,
+  )[0];
+}
+
+export function dlmmEventAuthority(): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('__event_authority')],
+    PROGRAMS.METEORA_DLMM,
+  )[0];
+}
+
+/** Q64.64 price (token Y per token X) of a bin: (1 + binStep / 10000)^binId */
+export function dlmmBinPrice(binId: number, binStep: number): bigint {
+  const price = new HighPrecision(1).add(new HighPrecision(binStep).div(BASIS_POINT_MAX)).pow(binId);
+  return BigInt(price.mul(HighPrecision.pow(2, 64)).floor().toFixed(0));
+}
+
+/**
+ * Decode an LbPair account.
+ * StaticParameters @8, VariableParameters @40, activeId i32 @76, binStep u16 @80,
+ * status @82, tokenXMint @88, tokenYMint @120, reserveX @152, reserveY @184, oracle @552.
+ */
+export function decodeLbPair(data: Buffer) {
+  return {
+    baseFactor: data.readUInt16LE(8),
+    filterPeriod: data.readUInt16LE(10),
+    decayPeriod: data.readUInt16LE(12),
+    reductionFactor: data.readUInt16LE(14),
+    variableFeeControl: data.readUInt32LE(16),
+    maxVolatilityAccumulator: data.readUInt32LE(20),
+    baseFeePowerFactor: data.readUInt8(34),
+    volatilityAccumulator: data.readUInt32LE(40),
+    volatilityReference: data.readUInt32LE(44),
+    indexReference: data.readInt32LE(48),
+    lastUpdateTimestamp: Number(data.readBigInt64LE(56)),
+    activeId: data.readInt32LE(76),
+    binStep: data.readUInt16LE(80),
+    status: data.readUInt8(82),
+    tokenXMint: new PublicKey(data.subarray(88, 120)),
+    tokenYMint: new PublicKey(data.subarray(120, 152)),
+    reserveX: new PublicKey(data.subarray(152, 184)),
+    reserveY: new PublicKey(data.subarray(184, 216)),
+    oracle: new PublicKey(data.subarray(552, 584)),
+  };
+}
+
+/** Bins with any liquidity in a BinArray account */
+export function decodeBinArray(data: Buffer, binStep: number): { index: number; bins: Map<number, DlmmBin> } {
+  const index = Number(data.readBigInt64LE(8));
+  const bins = new Map<number, DlmmBin>();
+  for (let i = 0; i < BINS_PER_ARRAY; i++) {
+    const off = BINS_OFFSET + i * BIN_SIZE;
+    const amountX = data.readBigUInt64LE(off);
+    const amountY = data.readBigUInt64LE(off + 8);
+    if (amountX === 0n && amountY === 0n) continue;
+    const binId = index * BINS_PER_ARRAY + i;
+    const stored = (data.readBigUInt64LE(off + 24) << 64n) | data.readBigUInt64LE(off + 16);
+    bins.set(binId, { amountX, amountY, price: stored > 0n ? stored : dlmmBinPrice(binId, binStep) });
+  }
+  return { index, bins };
+}
+
+/**
+ * Bin arrays a swap in this direction walks through, nearest first
+ * (X→Y moves the active bin down, Y→X up; missing arrays are skipped).
+ */
+export function dlmmSwapBinArrayIndexes(state: DlmmState, swapForY: boolean): number[] {
+  const current = binArrayIndex(state.activeId);
+  const indexes = swapForY
+    ? state.binArrayIndexes.filter(i => i <= current).sort((a, b) => b - a)
+    : state.binArrayIndexes.filter(i => i >= current).sort((a, b) => a - b);
+  return indexes.slice(0, DLMM_SWAP_BIN_ARRAYS);
+}
+
+/** Update a pool from raw LbPair data (keeps the loaded bins). */
+export function applyLbPairAccount(pool: PoolInfo, data: Buffer): void {
+  const lb = decodeLbPair(data);
+  const prev = pool.dlmm;
+
+  pool.dlmm = {
+    binStep: lb.binStep,
+    activeId: lb.activeId,
+    baseFactor: lb.baseFactor,
+    baseFeePowerFactor: lb.baseFeePowerFactor,
+    variableFeeControl: lb.variableFeeControl,
+    maxVolatilityAccumulator: lb.maxVolatilityAccumulator,
+    volatilityAccumulator: lb.volatilityAccumulator,
+    volatilityReference: lb.volatilityReference,
+    indexReference: lb.indexReference,
+    filterPeriod: lb.filterPeriod,
+    decayPeriod: lb.decayPeriod,
+    reductionFactor: lb.reductionFactor,
+    lastUpdateTimestamp: lb.lastUpdateTimestamp,
+    binArrayIndexes: prev?.binArrayIndexes || [],
+    bins: prev?.bins || new Map(),
+  };
+  pool.fee = Math.ceil(Number(dlmmBaseFeeRate(pool.dlmm)) / 100_000); // 1e9 → bps
+  pool.tokenA = lb.tokenXMint;
+  pool.tokenB = lb.tokenYMint;
+  pool.vaultA = lb.reserveX;
+  pool.vaultB = lb.reserveY;
+  pool.oracle = lb.oracle;
+}
+
+/**
+ * Update a pair from raw BinArray data: the array's bins replace whatever
+ * was loaded for its range (keeps the other arrays). The bin map is replaced
+ * rather than mutated, as a reload would, so holders of the old one see no change.
+ */
+export function applyBinArrayAccount(pool: PoolInfo, address: PublicKey, data: Buffer): void {
+  if (!pool.dlmm || data.length < BIN_ARRAY_SIZE) return;
+  const array = decodeBinArray(data, pool.dlmm.binStep);
+  const first = array.index * BINS_PER_ARRAY;
+  const bins = new Map([...pool.dlmm.bins].filter(([id]) => id < first || id >= first + BINS_PER_ARRAY));
+  for (const [id, bin] of array.bins) bins.set(id, bin);
+  pool.dlmm.bins = bins;
+  if (!pool.dlmm.binArrayIndexes.includes(array.index)) pool.dlmm.binArrayIndexes = [...pool.dlmm.binArrayIndexes, array.index];
+  if (!pool.tickArrays?.some(a => a.equals(address))) pool.tickArrays = [...(pool.tickArrays || []), address];
+  setDlmmReserves(pool, bins);
+}
+
+/** (Re)load the bin arrays within BIN_ARRAY_WINDOW of each pair's active bin. */
+export async function loadDlmmBinArrays(connection: Connection, pools: PoolInfo[]): Promise<void> {
+  const requests: { pool: PoolInfo; address: PublicKey }[] = [];
+  for (const pool of pools) {
+    if (!pool.dlmm) continue;
+    for (const address of dlmmBinArrayWindow(pool.address, binArrayIndex(pool.dlmm.activeId))) requests.push({ pool, address });
+  }
+
+  const infos = await getMultipleAccounts(connection, requests.map(r => r.address));
+  type Loaded = { indexes: number[]; bins: Map<number, DlmmBin>; addresses: PublicKey[] };
+  const byPool = new Map<PoolInfo, Loaded>();
+  requests.forEach((req, i) => {
+    const entry: Loaded = byPool.get(req.pool) || { indexes: [], bins: new Map(), addresses: [] };
+    byPool.set(req.pool, entry);
+    const info = infos[i];
+    if (!info) return;
+    const array = decodeBinArray(info.data, req.pool.dlmm!.binStep);
+    entry.indexes.push(array.index);
+    entry.addresses.push(req.address);
+    for (const [id, bin] of array.bins) entry.bins.set(id, bin);
+  });
+
+  for (const [pool, entry] of byPool) {
+    pool.dlmm!.binArrayIndexes = entry.indexes;
+    pool.dlmm!.bins = entry.bins;
+    pool.tickArrays = entry.addresses;
+    setDlmmReserves(pool, entry.bins);
+  }
+}
+
+/** Liquidity near the active bin, for display / filtering — quotes walk the bins */
+function setDlmmReserves(pool: PoolInfo, bins: Map<number, DlmmBin>): void {
+  let x = 0n;
+  let y = 0n;
+  for (const bin of bins.values()) { x += bin.amountX; y += bin.amountY; }
+  pool.reserveA = new Decimal(x.toString());
+  pool.reserveB = new Decimal(y.toString());
+}
+
+/**
+ * Exact-input DLMM swap: consumes bins one by one from the active bin,
+ * with the base + variable fee recomputed per bin as the program does.
+ * Returns 0 if the swap would run past the bin arrays it can reference.
+ */
+export function quoteDlmm(
+  state: DlmmState, swapForY: boolean, amountIn: bigint, nowSec = Math.floor(Date.now() / 1000),
+): bigint {
+  if (amountIn <= 0n) return 0n;
+  const arrays = dlmmSwapBinArrayIndexes(state, swapForY);
+  if (arrays.length === 0) return 0n;
+
+  // Volatility references decay between swaps (filter / decay periods)
+  let { volatilityReference, indexReference } = state;
+  const elapsed = nowSec - state.lastUpdateTimestamp;
+  if (elapsed >= state.filterPeriod) {
+    indexReference = state.activeId;
+    volatilityReference = elapsed < state.decayPeriod
+      ? Math.floor((state.volatilityAccumulator * state.reductionFactor) / BASIS_POINT_MAX)
+      : 0;
+  }
+
+  let remaining = amountIn;
+  let out = 0n;
+  let activeId = state.activeId;
+  let arrayPos = arrays.indexOf(binArrayIndex(activeId));
+  if (arrayPos < 0) {
+    // Active bin's array doesn't exist — the program jumps to the next one
+    arrayPos = 0;
+    activeId = swapForY ? arrays[0] * BINS_PER_ARRAY + BINS_PER_ARRAY - 1 : arrays[0] * BINS_PER_ARRAY;
+  }
+
+  while (remaining > 0n) {
+    const bin = state.bins.get(activeId);
+    if (bin && (swapForY ? bin.amountY : bin.amountX) > 0n) {
+      const volatility = Math.min(
+        state.maxVolatilityAccumulator,
+        volatilityReference + Math.abs(indexReference - activeId) * BASIS_POINT_MAX,
+      );
+      const step = swapInBin(bin, swapForY, remaining, dlmmTotalFeeRate(state, volatility));
+      remaining -= step.amountIn;
+      out += step.amountOut;
+      if (remaining === 0n) break;
+    }
+
+    activeId += swapForY ? -1 : 1;
+    if (binArrayIndex(activeId) !== arrays[arrayPos]) {
+      arrayPos++;
+      if (arrayPos >= arrays.length) return 0n; // ran out of referenced bin arrays
+      if (binArrayIndex(activeId) !== arrays[arrayPos]) {
+        activeId = swapForY
+          ? arrays[arrayPos] * BINS_PER_ARRAY + BINS_PER_ARRAY - 1
+          : arrays[arrayPos] * BINS_PER_ARRAY;
+      }
+    }
+  }
+  return out;
+}
+
+function swapInBin(
+  bin: DlmmBin, swapForY: boolean, amountIn: bigint, feeRate: bigint,
+): { amountIn: bigint; amountOut: bigint } {
+  const maxOut = swapForY ? bin.amountY : bin.amountX;
+  const maxInExFee = swapForY ? ceilDiv(maxOut * Q64, bin.price) : ceilDiv(maxOut * bin.price, Q64);
+  const maxIn = maxInExFee + ceilDiv(maxInExFee * feeRate, FEE_PRECISION - feeRate);
+  if (amountIn >= maxIn) return { amountIn: maxIn, amountOut: maxOut };
+
+  const net = amountIn - ceilDiv(amountIn * feeRate, FEE_PRECISION);
+  const amountOut = swapForY ? (net * bin.price) / Q64 : (net * Q64) / bin.price;
+  return { amountIn, amountOut: amountOut > maxOut ? maxOut : amountOut };
+}
+
+function dlmmBaseFeeRate(state: DlmmState): bigint {
+  return BigInt(state.baseFactor) * BigInt(state.binStep) * 10n * 10n ** BigInt(state.baseFeePowerFactor);
+}
+
+/** Base + variable fee at a given volatility accumulator, 1e9 precision, capped at 10% */
+function dlmmTotalFeeRate(state: DlmmState, volatility: number): bigint {
+  let variable = 0n;
+  if (state.variableFeeControl > 0) {
+    const v = BigInt(volatility) * BigInt(state.binStep);
+    variable = (v * v * BigInt(state.variableFeeControl) + 99_999_999_999n) / 100_000_000_000n;
+  }
+  const total = dlmmBaseFeeRate(state) + variable;
+  return total > MAX_FEE_RATE ? MAX_FEE_RATE : total;
+}
+
+// ═══════════════════════════════════════════
+// Dynamic AMM (vault-backed constant product)
+// ═══════════════════════════════════════════
+
+/**
+ * Decode a dynamic AMM Pool account. The pool doesn't hold tokens directly:
+ * it holds LP tokens of two Meteora vaults (aVaultLp / bVaultLp).
+ */
+export function decodeDammPool(data: Buffer) {
+  return {
+    tokenAMint: new PublicKey(data.subarray(40, 72)),
+    tokenBMint: new PublicKey(data.subarray(72, 104)),
+    aVault: new PublicKey(data.subarray(104, 136)),
+    bVault: new PublicKey(data.subarray(136, 168)),
+    aVaultLp: new PublicKey(data.subarray(168, 200)),
+    bVaultLp: new PublicKey(data.subarray(200, 232)),
+    enabled: data[233] !== 0,
+    protocolTokenAFee: new PublicKey(data.subarray(234, 266)),
+    protocolTokenBFee: new PublicKey(data.subarray(266, 298)),
+    tradeFeeNumerator: data.readBigUInt64LE(330),
+    tradeFeeDenominator: data.readBigUInt64LE(338),
+    constantProduct: data.length > DAMM_CURVE_TYPE_OFFSET && data[DAMM_CURVE_TYPE_OFFSET] === 0,
+  };
+}
+
+/** Decode a Meteora vault: totalAmount @11, tokenVault @19, lpMint @115, locked profit tracker @1203. */
+export function decodeMeteoraVault(data: Buffer) {
+  return {
+    totalAmount: data.readBigUInt64LE(11),
+    tokenVault: new PublicKey(data.subarray(19, 51)),
+    lpMint: new PublicKey(data.subarray(115, 147)),
+    lastUpdatedLockedProfit: data.readBigUInt64LE(1203),
+    lastReport: data.readBigUInt64LE(1211),
+    lockedProfitDegradation: data.readBigUInt64LE(1219),
+  };
+}
+
+export type MeteoraVault = ReturnType<typeof decodeMeteoraVault>;
+
+/** Everything a dynamic AMM pool's reserves are computed from — each part lives in its own account */
+export interface DammReserveInputs {
+  vaultA?: MeteoraVault;
+  vaultB?: MeteoraVault;
+  lpA?: bigint;           // pool's LP token balance in each vault
+  lpB?: bigint;
+  supplyA?: bigint;       // each vault's LP mint supply
+  supplyB?: bigint;
+}
+
+/** Vault tokens that are withdrawable now (total less still-locked strategy profit) */
+function vaultWithdrawable(vault: MeteoraVault, nowSec: bigint): bigint {
+  const elapsed = nowSec > vault.lastReport ? nowSec - vault.lastReport : 0n;
+  const degraded = elapsed * vault.lockedProfitDegradation;
+  const locked = degraded >= LOCKED_PROFIT_DEGRADATION_DENOMINATOR
+    ? 0n
+    : (vault.lastUpdatedLockedProfit * (LOCKED_PROFIT_DEGRADATION_DENOMINATOR - degraded)) / LOCKED_PROFIT_DEGRADATION_DENOMINATOR;
+  return vault.totalAmount - locked;
+}
+
+/**
+ * Set dynamic AMM reserves from their inputs: pool token amount = pool's vault
+ * LP balance × vault withdrawable amount / vault LP supply. Returns false
+ * (pool untouched) until every input is known.
+ */
+export function applyDammReserves(pool: PoolInfo, inputs: DammReserveInputs, nowSec = BigInt(Math.floor(Date.now() / 1000))): boolean {
+  const { vaultA, vaultB, lpA, lpB, supplyA, supplyB } = inputs;
+  if (!vaultA || !vaultB || lpA === undefined || lpB === undefined || !supplyA || !supplyB) return false;
+  pool.reserveA = new Decimal(((lpA * vaultWithdrawable(vaultA, nowSec)) / supplyA).toString());
+  pool.reserveB = new Decimal(((lpB * vaultWithdrawable(vaultB, nowSec)) / supplyB).toString());
+  return true;
+}
+
+/** Update a dynamic AMM pool's fee from raw Pool data */
+export function applyDammPoolAccount(pool: PoolInfo, data: Buffer): void {
+  const d = decodeDammPool(data);
+  if (d.tradeFeeDenominator > 0n) {
+    pool.fee = Number(ceilDiv(d.tradeFeeNumerator * 10_000n, d.tradeFeeDenominator));
+  }
+}
+
+/**
+ * Load dynamic AMM reserves and fees, recording the vault accounts each pool's
+ * reserves derive from. Returns how many pools were refreshed.
+ */
+export async function loadDammReserves(connection: Connection, pools: PoolInfo[]): Promise<number> {
+  const poolInfos = await getMultipleAccounts(connection, pools.map(p => p.address));
+  const decoded = poolInfos.map(info => (info ? decodeDammPool(info.data) : null));
+
+  const keys: PublicKey[] = [];
+  decoded.forEach(d => { if (d) keys.push(d.aVault, d.bVault, d.aVaultLp, d.bVaultLp); });
+  const { infos, slot } = await getMultipleAccountsWithSlot(connection, keys);
+
+  const inputs = new Map<PoolInfo, DammReserveInputs & { vaultA: MeteoraVault; vaultB: MeteoraVault }>();
+  let k = 0;
+  pools.forEach((pool, i) => {
+    if (!decoded[i]) return;
+    const [aVault, bVault, aLp, bLp] = infos.slice(k, k + 4);
+    k += 4;
+    if (!aVault || !bVault || !aLp || !bLp) return;
+    inputs.set(pool, {
+      vaultA: decodeMeteoraVault(aVault.data),
+      vaultB: decodeMeteoraVault(bVault.data),
+      lpA: aLp.data.readBigUInt64LE(64),
+      lpB: bLp.data.readBigUInt64LE(64),
+    });
+  });
+
+  const entries = [...inputs.entries()];
+  const mintInfos = await getMultipleAccounts(connection, entries.flatMap(([, v]) => [v.vaultA.lpMint, v.vaultB.lpMint]));
+  let refreshed = 0;
+
+  entries.forEach(([pool, v], i) => {
+    const aMint = mintInfos[i * 2];
+    const bMint = mintInfos[i * 2 + 1];
+    if (!aMint || !bMint) return;
+    const d = decoded[pools.indexOf(pool)]!;
+    pool.damm = { aVault: d.aVault, bVault: d.bVault, aLpMint: v.vaultA.lpMint, bLpMint: v.vaultB.lpMint };
+    const reserves = { ...v, supplyA: aMint.data.readBigUInt64LE(36), supplyB: bMint.data.readBigUInt64LE(36) };
+    if (!applyDammReserves(pool, reserves)) return;
+
+    applyDammPoolAccount(pool, poolInfos[pools.indexOf(pool)]!.data);
+    pool.lastUpdate = Date.now();
+    pool.slot = slot;
+    refreshed++;
+  });
+  return refreshed;
+}
+
+// ═══════════════════════════════════════════
+// Discovery
+// ═══════════════════════════════════════════
+
+/**
+ * Find Meteora DLMM pairs and constant-product dynamic AMM pools between
+ * SOL and each token (getProgramAccounts + memcmp on the mint fields),
+ * then load bins / vault reserves.
+ */
+export async function fetchMeteoraPools(connection: Connection, mintPairs: [string, string][]): Promise<PoolInfo[]> {
+  const dlmm: MeteoraAccount[] = [];
+  const damm: MeteoraAccount[] = [];
+  let slot = Number.MAX_SAFE_INTEGER;
+
+  for (const [mint, quote] of mintPairs) {
+    try {
+      const [pairs, pools] = await Promise.all([
+        findPairAccounts(connection, PROGRAMS.METEORA_DLMM, LB_PAIR_DISCRIMINATOR, 88, 120, mint, quote),
+        findPairAccounts(connection, PROGRAMS.METEORA_DAMM, DAMM_POOL_DISCRIMINATOR, 40, 72, mint, quote),
+      ]);
+      dlmm.push(...pairs.accounts);
+      damm.push(...pools.accounts);
+      slot = Math.min(slot, pairs.slot);
+    } catch (e: any) {
+      console.log(`   ⚠️ Meteora lookup failed for ${mint.slice(0, 8)}...: ${e.message?.slice(0, 40)}`);
+    }
+    await new Promise(r => setTimeout(r, 200));
+  }
+
+  return buildMeteoraPools(connection, dlmm, damm, slot);
+}
+
+export interface MeteoraAccount {
+  pubkey: PublicKey;
+  account: { data: Buffer };
+}
+
+/**
+ * Decode LbPair / dynamic AMM pool accounts read at `slot` into pools, then
+ * load bins / vault reserves. Disabled, stable-curve and empty pools are dropped.
+ */
+export async function buildMeteoraPools(
+  connection: Connection, dlmm: MeteoraAccount[], damm: MeteoraAccount[], slot: number,
+): Promise<PoolInfo[]> {
+  const dlmmPools: PoolInfo[] = [];
+  const dammPools: PoolInfo[] = [];
+
+  for (const { pubkey, account } of dlmm) {
+    const lb = decodeLbPair(account.data);
+    if (lb.status !== 0) continue; // disabled pair
+    const pool = newMeteoraPool(pubkey, 'dlmm', lb.tokenXMint, lb.tokenYMint);
+    applyLbPairAccount(pool, account.data);
+    pool.slot = slot;
+    dlmmPools.push(pool);
+  }
+
+  for (const { pubkey, account } of damm) {
+    const d = decodeDammPool(account.data);
+    if (!d.enabled || !d.constantProduct) continue; // stable-curve pools use a different invariant
+    const pool = newMeteoraPool(pubkey, 'dynamic-amm', d.tokenAMint, d.tokenBMint);
+    pool.vaultA = d.aVaultLp; // pool's holdings are vault LP tokens — these change on every swap
+    pool.vaultB = d.bVaultLp;
+    dammPools.push(pool);
+  }
+
+  if (dlmmPools.length > 0) await loadDlmmBinArrays(connection, dlmmPools);
+  if (dammPools.length > 0) await loadDammReserves(connection, dammPools);
+
+  const pools = [
+    ...dlmmPools.filter(p => p.dlmm && p.dlmm.binArrayIndexes.length > 0),
+    ...dammPools.filter(p => p.reserveA.gt(0) && p.reserveB.gt(0)),
+  ];
+  for (const p of pools) console.log(`   ✅ meteora[${p.poolType}] ${pairLabel(p)} fee: ${p.fee} bps`);
+  console.log(`   Meteora total: ${pools.length}`);
+  return pools;
+}
+
+/** Accounts of `program` pairing the two mints, in either mint order, and the slot they were read at. */
+async function findPairAccounts(
+  connection: Connection, program: PublicKey, discriminator: string,
+  mintAOffset: number, mintBOffset: number, mint: string, quote: string,
+) {
+  const query = (a: string, b: string) => connection.getProgramAccounts(program, {
+    withContext: true,
+    filters: [
+      { memcmp: { offset: 0, bytes: discriminator } },
+      { memcmp: { offset: mintAOffset, bytes: a } },
+      { memcmp: { offset: mintBOffset, bytes: b } },
+    ],
+  });
+  const [forward, reverse] = await Promise.all([query(mint, quote), query(quote, mint)]);
+  return {
+    accounts: [...forward.value, ...reverse.value],
+    slot: Math.min(forward.context.slot, reverse.context.slot),
+  };
+}
+
+function newMeteoraPool(
+  address: PublicKey, poolType: 'dlmm' | 'dynamic-amm', tokenA: PublicKey, tokenB: PublicKey,
+): PoolInfo {
+  return {
+    address,
+    dex: 'meteora',
+    poolType,
+    tokenA,
+    tokenB,
+    reserveA: new Decimal(0),
+    reserveB: new Decimal(0),
+    fee: 0,
+    lastUpdate: Date.now(),
+  };
+}
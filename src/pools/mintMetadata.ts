@@ -0,0 +1,169 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { PoolInfo } from './types';
+import { getMultipleAccounts } from './concentratedLiquidity';
+
+// Token-2022 mint layout: base mint (82 bytes) padded to 165, account type @165, then TLV extensions
+const MINT_SIZE = 82;
+const ACCOUNT_TYPE_OFFSET = 165;
+const ACCOUNT_TYPE_MINT = 1;
+const EXT_TRANSFER_FEE_CONFIG = 1;
+const EXT_NON_TRANSFERABLE = 9;
+const EXT_PERMANENT_DELEGATE = 12;
+const EXT_TRANSFER_HOOK = 14;
+
+export interface TransferFee {
+  epoch: bigint;          // first epoch this fee applies in
+  maximumFee: bigint;
+  basisPoints: number;
+}
+
+/** Token-2022 transfer fee config: the fee in force and the one scheduled to replace it */
+export interface TransferFeeConfig {
+  older: TransferFee;
+  newer: TransferFee;
+}
+
+export interface MintMetadata {
+  mint: PublicKey;
+  tokenProgram: PublicKey;
+  decimals: number;
+  transferFee: TransferFeeConfig | null;
+  transferHookProgram: PublicKey | null;  // every transfer CPIs into this program
+  nonTransferable: boolean;
+  permanentDelegate: PublicKey | null;    // can move or burn anyone's balance
+}
+
+/** Mint account → metadata; legacy SPL mints simply have no extensions */
+export function parseMint(mint: PublicKey, owner: PublicKey, data: Buffer): MintMetadata | null {
+  if (data.length < MINT_SIZE) return null;
+  const meta: MintMetadata = {
+    mint,
+    tokenProgram: owner.equals(TOKEN_2022_PROGRAM_ID) ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID,
+    decimals: data[44],
+    transferFee: null,
+    transferHookProgram: null,
+    nonTransferable: false,
+    permanentDelegate: null,
+  };
+  if (!meta.tokenProgram.equals(TOKEN_2022_PROGRAM_ID) || data.length <= ACCOUNT_TYPE_OFFSET) return meta;
+  if (data[ACCOUNT_TYPE_OFFSET] !== ACCOUNT_TYPE_MINT) return meta;
+
+  // TLV entries: type u16, length u16, value
+  let offset = ACCOUNT_TYPE_OFFSET + 1;
+  while (offset + 4 <= data.length) {
+    const type = data.readUInt16LE(offset);
+    const length = data.readUInt16LE(offset + 2);
+    const value = data.subarray(offset + 4, offset + 4 + length);
+    if (type === 0) break; // uninitialized padding
+    if (type === EXT_TRANSFER_FEE_CONFIG) meta.transferFee = parseTransferFeeConfig(value);
+    else if (type === EXT_NON_TRANSFERABLE) meta.nonTransferable = true;
+    else if (type === EXT_PERMANENT_DELEGATE) meta.permanentDelegate = optionalKey(value, 0);
+    else if (type === EXT_TRANSFER_HOOK) meta.transferHookProgram = optionalKey(value, 32);
+    offset += 4 + length;
+  }
+  return meta;
+}
+
+/**
+ * Layout: config / withdraw authorities @0/32, withheld u64 @64,
+ * older fee {epoch u64, maximum u64, bps u16} @72, newer fee @90
+ */
+function parseTransferFeeConfig(value: Buffer): TransferFeeConfig | null {
+  if (value.length < 108) return null;
+  const fee = (at: number): TransferFee => ({
+    epoch: value.readBigUInt64LE(at),
+    maximumFee: value.readBigUInt64LE(at + 8),
+    basisPoints: value.readUInt16LE(at + 16),
+  });
+  return { older: fee(72), newer: fee(90) };
+}
+
+/** OptionalNonZeroPubkey: all zeros means unset */
+function optionalKey(value: Buffer, at: number): PublicKey | null {
+  if (value.length < at + 32) return null;
+  const key = new PublicKey(value.subarray(at, at + 32));
+  return key.equals(PublicKey.default) ? null : key;
+}
+
+/** Fee withheld from a transfer of `amount` at `epoch`: bps of the amount, rounded up, capped at the maximum */
+export function transferFeeAt(config: TransferFeeConfig, epoch: bigint, amount: bigint): bigint {
+  const fee = epoch >= config.newer.epoch ? config.newer : config.older;
+  if (fee.basisPoints === 0 || amount <= 0n) return 0n;
+  const raw = (amount * BigInt(fee.basisPoints) + 9999n) / 10000n;
+  return raw < fee.maximumFee ? raw : fee.maximumFee;
+}
+
+/** Token program of one of the pool's mints — legacy SPL Token until its mint is known to be Token-2022 */
+export function poolTokenProgram(pool: PoolInfo, mint: PublicKey): PublicKey {
+  const program = mint.equals(pool.tokenA) ? pool.tokenProgramA : mint.equals(pool.tokenB) ? pool.tokenProgramB : undefined;
+  return program ?? TOKEN_PROGRAM_ID;
+}
+
+/** The owner's ATA for one of the pool's mints, derived under that mint's token program */
+export function userTokenAccount(pool: PoolInfo, mint: PublicKey, owner: PublicKey) {
+  const tokenProgram = poolTokenProgram(pool, mint);
+  return { mint, ata: getAssociatedTokenAddressSync(mint, owner, false, tokenProgram), tokenProgram };
+}
+
+/**
+ * Decoded mint accounts for every token the bot trades: token program,
+ * decimals and the Token-2022 extensions that change what a swap delivers
+ * (transfer fees) or make a token unsafe to hold (hooks, permanent delegate,
+ * non-transferable). The epoch that picks the active transfer fee is
+ * re-read on every load().
+ */
+export class MintMetadataService {
+  private mints = new Map<string, MintMetadata>();
+  private epoch = 0n;
+
+  constructor(private connection: Connection) {}
+
+  /** Read any mints not loaded yet in one batched call and refresh the current epoch */
+  async load(mints: PublicKey[]): Promise<void> {
+    const missing = [...new Map(mints.map(m => [m.toBase58(), m])).values()].filter(m => !this.mints.has(m.toBase58()));
+    const [infos, epochInfo] = await Promise.all([
+      getMultipleAccounts(this.connection, missing),
+      this.connection.getEpochInfo(),
+    ]);
+    this.epoch = BigInt(epochInfo.epoch);
+    missing.forEach((mint, i) => {
+      const info = infos[i];
+      const meta = info && parseMint(mint, info.owner, info.data);
+      if (meta) this.mints.set(mint.toBase58(), meta);
+    });
+
+    for (const mint of missing) {
+      const restriction = this.restriction(mint);
+      if (restriction) console.log(`   ⚠️ ${mint.toBase58().slice(0, 8)}... ${restriction}`);
+    }
+  }
+
+  get(mint: PublicKey): MintMetadata | undefined {
+    return this.mints.get(mint.toBase58());
+  }
+
+  tokenProgram(mint: PublicKey): PublicKey {
+    return this.get(mint)?.tokenProgram ?? TOKEN_PROGRAM_ID;
+  }
+
+  ata(mint: PublicKey, owner: PublicKey): PublicKey {
+    return getAssociatedTokenAddressSync(mint, owner, false, this.tokenProgram(mint));
+  }
+
+  /** Fee withheld when `amount` of this mint is transferred (0 without a transfer fee extension) */
+  transferFee(mint: PublicKey, amount: bigint): bigint {
+    const config = this.get(mint)?.transferFee;
+    return config ? transferFeeAt(config, this.epoch, amount) : 0n;
+  }
+
+  /** Why holding this token is unsafe, or null if it isn't (or its mint isn't loaded) */
+  restriction(mint: PublicKey): string | null {
+    const meta = this.get(mint);
+    if (!meta) return null;
+    if (meta.nonTransferable) return 'is non-transferable';
+    if (meta.transferHookProgram) return `has a transfer hook (${meta.transferHookProgram.toBase58().slice(0, 8)}...)`;
+    if (meta.permanentDelegate) return `has a permanent delegate (${meta.permanentDelegate.toBase58().slice(0, 8)}...)`;
+    return null;
+  }
+}
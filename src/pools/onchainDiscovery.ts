@@ -0,0 +1,156 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PoolInfo } from './types';
+import { PROGRAMS, TOKENS, config } from '../config';
+import { getMultipleAccountsWithSlot } from './concentratedLiquidity';
+import { RAYDIUM_POOL_PROGRAMS, RaydiumFetcher } from './raydium';
+import { OrcaFetcher, WHIRLPOOL_POOL_PROGRAM } from './orca';
+import { PoolProgram, findPoolAddresses } from './programAccounts';
+import { loadPumpSwapPools } from './pumpswap';
+import { DAMM_POOL_DISCRIMINATOR, LB_PAIR_DISCRIMINATOR, MeteoraAccount, buildMeteoraPools } from './meteora';
+import { fetchPumpFunPools } from './pumpfun';
+import { discoveryPairs, pairLabel } from './pairs';
+
+// Bumped when what a scan covers changes, so older caches are rescanned
+const CACHE_VERSION = 2;
+
+type PoolKind = Pick<PoolInfo, 'dex' | 'poolType'>;
+
+const POOL_PROGRAMS: PoolProgram[] = [
+  ...RAYDIUM_POOL_PROGRAMS,
+  WHIRLPOOL_POOL_PROGRAM,
+  { dex: 'pumpswap', poolType: 'amm-v4', program: PROGRAMS.PUMPSWAP, filter: { dataSize: 301 }, mintAOffset: 43, mintBOffset: 75 },
+  { dex: 'meteora', poolType: 'dlmm', program: PROGRAMS.METEORA_DLMM, filter: { memcmp: { offset: 0, bytes: LB_PAIR_DISCRIMINATOR } }, mintAOffset: 88, mintBOffset: 120 },
+  { dex: 'meteora', poolType: 'dynamic-amm', program: PROGRAMS.METEORA_DAMM, filter: { memcmp: { offset: 0, bytes: DAMM_POOL_DISCRIMINATOR } }, mintAOffset: 40, mintBOffset: 72 },
+];
+
+interface CachedPool extends PoolKind {
+  address: string;
+}
+
+/**
+ * Pool addresses per mint, as found by the last scan of that mint against its
+ * quote mints (SOL and the bridge mints for tokens; SOL for a bridge mint)
+ */
+interface PoolAddressCache {
+  version: number;
+  updatedAt: number;
+  mints: Record<string, CachedPool[]>;
+}
+
+const cachePath = () => path.join(config.dataDir, 'pool-addresses.json');
+
+/**
+ * Pool discovery without third-party HTTP APIs: getProgramAccounts with
+ * memcmp filters on each program's mint fields finds every pool of each
+ * discovery pair (token/SOL, token/bridge, SOL/bridge), then RaydiumFetcher /
+ * OrcaFetcher and loadPumpSwapPools load the pools with batched reads.
+ * Addresses are cached in config.dataDir — with `useCache` only mints the
+ * cache doesn't know are scanned, so a restart costs a few batched reads.
+ * A mint whose scan fails keeps its cached addresses.
+ */
+export async function fetchPoolsOnChain(connection: Connection, tokenMints: string[], useCache = true): Promise<PoolInfo[]> {
+  const cache = loadCache();
+  const quotes = new Map<string, string[]>();
+  for (const [mint, quote] of discoveryPairs(tokenMints)) quotes.set(mint, [...(quotes.get(mint) ?? []), quote]);
+  const mints = [...quotes.keys()];
+  const toScan = useCache ? mints.filter(m => !cache.mints[m]) : mints;
+  if (toScan.length < mints.length) {
+    console.log(`   💾 ${mints.length - toScan.length} mints from pool cache`);
+  }
+
+  for (const mint of toScan) {
+    try {
+      cache.mints[mint] = await scanMint(connection, mint, quotes.get(mint)!);
+    } catch (e: any) {
+      console.log(`   ⚠️ On-chain scan failed for ${mint.slice(0, 8)}...: ${e.message?.slice(0, 40)}`);
+    }
+    await new Promise(r => setTimeout(r, 200));
+  }
+  if (toScan.length > 0) {
+    cache.updatedAt = Date.now();
+    saveCache(cache);
+  }
+
+  const byAddress = new Map(mints.flatMap(m => cache.mints[m] || []).map(e => [e.address, e]));
+  const entries = [...byAddress.values()];
+  const pools: PoolInfo[] = [];
+
+  try {
+    pools.push(...await buildPools(connection, entries.filter(e => e.dex !== 'meteora')));
+  } catch (e: any) {
+    console.log(`   ⚠️ Pool account read failed: ${e.message?.slice(0, 60)}`);
+  }
+
+  try {
+    pools.push(...await buildMeteora(connection, entries.filter(e => e.dex === 'meteora')));
+  } catch (e: any) {
+    console.log(`   ⚠️ Meteora fetch error: ${e.message?.slice(0, 60)}`);
+  }
+
+  // Bonding curves are PDAs of the mint — nothing to scan for
+  try {
+    pools.push(...await fetchPumpFunPools(connection, tokenMints));
+  } catch (e: any) {
+    console.log(`   ⚠️ PumpFun fetch error: ${e.message?.slice(0, 60)}`);
+  }
+
+  return pools;
+}
+
+/** Addresses of every known pool program's pools pairing `mint` with each quote mint, in either mint order */
+async function scanMint(connection: Connection, mint: string, quoteMints: string[]): Promise<CachedPool[]> {
+  const found: CachedPool[] = [];
+  for (const quote of quoteMints) {
+    for (const spec of POOL_PROGRAMS) {
+      if (spec.dex === 'pumpswap' && quote !== TOKENS.SOL.toBase58()) continue; // PumpSwap support assumes a SOL quote
+      const addresses = await findPoolAddresses(connection, spec, mint, quote);
+      for (const address of addresses) found.push({ address: address.toBase58(), dex: spec.dex, poolType: spec.poolType });
+    }
+  }
+  return found;
+}
+
+async function buildPools(connection: Connection, entries: CachedPool[]): Promise<PoolInfo[]> {
+  const addressesOf = (dex: PoolInfo['dex']) => entries.filter(e => e.dex === dex).map(e => new PublicKey(e.address));
+  const pools = [
+    ...await new RaydiumFetcher(connection).loadPools(addressesOf('raydium')),
+    ...await new OrcaFetcher(connection).loadPools(addressesOf('orca')),
+    ...await loadPumpSwapPools(connection, addressesOf('pumpswap')),
+  ];
+
+  for (const dex of ['raydium', 'orca', 'pumpswap'] as const) {
+    const found = pools.filter(p => p.dex === dex);
+    for (const p of found) console.log(`   ✅ ${dex}[${p.poolType}] ${pairLabel(p)} fee: ${p.fee} bps`);
+    console.log(`   ${dex} total: ${found.length}`);
+  }
+  return pools;
+}
+
+async function buildMeteora(connection: Connection, entries: CachedPool[]): Promise<PoolInfo[]> {
+  if (entries.length === 0) return [];
+  const { infos, slot } = await getMultipleAccountsWithSlot(connection, entries.map(e => new PublicKey(e.address)));
+  const dlmm: MeteoraAccount[] = [];
+  const damm: MeteoraAccount[] = [];
+  entries.forEach((entry, i) => {
+    const info = infos[i];
+    if (!info) return;
+    const account = { pubkey: new PublicKey(entry.address), account: { data: info.data } };
+    (entry.poolType === 'dlmm' ? dlmm : damm).push(account);
+  });
+  return buildMeteoraPools(connection, dlmm, damm, slot);
+}
+
+function loadCache(): PoolAddressCache {
+  try {
+    const cache: PoolAddressCache = JSON.parse(fs.readFileSync(cachePath(), 'utf8'));
+    if (cache.version === CACHE_VERSION) return cache;
+  } catch {}
+  return { version: CACHE_VERSION, updatedAt: 0, mints: {} };
+}
+
+function saveCache(cache: PoolAddressCache): void {
+  fs.mkdirSync(path.dirname(cachePath()), { recursive: true });
+  fs.writeFileSync(cachePath(), JSON.stringify(cache, null, 2));
+}
@@ -1,64 +1,65 @@
 import { Connection, PublicKey } from '@solana/web3.js';
 import Decimal from 'decimal.js';
-import { PoolInfo } from './types';
+import { ConcentratedState, InitializedTick, PoolInfo } from './types';
 import { PROGRAMS } from '../config';
+import { getMultipleAccounts, getMultipleAccountsWithSlot, readU128, simulateExactIn, virtualReserves } from './concentratedLiquidity';
+import { PoolProgram, findPoolAddresses } from './programAccounts';
 
 // Orca Whirlpool account layout
 const WHIRLPOOL_SIZE = 653;
 
+// Tick arrays: 88 ticks each; fixed layout is disc(8) + start(i32) + 88 × Tick(113) + whirlpool(32)
+export const TICKS_PER_ARRAY = 88;
+const FIXED_TICK_ARRAY_SIZE = 9988;
+const TICK_SIZE = 113;
+
+/** Whirlpool program and its mint offsets, for memcmp discovery */
+export const WHIRLPOOL_POOL_PROGRAM: PoolProgram = {
+  dex: 'orca', poolType: 'whirlpool', program: PROGRAMS.ORCA_WHIRLPOOL,
+  filter: { dataSize: WHIRLPOOL_SIZE }, mintAOffset: 101, mintBOffset: 181,
+};
+
 export class OrcaFetcher {
   constructor(private connection: Connection) {}
 
+  /** Whirlpools pairing the two mints, in either order */
   async getPoolsByTokenPair(tokenA: PublicKey, tokenB: PublicKey): Promise<PoolInfo[]> {
-    const accounts = await this.connection.getProgramAccounts(PROGRAMS.ORCA_WHIRLPOOL, {
-      filters: [
-        { dataSize: WHIRLPOOL_SIZE },
-      ],
-    });
+    const addresses = await findPoolAddresses(this.connection, WHIRLPOOL_POOL_PROGRAM, tokenA.toBase58(), tokenB.toBase58());
+    return this.loadPools(addresses);
+  }
 
-    const pools: PoolInfo[] = [];
+  /**
+   * Decode Whirlpools from their addresses with batched reads — pool accounts,
+   * then the tick arrays around the current tick — and set the oracle PDA, so
+   * the swap builder needs no reads of its own. Pools without liquidity are dropped.
+   */
+  async loadPools(addresses: PublicKey[]): Promise<PoolInfo[]> {
+    if (addresses.length === 0) return [];
+    const { infos, slot } = await getMultipleAccountsWithSlot(this.connection, addresses);
 
-    for (const { pubkey, account } of accounts) {
-      try {
-        const data = account.data;
-
-        // Whirlpool layout: tokenMintA at offset 101, tokenMintB at offset 181
-        const mintA = new PublicKey(data.slice(101, 133));
-        const mintB = new PublicKey(data.slice(181, 213));
-
-        const matchForward = mintA.equals(tokenA) && mintB.equals(tokenB);
-        const matchReverse = mintA.equals(tokenB) && mintB.equals(tokenA);
-
-        if (!matchForward && !matchReverse) continue;
-
-        // Token vaults: vaultA at offset 133, vaultB at offset 213
-        const vaultA = new PublicKey(data.slice(133, 165));
-        const vaultB = new PublicKey(data.slice(213, 245));
-
-        const [balA, balB] = await Promise.all([
-          this.connection.getTokenAccountBalance(vaultA),
-          this.connection.getTokenAccountBalance(vaultB),
-        ]);
-
-        // Fee rate from whirlpool data (u16 at offset 65)
-        const feeRate = data.readUInt16LE(65); // in hundredths of a bip
-
-        pools.push({
-          address: pubkey,
-          dex: 'orca',
-          poolType: 'whirlpool',
-          tokenA: mintA,
-          tokenB: mintB,
-          reserveA: new Decimal(balA.value.amount),
-          reserveB: new Decimal(balB.value.amount),
-          fee: Math.ceil(feeRate / 100), // convert to bps
-          lastUpdate: Date.now(),
-        });
-      } catch (e) {
-        continue;
-      }
-    }
+    const pools: PoolInfo[] = [];
+    addresses.forEach((address, i) => {
+      const info = infos[i];
+      if (!info || !info.owner.equals(PROGRAMS.ORCA_WHIRLPOOL) || info.data.length < WHIRLPOOL_SIZE) return;
+      if (decodeWhirlpool(info.data).liquidity === 0n) return;
+      const pool: PoolInfo = {
+        address,
+        dex: 'orca',
+        poolType: 'whirlpool',
+        tokenA: PublicKey.default,
+        tokenB: PublicKey.default,
+        reserveA: new Decimal(0),
+        reserveB: new Decimal(0),
+        fee: 0,
+        lastUpdate: Date.now(),
+        slot,
+        oracle: whirlpoolOracleAddress(address),
+      };
+      applyWhirlpoolAccount(pool, info.data);
+      pools.push(pool);
+    });
 
+    await loadWhirlpoolTickArrays(this.connection, pools);
     return pools;
   }
 
@@ -81,3 +82,175 @@ export class OrcaFetcher {
     return numerator.div(denominator).floor();
   }
 }
+
+// ═══════════════════════════════════════════
+// Whirlpool state + tick-accurate quotes
+// ═══════════════════════════════════════════
+
+export function tickArrayStartIndex(tick: number, tickSpacing: number): number {
+  const arraySpacing = tickSpacing * TICKS_PER_ARRAY;
+  return Math.floor(tick / arraySpacing) * arraySpacing;
+}
+
+/** Tick array PDA — the start index seed is its decimal STRING, not bytes */
+export function tickArrayAddress(pool: PublicKey, startIndex: number): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('tick_array'), pool.toBuffer(), Buffer.from(startIndex.toString())],
+    PROGRAMS.ORCA_WHIRLPOOL,
+  )[0];
+}
+
+export function whirlpoolOracleAddress(pool: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync([Buffer.from('oracle'), pool.toBuffer()], PROGRAMS.ORCA_WHIRLPOOL)[0];
+}
+
+/** Start indexes of the three tick arrays a swap in this direction walks through */
+export function swapTickArrayStarts(tickCurrentIndex: number, tickSpacing: number, aToB: boolean): number[] {
+  const arraySpacing = tickSpacing * TICKS_PER_ARRAY;
+  const start = tickArrayStartIndex(tickCurrentIndex, tickSpacing);
+  return (aToB ? [0, -1, -2] : [0, 1, 2]).map(o => start + o * arraySpacing);
+}
+
+/**
+ * Decode the swap-relevant fields of a Whirlpool account.
+ * Layout: tickSpacing u16 @41, feeRate u16 @45, liquidity u128 @49,
+ * sqrtPrice u128 @65, tickCurrentIndex i32 @81.
+ */
+export function decodeWhirlpool(data: Buffer) {
+  return {
+    tickSpacing: data.readUInt16LE(41),
+    feeRate: data.readUInt16LE(45),
+    liquidity: readU128(data, 49),
+    sqrtPrice: readU128(data, 65),
+    tickCurrentIndex: data.readInt32LE(81),
+    tokenMintA: new PublicKey(data.subarray(101, 133)),
+    vaultA: new PublicKey(data.subarray(133, 165)),
+    tokenMintB: new PublicKey(data.subarray(181, 213)),
+    vaultB: new PublicKey(data.subarray(213, 245)),
+  };
+}
+
+/** Initialized ticks in a tick array (fixed or dynamic layout) */
+export function decodeTickArray(data: Buffer, tickSpacing: number): InitializedTick[] {
+  const start = data.readInt32LE(8);
+  const ticks: InitializedTick[] = [];
+
+  if (data.length === FIXED_TICK_ARRAY_SIZE) {
+    for (let i = 0; i < TICKS_PER_ARRAY; i++) {
+      const off = 12 + i * TICK_SIZE;
+      if (data[off] !== 1) continue;
+      ticks.push({ index: start + i * tickSpacing, liquidityNet: BigInt.asIntN(128, readU128(data, off + 1)) });
+    }
+    return ticks;
+  }
+
+  // Dynamic layout: start(i32) + whirlpool(32) + bitmap(u128), then a tag byte per tick,
+  // followed by the 112-byte tick body only when initialized
+  let off = 60;
+  for (let i = 0; i < TICKS_PER_ARRAY && off < data.length; i++) {
+    const initialized = data[off] === 1;
+    off += 1;
+    if (!initialized) continue;
+    ticks.push({ index: start + i * tickSpacing, liquidityNet: BigInt.asIntN(128, readU128(data, off)) });
+    off += TICK_SIZE - 1;
+  }
+  return ticks;
+}
+
+/**
+ * Update a pool from raw Whirlpool account data (keeps the loaded ticks).
+ * Returns true if the price moved into a different tick array, i.e. the
+ * loaded arrays should be re-fetched.
+ */
+export function applyWhirlpoolAccount(pool: PoolInfo, data: Buffer): boolean {
+  const wp = decodeWhirlpool(data);
+  const prev = pool.concentrated;
+
+  pool.concentrated = {
+    tickSpacing: wp.tickSpacing,
+    feeRate: wp.feeRate,
+    liquidity: wp.liquidity,
+    sqrtPrice: wp.sqrtPrice,
+    tickCurrentIndex: wp.tickCurrentIndex,
+    tickArrayStarts: prev?.tickArrayStarts || [],
+    ticks: prev?.ticks || [],
+  };
+  pool.sqrtPriceX64 = new Decimal(wp.sqrtPrice.toString());
+  pool.fee = Math.ceil(wp.feeRate / 100);
+  pool.tokenA = wp.tokenMintA;
+  pool.tokenB = wp.tokenMintB;
+  pool.vaultA = wp.vaultA;
+  pool.vaultB = wp.vaultB;
+
+  const reserves = virtualReserves(wp.liquidity, wp.sqrtPrice);
+  if (reserves) Object.assign(pool, reserves);
+
+  return !prev || tickArrayStartIndex(prev.tickCurrentIndex, prev.tickSpacing)
+    !== tickArrayStartIndex(wp.tickCurrentIndex, wp.tickSpacing);
+}
+
+/**
+ * Load on-chain state for Whirlpools: the pool accounts, then the five tick
+ * arrays around the current tick (enough for three in either direction).
+ * Batched getMultipleAccountsInfo. Returns how many pools were loaded.
+ */
+export async function loadWhirlpoolStates(connection: Connection, pools: PoolInfo[]): Promise<number> {
+  const { infos, slot } = await getMultipleAccountsWithSlot(connection, pools.map(p => p.address));
+  const loaded: PoolInfo[] = [];
+  pools.forEach((pool, i) => {
+    const info = infos[i];
+    if (!info || info.data.length < WHIRLPOOL_SIZE) return;
+    applyWhirlpoolAccount(pool, info.data);
+    pool.slot = slot;
+    loaded.push(pool);
+  });
+
+  await loadWhirlpoolTickArrays(connection, loaded);
+  return loaded.length;
+}
+
+/** (Re)load the tick arrays around each pool's current tick. */
+export async function loadWhirlpoolTickArrays(connection: Connection, pools: PoolInfo[]): Promise<void> {
+  const requests: { pool: PoolInfo; start: number; address: PublicKey }[] = [];
+  for (const pool of pools) {
+    const state = pool.concentrated;
+    if (!state) continue;
+    const arraySpacing = state.tickSpacing * TICKS_PER_ARRAY;
+    const start = tickArrayStartIndex(state.tickCurrentIndex, state.tickSpacing);
+    for (let o = -2; o <= 2; o++) {
+      const s = start + o * arraySpacing;
+      requests.push({ pool, start: s, address: tickArrayAddress(pool.address, s) });
+    }
+  }
+
+  const infos = await getMultipleAccounts(connection, requests.map(r => r.address));
+  const byPool = new Map<PoolInfo, { starts: number[]; ticks: InitializedTick[]; addresses: PublicKey[] }>();
+  requests.forEach((req, i) => {
+    const entry = byPool.get(req.pool) || { starts: [], ticks: [], addresses: [] };
+    byPool.set(req.pool, entry);
+    const info = infos[i];
+    if (!info) return;
+    entry.starts.push(req.start);
+    entry.addresses.push(req.address);
+    entry.ticks.push(...decodeTickArray(info.data, req.pool.concentrated!.tickSpacing));
+  });
+
+  for (const [pool, entry] of byPool) {
+    pool.concentrated!.tickArrayStarts = entry.starts;
+    pool.concentrated!.ticks = entry.ticks.sort((a, b) => a.index - b.index);
+    pool.tickArrays = entry.addresses;
+  }
+}
+
+/**
+ * Exact-input Whirlpool swap across initialized ticks. Returns 0 if the swap
+ * would run past the three tick arrays a single swap instruction can reference.
+ */
+export function quoteWhirlpool(state: ConcentratedState, aToB: boolean, amountIn: bigint): bigint {
+  const starts = swapTickArrayStarts(state.tickCurrentIndex, state.tickSpacing, aToB);
+  if (!starts.every(s => state.tickArrayStarts.includes(s))) return 0n;
+
+  const arraySpacing = state.tickSpacing * TICKS_PER_ARRAY;
+  const boundary = aToB ? starts[2] : starts[2] + arraySpacing - state.tickSpacing;
+  return simulateExactIn(state, aToB, amountIn, boundary);
+}
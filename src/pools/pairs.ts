@@ -0,0 +1,58 @@
+import { BRIDGE_MINTS, TOKENS } from '../config';
+import { PoolInfo } from './types';
+
+const SOL = TOKENS.SOL.toBase58();
+const BRIDGES = BRIDGE_MINTS.map(m => m.toBase58());
+const NAMES = new Map([[SOL, 'SOL'], [TOKENS.USDC.toBase58(), 'USDC'], [TOKENS.USDT.toBase58(), 'USDT']]);
+
+// SOL/bridge pairs have dozens of pools per DEX; the deepest few are enough to close cycles
+const BRIDGE_POOLS_PER_DEX = 2;
+
+/**
+ * Mint pairs discovery looks for: each token against SOL and every bridge
+ * mint (X/USDC, X/USDT), plus SOL against every bridge mint — the hops a
+ * triangular cycle SOL → X → bridge → SOL needs.
+ */
+export function discoveryPairs(tokenMints: string[]): [string, string][] {
+  const pairs = new Map<string, [string, string]>();
+  const add = (a: string, b: string) => {
+    if (a !== b) pairs.set(pairKey(a, b), [a, b]);
+  };
+  for (const mint of tokenMints) {
+    add(mint, SOL);
+    for (const bridge of BRIDGES) add(mint, bridge);
+  }
+  for (const bridge of BRIDGES) add(bridge, SOL);
+  return [...pairs.values()];
+}
+
+/** Order-independent key of a mint pair, for matching pools against discoveryPairs */
+export function pairKey(a: string, b: string): string {
+  return [a, b].sort().join(':');
+}
+
+/** A pool that pairs SOL with a bridge mint (rather than with a traded token) */
+export function isBridgePool(pool: PoolInfo): boolean {
+  const [a, b] = [pool.tokenA.toBase58(), pool.tokenB.toBase58()];
+  return (a === SOL && BRIDGES.includes(b)) || (b === SOL && BRIDGES.includes(a));
+}
+
+/** Keep only the deepest SOL/bridge pools per DEX and pair (by SOL reserve); other pools pass through */
+export function keepDeepestBridgePools(pools: PoolInfo[]): PoolInfo[] {
+  const groups = new Map<string, PoolInfo[]>();
+  for (const pool of pools.filter(isBridgePool)) {
+    const key = `${pool.dex}:${pairKey(pool.tokenA.toBase58(), pool.tokenB.toBase58())}`;
+    groups.set(key, [...(groups.get(key) ?? []), pool]);
+  }
+  const solReserve = (p: PoolInfo) => (p.tokenA.toBase58() === SOL ? p.reserveA : p.reserveB);
+  const kept = new Set([...groups.values()].flatMap(group =>
+    group.sort((x, y) => solReserve(y).cmp(solReserve(x))).slice(0, BRIDGE_POOLS_PER_DEX)));
+  return pools.filter(p => !isBridgePool(p) || kept.has(p));
+}
+
+/** "SOL/USDC", "SOL/DezXAZ8z..." — well-known mints by name, others shortened */
+export function pairLabel(pool: PoolInfo): string {
+  const name = (mint: string) => NAMES.get(mint) ?? `${mint.slice(0, 8)}...`;
+  const [a, b] = [pool.tokenA.toBase58(), pool.tokenB.toBase58()];
+  return NAMES.has(b) && !NAMES.has(a) ? `${name(b)}/${name(a)}` : `${name(a)}/${name(b)}`;
+}
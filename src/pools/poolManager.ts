@@ -1,20 +1,78 @@
 import { Connection, PublicKey } from '@solana/web3.js';
 import Decimal from 'decimal.js';
-import { PoolInfo, PriceQuote } from './types';
+import { PoolInfo, PoolSnapshot, PriceQuote, RouteHop, SlotSource } from './types';
+import { config } from '../config';
 import { fetchPoolsFromAPIs } from './registry';
+import { fetchPoolsOnChain } from './onchainDiscovery';
+import { loadWhirlpoolStates, quoteWhirlpool } from './orca';
+import { loadClmmStates, quoteRaydiumClmm } from './raydiumClmm';
+import { dlmmBinPrice, quoteDlmm } from './meteora';
+import { quoteBondingCurve } from './pumpfun';
+import { quotePumpSwap } from './pumpswap';
+import { MintMetadataService } from './mintMetadata';
+import { keepDeepestBridgePools } from './pairs';
 
 export class PoolManager {
   private pools: PoolInfo[] = [];
+  readonly mints: MintMetadataService;
 
-  constructor(private connection: Connection) {}
+  constructor(private connection: Connection, private slots: SlotSource | null = null) {
+    this.mints = new MintMetadataService(connection);
+  }
 
   async init(tokenMints: string[]): Promise<PoolInfo[]> {
-    console.log('📡 Fetching pools from DEX APIs...\n');
-    this.pools = await fetchPoolsFromAPIs(tokenMints, this.connection);
+    console.log(config.discoveryMode === 'onchain' ? '📡 Fetching pools on-chain...\n' : '📡 Fetching pools from DEX APIs...\n');
+    this.pools = await this.fetchPools(tokenMints, true);
+
+    await this.loadConcentratedState(this.pools);
+    await this.loadMints(this.pools);
+
     console.log(`\n📊 ${this.pools.length} pools ready`);
     return this.pools;
   }
 
+  /**
+   * Re-run discovery and merge the result into the known pool set. Known
+   * pools keep their PoolInfo objects (the stream and strategies hold them);
+   * new ones get their on-chain state loaded. A pool is only dropped when
+   * discovery listed other pools of the same DEX and pair but not this one,
+   * so a failed API call doesn't wipe a DEX's pools.
+   */
+  async discover(tokenMints: string[]): Promise<{ added: PoolInfo[]; removed: PoolInfo[] }> {
+    const found = await this.fetchPools(tokenMints, false);
+    const foundKeys = new Set(found.map(p => p.address.toBase58()));
+    const answered = new Set(found.map(p => this.pairKey(p)));
+    const known = new Set(this.pools.map(p => p.address.toBase58()));
+
+    const added: PoolInfo[] = [];
+    for (const pool of found) {
+      const key = pool.address.toBase58();
+      if (known.has(key)) continue;
+      known.add(key);
+      added.push(pool);
+    }
+    const removed = this.pools.filter(p => answered.has(this.pairKey(p)) && !foundKeys.has(p.address.toBase58()));
+
+    this.pools = [...this.pools.filter(p => !removed.includes(p)), ...added];
+    if (added.length > 0) {
+      await this.loadConcentratedState(added);
+      await this.loadMints(added);
+    }
+
+    console.log(`🔎 Discovery: +${added.length} / -${removed.length} pools (${this.pools.length} tracked)`);
+    return { added, removed };
+  }
+
+  /** Track pools that come from somewhere other than discovery (e.g. a replayed recording) */
+  add(pools: PoolInfo[]): void {
+    this.pools.push(...pools);
+  }
+
+  /** Stop tracking pools that can no longer trade (e.g. a graduated bonding curve) */
+  retire(pools: PoolInfo[]): void {
+    this.pools = this.pools.filter(p => !pools.includes(p));
+  }
+
   getPoolsForPair(tokenA: PublicKey, tokenB: PublicKey): PoolInfo[] {
     return this.pools.filter(p =>
       (p.tokenA.equals(tokenA) && p.tokenB.equals(tokenB)) ||
@@ -34,15 +92,23 @@ export class PoolManager {
 
     let outputAmount: Decimal;
 
-    // For Orca whirlpools, use API price directly (most accurate, no RPC needed)
-    if (pool.orcaApiPrice && pool.orcaApiPrice.gt(0)) {
+    // Token-2022 transfer fees: the pool receives the input less its fee, we receive the output less its fee
+    const rawIn = BigInt(inputAmount.floor().toFixed(0));
+    const amountIn = rawIn - this.mints.transferFee(inputMint, rawIn);
+    const swapIn = new Decimal(amountIn.toString());
+
+    const exact = this.exactQuote(pool, isForward, amountIn);
+    if (exact !== null) {
+      outputAmount = new Decimal(exact.toString());
+    } else if (pool.orcaApiPrice && pool.orcaApiPrice.gt(0)) {
+      // No on-chain state: fall back to the Orca API price (linear, no impact)
       // orcaApiPrice = tokenB per tokenA in HUMAN units
       // Convert to raw: rawPrice = apiPrice * 10^decimalsB / 10^decimalsA
       const decA = pool.decimalsA || 9;
       const decB = pool.decimalsB || 9;
       const rawPrice = pool.orcaApiPrice.mul(new Decimal(10).pow(decB)).div(new Decimal(10).pow(decA));
       const feeMultiplier = new Decimal(10000 - pool.fee).div(10000);
-      const effectiveIn = inputAmount.mul(feeMultiplier);
+      const effectiveIn = swapIn.mul(feeMultiplier);
 
       if (isForward) {
         outputAmount = effectiveIn.mul(rawPrice).floor();
@@ -54,7 +120,7 @@ export class PoolManager {
       const sqrtPrice = pool.sqrtPriceX64.div(Q64);
       const price = sqrtPrice.mul(sqrtPrice);
       const feeMultiplier = new Decimal(10000 - pool.fee).div(10000);
-      const effectiveIn = inputAmount.mul(feeMultiplier);
+      const effectiveIn = swapIn.mul(feeMultiplier);
 
       if (isForward) {
         outputAmount = effectiveIn.mul(price).floor();
@@ -62,16 +128,187 @@ export class PoolManager {
         outputAmount = effectiveIn.div(price).floor();
       }
     } else {
-      outputAmount = this.getAmountOut(inputAmount, reserveIn, reserveOut, pool.fee);
+      outputAmount = this.getAmountOut(swapIn, reserveIn, reserveOut, pool.fee);
+    }
+
+    if (outputAmount.gt(0)) {
+      const rawOut = BigInt(outputAmount.floor().toFixed(0));
+      outputAmount = new Decimal((rawOut - this.mints.transferFee(outputMint, rawOut)).toString());
     }
 
     const actualRate = inputAmount.isZero() ? new Decimal(0) : outputAmount.div(inputAmount);
-    const idealRate = reserveIn.isZero() ? new Decimal(0) : reserveOut.div(reserveIn);
+    const idealRate = this.getSpotPrice(pool, outputMint);
     const priceImpact = idealRate.isZero() ? new Decimal(0) : new Decimal(1).minus(actualRate.div(idealRate));
 
     return { pool, inputMint, outputMint, inputAmount, outputAmount, priceImpact, effectivePrice: actualRate };
   }
 
+  /**
+   * Exact output from the pool's on-chain state using its DEX's own math, or
+   * null when no state is loaded and getQuote has to approximate.
+   */
+  private exactQuote(pool: PoolInfo, isForward: boolean, amountIn: bigint): bigint | null {
+    if (pool.bondingCurve && pool.pumpfun) {
+      // Pump.fun: tokenA is SOL, so forward is a buy
+      return quoteBondingCurve(pool.bondingCurve, pool.pumpfun, isForward, amountIn);
+    }
+    if (pool.pumpswap) {
+      // PumpSwap: constant product over the vault balances, fees per the global config
+      const reserveBase = BigInt(pool.reserveA.floor().toFixed(0));
+      const reserveQuote = BigInt(pool.reserveB.floor().toFixed(0));
+      return quotePumpSwap(pool.pumpswap, reserveBase, reserveQuote, isForward, amountIn);
+    }
+    if (pool.concentrated) {
+      // Whirlpool / CLMM: tick-by-tick simulation
+      return pool.dex === 'orca'
+        ? quoteWhirlpool(pool.concentrated, isForward, amountIn)
+        : quoteRaydiumClmm(pool.concentrated, isForward, amountIn);
+    }
+    if (pool.dlmm) {
+      // Meteora DLMM: walk the loaded bins
+      return quoteDlmm(pool.dlmm, isForward, amountIn);
+    }
+    return null;
+  }
+
+  /**
+   * Marginal (fee-less) price of `baseMint` per unit of the other token, in raw units.
+   * Used for comparing pools against each other, not for sizing trades.
+   */
+  getSpotPrice(pool: PoolInfo, baseMint: PublicKey): Decimal {
+    let bPerA: Decimal;
+    if (pool.dlmm) {
+      const active = pool.dlmm.bins.get(pool.dlmm.activeId);
+      const price = active ? active.price : dlmmBinPrice(pool.dlmm.activeId, pool.dlmm.binStep);
+      bPerA = new Decimal(price.toString()).div(new Decimal(2).pow(64));
+    } else if ((pool.poolType === 'whirlpool' || pool.poolType === 'clmm') && pool.sqrtPriceX64) {
+      const sqrtPrice = pool.sqrtPriceX64.div(new Decimal(2).pow(64));
+      bPerA = sqrtPrice.mul(sqrtPrice);
+    } else if (pool.orcaApiPrice && pool.orcaApiPrice.gt(0)) {
+      const decA = pool.decimalsA || 9;
+      const decB = pool.decimalsB || 9;
+      bPerA = pool.orcaApiPrice.mul(new Decimal(10).pow(decB)).div(new Decimal(10).pow(decA));
+    } else {
+      if (pool.reserveA.isZero()) return new Decimal(0);
+      bPerA = pool.reserveB.div(pool.reserveA);
+    }
+    if (bPerA.isZero()) return bPerA;
+    return pool.tokenB.equals(baseMint) ? bPerA : new Decimal(1).div(bPerA);
+  }
+
+  /**
+   * Quote a multi-hop route by chaining each hop's output into the next hop's input.
+   * Returns the final output amount (0 if any hop yields nothing).
+   */
+  quoteRoute(route: RouteHop[], inputAmount: Decimal): Decimal {
+    let amount = inputAmount;
+    for (const hop of route) {
+      amount = this.getQuote(hop.pool, hop.inputMint, amount).outputAmount;
+      if (amount.lte(0)) return new Decimal(0);
+    }
+    return amount;
+  }
+
+  /**
+   * Pool states as of now, each tagged with the slot it was last decoded at.
+   * States are deep copies (ticks and bins included), so later stream
+   * updates don't change a snapshot.
+   */
+  snapshot(pools: PoolInfo[] = this.pools): PoolSnapshot[] {
+    return pools.map(pool => ({
+      pool: {
+        ...pool,
+        concentrated: pool.concentrated && {
+          ...pool.concentrated,
+          tickArrayStarts: [...pool.concentrated.tickArrayStarts],
+          ticks: pool.concentrated.ticks.map(tick => ({ ...tick })),
+        },
+        dlmm: pool.dlmm && {
+          ...pool.dlmm,
+          binArrayIndexes: [...pool.dlmm.binArrayIndexes],
+          bins: new Map([...pool.dlmm.bins].map(([id, bin]) => [id, { ...bin }])),
+        },
+      },
+      slot: pool.slot ?? null,
+    }));
+  }
+
+  /**
+   * Largest gap between the slots the pools are known current through, or
+   * null if any pool has no slot yet. A pool is current through its decode
+   * slot, or the slot the stream has since observed it unchanged through.
+   */
+  slotSpread(pools: PoolInfo[]): number | null {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const pool of pools) {
+      if (pool.slot === undefined) return null;
+      const slot = Math.max(pool.slot, this.slots?.observedSlot(pool) ?? pool.slot);
+      min = Math.min(min, slot);
+      max = Math.max(max, slot);
+    }
+    return pools.length === 0 ? 0 : max - min;
+  }
+
+  /**
+   * Whether pools may be priced against each other in one opportunity: all
+   * current within config.maxSlotSpread slots of each other. Always true
+   * unless config.requireSlotConsistency is on.
+   */
+  slotsConsistent(pools: PoolInfo[]): boolean {
+    if (!config.requireSlotConsistency) return true;
+    const spread = this.slotSpread(pools);
+    return spread !== null && spread <= config.maxSlotSpread;
+  }
+
+  /** Decode the pools' mints and tag each pool with its token programs */
+  private async loadMints(pools: PoolInfo[]): Promise<void> {
+    try {
+      await this.mints.load(pools.flatMap(p => [p.tokenA, p.tokenB]));
+    } catch (e: any) {
+      console.log(`   ⚠️ Mint metadata load failed: ${e.message?.slice(0, 60)}`);
+      return;
+    }
+    for (const pool of pools) {
+      pool.tokenProgramA = this.mints.tokenProgram(pool.tokenA);
+      pool.tokenProgramB = this.mints.tokenProgram(pool.tokenB);
+    }
+  }
+
+  private pairKey(pool: PoolInfo): string {
+    const [a, b] = [pool.tokenA.toBase58(), pool.tokenB.toBase58()].sort();
+    return `${pool.dex}:${a}:${b}`;
+  }
+
+  /**
+   * Discovery per config.discoveryMode; on-chain mode may answer from its
+   * address cache. Of the many SOL/bridge pools only the deepest are kept.
+   */
+  private async fetchPools(tokenMints: string[], useCache: boolean): Promise<PoolInfo[]> {
+    const pools = config.discoveryMode === 'onchain'
+      ? await fetchPoolsOnChain(this.connection, tokenMints, useCache)
+      : await fetchPoolsFromAPIs(tokenMints, this.connection);
+    return keepDeepestBridgePools(pools);
+  }
+
+  /** Tick state for concentrated pools discovery didn't already load (the on-chain fetchers do) */
+  private async loadConcentratedState(pools: PoolInfo[]): Promise<void> {
+    pools = pools.filter(p => !p.concentrated);
+    const groups = [
+      { name: 'Whirlpool', pools: pools.filter(p => p.dex === 'orca'), load: loadWhirlpoolStates },
+      { name: 'Raydium CLMM', pools: pools.filter(p => p.dex === 'raydium' && p.poolType === 'clmm'), load: loadClmmStates },
+    ];
+    for (const { name, pools, load } of groups) {
+      if (pools.length === 0) continue;
+      try {
+        const loaded = await load(this.connection, pools);
+        console.log(`   🌀 ${name} tick state loaded for ${loaded}/${pools.length} pools`);
+      } catch (e: any) {
+        console.log(`   ⚠️ ${name} state load failed, using API prices: ${e.message?.slice(0, 60)}`);
+      }
+    }
+  }
+
   private getAmountOut(amountIn: Decimal, reserveIn: Decimal, reserveOut: Decimal, feeBps: number): Decimal {
     const feeMultiplier = new Decimal(10000 - feeBps).div(10000);
     const effectiveIn = amountIn.mul(feeMultiplier);
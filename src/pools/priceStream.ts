@@ -1,118 +1,412 @@
 import { Connection, PublicKey } from '@solana/web3.js';
 import Decimal from 'decimal.js';
-import { PoolInfo } from './types';
+import { PoolInfo, SlotSource } from './types';
+import { applyWhirlpoolAccount, loadWhirlpoolTickArrays } from './orca';
+import { applyClmmAccount, loadClmmTickArrays } from './raydiumClmm';
+import {
+  DammReserveInputs, applyBinArrayAccount, applyDammPoolAccount, applyDammReserves, applyLbPairAccount,
+  binArrayIndex, decodeMeteoraVault, dlmmBinArrayWindow, loadDlmmBinArrays,
+} from './meteora';
+import { CPMM_POOL_SIZE, decodeAmmV4State, decodeCpmmPool } from './raydium';
+import { parseBondingCurve, pumpFunFeeBps } from './pumpfun';
+import { getMultipleAccountsWithSlot } from './concentratedLiquidity';
+import { AccountStream, StreamLag, createAccountStream } from './accountStream';
 
 /**
- * Real-time price stream via Solana WebSocket subscriptions.
- * Subscribes to pool account changes so reserves update live.
+ * One subscribed account and how its data updates the pool. An apply that
+ * has to load accounts the stream doesn't carry yet returns the load; the
+ * update only counts (slot, lastUpdate, onUpdate) once it has finished.
  */
-export class PriceStream {
-  private subscriptions: number[] = [];
+interface AccountWatch {
+  pool: PoolInfo;
+  address: PublicKey;
+  apply: (data: Buffer) => void | Promise<void>;
+}
+
+/** Vault-backed pools: last seen vault balances and the amounts the program excludes from them */
+interface VaultReserves {
+  balanceA?: bigint;
+  balanceB?: bigint;
+  excludedA: bigint;
+  excludedB: bigint;
+}
+
+/**
+ * Real-time price stream over a pluggable account feed (RPC WebSocket or
+ * Yellowstone gRPC, see accountStream.ts). Every update is decoded from the notification's account data — no
+ * follow-up RPC or API calls — so reserves move in the slot the trade landed:
+ *   - Raydium AMM V4 / CPMM: pool state (owed pnl / fees) + both vault token accounts
+ *   - Raydium CLMM / Orca Whirlpool: sqrtPrice, liquidity and tick from the pool account
+ *   - Pump.fun: bonding curve state (virtual / real reserves, completion)
+ *   - PumpSwap: both vault token accounts
+ *   - Meteora DLMM: LbPair (active bin, fees) + the bin arrays around the active bin
+ *   - Meteora dynamic AMM: both Meteora vaults, the pool's vault LP accounts and the LP mints
+ */
+export class PriceStream implements SlotSource {
   private onUpdate: ((pool: PoolInfo) => void) | null = null;
+  private onGraduated: ((pool: PoolInfo) => void) | null = null;
+  private vaultReserves = new Map<PoolInfo, VaultReserves>();
+  private watches = new Map<PoolInfo, AccountWatch[]>();
+  private poolStates = new Map<string, Buffer>(); // latest data of watched pool-state accounts
+  private dammInputs = new Map<PoolInfo, DammReserveInputs>();
+  private dlmmWindows = new Map<PoolInfo, number>();        // bin array index the watched window is centred on
+  private dlmmLoads = new Map<PoolInfo, Promise<void>>();   // window reloads in flight
 
-  constructor(private connection: Connection) {}
+  constructor(private connection: Connection, private stream: AccountStream = createAccountStream(connection)) {}
 
   /**
-   * Subscribe to account changes for all pool addresses.
-   * When a pool's on-chain state changes (trade happens),
-   * we re-fetch reserves and trigger a callback.
+   * Subscribe to every account that determines a pool's price and open the
+   * stream. Pools discovered later are added with addPools(). `onGraduated`
+   * fires once when a Pump.fun curve completes and its liquidity moves to PumpSwap.
    */
-  async subscribe(pools: PoolInfo[], onUpdate: (pool: PoolInfo) => void): Promise<void> {
+  async subscribe(
+    pools: PoolInfo[],
+    onUpdate: (pool: PoolInfo) => void,
+    onGraduated?: (pool: PoolInfo) => void,
+  ): Promise<void> {
     this.onUpdate = onUpdate;
-    console.log(`📡 Subscribing to ${pools.length} pool accounts via WebSocket...`);
+    this.onGraduated = onGraduated ?? null;
+    await this.addPools(pools);
+
+    const accountCount = [...this.watches.values()].reduce((n, w) => n + w.length, 0);
+    console.log(`📡 Subscribing to ${accountCount} accounts for ${pools.length} pools via ${this.stream.name} stream...`);
+    const active = await this.stream.start();
+    console.log(`   ✅ ${active} subscriptions active\n`);
+  }
+
+  /**
+   * Start watching pools. Vault-backed pools are seeded with one batched
+   * read first so the first notification on any of their accounts already
+   * yields full reserves.
+   */
+  async addPools(pools: PoolInfo[]): Promise<void> {
+    // Pool state gives the vault addresses, so it's read before the vaults
+    const statePools = pools.filter(p => p.dex === 'raydium' && (p.poolType === 'amm-v4' || p.poolType === 'cpmm'));
+    await this.applyCurrent(statePools.map(p => ({ pool: p, address: p.address, apply: (data: Buffer) => this.applyRaydiumState(p, data) })));
+
+    for (const pool of pools) this.watches.set(pool, this.watchesFor(pool));
+    await this.applyCurrent([...statePools, ...pools.filter(p => p.dex === 'pumpswap' || p.poolType === 'dynamic-amm')]
+      .flatMap(p => this.watches.get(p)!.filter(w => !w.address.equals(p.address))));
 
     for (const pool of pools) {
-      try {
-        const subId = this.connection.onAccountChange(
-          pool.address,
-          (accountInfo) => {
-            try {
-              this.handleAccountUpdate(pool, accountInfo.data);
-            } catch {}
-          },
-          'confirmed'
-        );
-        this.subscriptions.push(subId);
-      } catch (e: any) {
-        console.log(`   ⚠️ Failed to subscribe to ${pool.dex} ${pool.address.toBase58().slice(0, 8)}...`);
+      for (const watch of this.watches.get(pool)!) {
+        this.stream.watch(watch.address, (data, slot) => this.handleAccountUpdate(watch, data, slot));
       }
     }
+  }
+
+  /** Stop watching pools that are no longer tracked */
+  removePools(pools: PoolInfo[]): void {
+    for (const pool of pools) {
+      for (const watch of this.watches.get(pool) || []) this.stream.unwatch(watch.address);
+      this.watches.delete(pool);
+      this.vaultReserves.delete(pool);
+      this.dammInputs.delete(pool);
+      this.dlmmWindows.delete(pool);
+      this.poolStates.delete(pool.address.toBase58());
+    }
+  }
+
+  /**
+   * Re-read every watched account in one batched pass and apply it in place —
+   * the backstop for missed notifications. Returns how many pools were refreshed.
+   */
+  async refresh(): Promise<number> {
+    const pools = [...this.watches.keys()];
+    await this.applyCurrent(pools.flatMap(p => this.watches.get(p)!));
+    return pools.length;
+  }
+
+  /**
+   * A pool's state account as last delivered by the stream or a refresh —
+   * undefined until one arrives or if the pool's own account isn't watched.
+   */
+  poolAccountData(address: PublicKey): Buffer | undefined {
+    return this.poolStates.get(address.toBase58());
+  }
+
+  /**
+   * Newest slot the pool's state is known current through: the oldest slot
+   * any of its watched accounts has been observed unchanged through. Null if
+   * one of them isn't subscribed (or nothing has arrived on the stream yet).
+   */
+  observedSlot(pool: PoolInfo): number | null {
+    const watches = this.watches.get(pool);
+    if (!watches || watches.length === 0) return null;
+    let observed = Infinity;
+    for (const watch of watches) {
+      const slot = this.stream.observedSlot(watch.address);
+      if (slot === null) return null;
+      observed = Math.min(observed, slot);
+    }
+    return observed;
+  }
+
+  /** Smoothed delay between a slot appearing on the stream and our account updates for it */
+  lag(): StreamLag {
+    return this.stream.lag();
+  }
+
+  /** Accounts to watch for a pool, with the decoder for each */
+  private watchesFor(pool: PoolInfo): AccountWatch[] {
+    const vaultWatches = (): AccountWatch[] => (pool.vaultA && pool.vaultB ? [
+      { pool, address: pool.vaultA, apply: data => this.applyVaultBalance(pool, 'A', data) },
+      { pool, address: pool.vaultB, apply: data => this.applyVaultBalance(pool, 'B', data) },
+    ] : []);
+
+    switch (pool.dex) {
+      case 'raydium':
+        if (pool.poolType === 'clmm') {
+          return [{ pool, address: pool.address, apply: data => this.parseClmmUpdate(pool, data) }];
+        }
+        return [{ pool, address: pool.address, apply: data => this.applyRaydiumState(pool, data) }, ...vaultWatches()];
+      case 'orca':
+        return [{ pool, address: pool.address, apply: data => this.parseOrcaUpdate(pool, data) }];
+      case 'pumpfun':
+        return [{ pool, address: pool.address, apply: data => this.parseBondingCurveUpdate(pool, data) }];
+      case 'pumpswap':
+        return vaultWatches();
+      case 'meteora':
+        return pool.poolType === 'dlmm' ? this.dlmmWatches(pool) : this.dammWatches(pool);
+    }
+  }
 
-    console.log(`   ✅ ${this.subscriptions.length} subscriptions active\n`);
+  /** Meteora DLMM: the LbPair plus the bin arrays in the window around its active bin */
+  private dlmmWatches(pool: PoolInfo): AccountWatch[] {
+    const watches: AccountWatch[] = [{ pool, address: pool.address, apply: data => this.parseLbPairUpdate(pool, data) }];
+    if (!pool.dlmm) return watches;
+    if (!this.dlmmWindows.has(pool)) this.dlmmWindows.set(pool, binArrayIndex(pool.dlmm.activeId));
+    for (const address of dlmmBinArrayWindow(pool.address, this.dlmmWindows.get(pool)!)) {
+      watches.push({
+        pool,
+        address,
+        apply: data => {
+          applyBinArrayAccount(pool, address, data);
+          return this.dlmmLoads.get(pool);
+        },
+      });
+    }
+    return watches;
   }
 
-  private handleAccountUpdate(pool: PoolInfo, data: Buffer): void {
-    // Parse reserves from account data based on DEX type
+  /**
+   * Meteora dynamic AMM: reserves are the pool's LP share of two Meteora
+   * vaults, so watch both vaults, the pool's LP token accounts and the LP
+   * mints (supply), plus the pool itself for its fee.
+   */
+  private dammWatches(pool: PoolInfo): AccountWatch[] {
+    const watches: AccountWatch[] = [{ pool, address: pool.address, apply: data => applyDammPoolAccount(pool, data) }];
+    const { damm, vaultA, vaultB } = pool;
+    if (!damm || !vaultA || !vaultB) return watches;
+    const part = (address: PublicKey, decode: (data: Buffer) => DammReserveInputs): AccountWatch => ({
+      pool,
+      address,
+      apply: data => {
+        const inputs = { ...this.dammInputs.get(pool), ...decode(data) };
+        this.dammInputs.set(pool, inputs);
+        applyDammReserves(pool, inputs);
+      },
+    });
+    return [
+      ...watches,
+      part(damm.aVault, data => ({ vaultA: decodeMeteoraVault(data) })),
+      part(damm.bVault, data => ({ vaultB: decodeMeteoraVault(data) })),
+      part(vaultA, data => ({ lpA: data.readBigUInt64LE(64) })),
+      part(vaultB, data => ({ lpB: data.readBigUInt64LE(64) })),
+      part(damm.aLpMint, data => ({ supplyA: data.readBigUInt64LE(36) })),
+      part(damm.bLpMint, data => ({ supplyB: data.readBigUInt64LE(36) })),
+    ];
+  }
+
+  /** Apply current account data for a set of watches with one batched read */
+  private async applyCurrent(watches: AccountWatch[]): Promise<void> {
+    if (watches.length === 0) return;
     try {
-      if (pool.dex === 'raydium') {
-        this.parseRaydiumUpdate(pool, data);
-      } else if (pool.dex === 'orca') {
-        this.parseOrcaUpdate(pool, data);
-      }
+      const { infos, slot } = await getMultipleAccountsWithSlot(this.connection, watches.map(w => w.address));
+      const pending: Promise<void>[] = [];
+      watches.forEach((w, i) => {
+        const info = infos[i];
+        if (!info) return;
+        try {
+          const load = w.apply(info.data);
+          const applied = () => {
+            this.keepPoolState(w, info.data);
+            this.stampSlot(w.pool, slot);
+            w.pool.lastUpdate = Date.now();
+          };
+          if (load) pending.push(load.then(applied, () => {}));
+          else applied();
+        } catch {}
+      });
+      await Promise.all(pending);
+    } catch (e: any) {
+      console.log(`   ⚠️ Batched account read failed: ${e.message?.slice(0, 60)}`);
+    }
+  }
 
+  private handleAccountUpdate(watch: AccountWatch, data: Buffer, slot: number): void {
+    const { pool } = watch;
+    const applied = () => {
+      this.keepPoolState(watch, data);
+      this.stampSlot(pool, slot);
       pool.lastUpdate = Date.now();
 
       if (this.onUpdate) {
         this.onUpdate(pool);
       }
+    };
+    try {
+      const load = watch.apply(data);
+      if (load) load.then(applied, () => {});
+      else applied();
     } catch {}
   }
 
+  private keepPoolState(watch: AccountWatch, data: Buffer): void {
+    if (watch.address.equals(watch.pool.address)) this.poolStates.set(watch.address.toBase58(), data);
+  }
+
+  /** Updates can arrive out of order across accounts; a pool's slot only moves forward */
+  private stampSlot(pool: PoolInfo, slot: number): void {
+    if (slot > (pool.slot ?? 0)) pool.slot = slot;
+  }
+
   /**
-   * Raydium AMM V4: parse token amounts from pool state
-   * The pool account stores current reserve amounts
+   * Raydium AMM V4 / CPMM pool state: the vault addresses plus the amounts
+   * sitting in the vaults that aren't tradable (pnl / protocol, fund and
+   * creator fees). Reserves are recomputed against the last vault balances.
    */
-  private parseRaydiumUpdate(pool: PoolInfo, data: Buffer): void {
-    // Raydium AMM V4 pool state layout varies by version
-    // For CLMM (Concentrated): different layout
-    // We'll use a simpler approach: re-fetch via RPC on change notification
-    this.refetchReserves(pool);
+  private applyRaydiumState(pool: PoolInfo, data: Buffer): void {
+    let vaults: { mintA: PublicKey; vaultA: PublicKey; vaultB: PublicKey; excludedA: bigint; excludedB: bigint };
+    if (pool.poolType === 'cpmm') {
+      if (data.length < CPMM_POOL_SIZE) return;
+      const s = decodeCpmmPool(data);
+      vaults = { mintA: s.mint0, vaultA: s.vault0, vaultB: s.vault1, excludedA: s.feesOwed0, excludedB: s.feesOwed1 };
+    } else {
+      const s = decodeAmmV4State(data);
+      vaults = { mintA: s.coinMint, vaultA: s.coinVault, vaultB: s.pcVault, excludedA: s.needTakePnlCoin, excludedB: s.needTakePnlPc };
+      if (s.swapFeeDenominator > 0n) pool.fee = Number((s.swapFeeNumerator * 10000n) / s.swapFeeDenominator);
+    }
+
+    // Keep the pool's token order; the program's order may be the reverse
+    const flipped = !vaults.mintA.equals(pool.tokenA);
+    pool.vaultA = flipped ? vaults.vaultB : vaults.vaultA;
+    pool.vaultB = flipped ? vaults.vaultA : vaults.vaultB;
+
+    const state = this.vaultState(pool);
+    state.excludedA = flipped ? vaults.excludedB : vaults.excludedA;
+    state.excludedB = flipped ? vaults.excludedA : vaults.excludedB;
+    this.applyVaultReserves(pool, state);
+  }
+
+  /** SPL token account: amount is the u64 at offset 64 */
+  private applyVaultBalance(pool: PoolInfo, side: 'A' | 'B', data: Buffer): void {
+    if (data.length < 72) return;
+    const state = this.vaultState(pool);
+    if (side === 'A') state.balanceA = data.readBigUInt64LE(64);
+    else state.balanceB = data.readBigUInt64LE(64);
+    this.applyVaultReserves(pool, state);
+  }
+
+  private vaultState(pool: PoolInfo): VaultReserves {
+    let state = this.vaultReserves.get(pool);
+    if (!state) {
+      state = { excludedA: 0n, excludedB: 0n };
+      this.vaultReserves.set(pool, state);
+    }
+    return state;
+  }
+
+  private applyVaultReserves(pool: PoolInfo, state: VaultReserves): void {
+    if (state.balanceA === undefined || state.balanceB === undefined) return;
+    const reserveA = state.balanceA - state.excludedA;
+    const reserveB = state.balanceB - state.excludedB;
+    if (reserveA <= 0n || reserveB <= 0n) return;
+    pool.reserveA = new Decimal(reserveA.toString());
+    pool.reserveB = new Decimal(reserveB.toString());
   }
 
   /**
-   * Orca Whirlpool: parse sqrtPrice from pool state
+   * Raydium CLMM: decode price / liquidity directly. Tick arrays are only
+   * re-fetched when the price crosses into a different array.
+   */
+  private parseClmmUpdate(pool: PoolInfo, data: Buffer): void {
+    if (applyClmmAccount(pool, data)) {
+      loadClmmTickArrays(this.connection, [pool]).catch(() => {});
+    }
+  }
+
+  /**
+   * Orca Whirlpool: decode sqrtPrice / liquidity / tick straight from the
+   * account. Tick arrays are only re-fetched when the price crosses into
+   * a different array.
    */
   private parseOrcaUpdate(pool: PoolInfo, data: Buffer): void {
-    // Whirlpool stores sqrtPriceX64 — complex to parse for reserves
-    // Simpler: re-fetch on notification
-    this.refetchReserves(pool);
+    if (applyWhirlpoolAccount(pool, data)) {
+      loadWhirlpoolTickArrays(this.connection, [pool]).catch(() => {});
+    }
   }
 
   /**
-   * Fallback: on any account change notification, re-query the Raydium/Orca
-   * API for updated reserves. This is triggered by WebSocket, so it's
-   * still real-time — just using HTTP to get clean data.
+   * Pump.fun: the bonding curve account holds the reserves the curve prices
+   * against. A curve flipping to complete has graduated — it quotes zero from
+   * here on and the owner is told so it can retire the pool.
    */
-  private async refetchReserves(pool: PoolInfo): Promise<void> {
-    try {
-      if (pool.dex === 'raydium') {
-        const url = `https://api-v3.raydium.io/pools/info/ids?ids=${pool.address.toBase58()}`;
-        const resp = await fetch(url);
-        if (!resp.ok) return;
-        const data: any = await resp.json();
-        if (!data.success || !data.data?.[0]) return;
-
-        const p = data.data[0];
-        const decimalsA = p.mintA?.decimals || 9;
-        const decimalsB = p.mintB?.decimals || 9;
-
-        pool.reserveA = new Decimal(p.mintAmountA).mul(new Decimal(10).pow(decimalsA)).floor();
-        pool.reserveB = new Decimal(p.mintAmountB).mul(new Decimal(10).pow(decimalsB)).floor();
-      }
-      // For Orca, individual pool endpoint would be needed
-      // For now, Orca reserves stay at initial values (updated less frequently)
+  private parseBondingCurveUpdate(pool: PoolInfo, data: Buffer): void {
+    const curve = parseBondingCurve(data);
+    if (!curve) return;
+    const graduated = curve.complete && !pool.bondingCurve?.complete;
+    pool.bondingCurve = curve;
+    if (pool.pumpfun) pool.fee = pumpFunFeeBps(pool.pumpfun, curve);
+    pool.reserveA = new Decimal(curve.virtualSolReserves.toString());
+    pool.reserveB = new Decimal(curve.virtualTokenReserves.toString());
+    if (graduated && this.onGraduated) this.onGraduated(pool);
+  }
 
-      pool.lastUpdate = Date.now();
-    } catch {}
+  /**
+   * Meteora DLMM: decode the active bin / fee parameters from the LbPair.
+   * Bins stream in on their own accounts; only when the active bin leaves
+   * the watched window's centre array is the window reloaded and re-watched.
+   */
+  private parseLbPairUpdate(pool: PoolInfo, data: Buffer): Promise<void> | undefined {
+    applyLbPairAccount(pool, data);
+    const pending = this.dlmmLoads.get(pool);
+    if (pending || binArrayIndex(pool.dlmm!.activeId) === this.dlmmWindows.get(pool)) return pending;
+
+    const load = this.moveDlmmWindow(pool).finally(() => this.dlmmLoads.delete(pool));
+    this.dlmmLoads.set(pool, load);
+    return load;
   }
 
-  async unsubscribeAll(): Promise<void> {
-    for (const subId of this.subscriptions) {
-      try {
-        await this.connection.removeAccountChangeListener(subId);
-      } catch {}
+  /** Load the bin arrays around the pair's active bin and swap the watched arrays over to them */
+  private async moveDlmmWindow(pool: PoolInfo): Promise<void> {
+    const centre = binArrayIndex(pool.dlmm!.activeId);
+    await loadDlmmBinArrays(this.connection, [pool]);
+    const current = this.watches.get(pool);
+    if (!current) return; // removed meanwhile
+    this.dlmmWindows.set(pool, centre);
+
+    const next = this.dlmmWatches(pool);
+    const wanted = new Set(next.map(w => w.address.toBase58()));
+    const kept = new Set<string>();
+    for (const watch of current) {
+      if (wanted.has(watch.address.toBase58())) kept.add(watch.address.toBase58());
+      else this.stream.unwatch(watch.address);
     }
-    this.subscriptions = [];
-    console.log('📡 All WebSocket subscriptions removed');
+    const added = next.filter(w => !kept.has(w.address.toBase58()));
+    this.watches.set(pool, [...current.filter(w => kept.has(w.address.toBase58())), ...added]);
+    for (const watch of added) {
+      this.stream.watch(watch.address, (data, slot) => this.handleAccountUpdate(watch, data, slot));
+    }
+  }
+
+  async unsubscribeAll(): Promise<void> {
+    await this.stream.close();
+    this.watches.clear();
+    this.vaultReserves.clear();
+    this.dammInputs.clear();
+    this.dlmmWindows.clear();
+    this.poolStates.clear();
+    console.log(`📡 All ${this.stream.name} stream subscriptions removed`);
   }
 }
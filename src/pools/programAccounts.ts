@@ -0,0 +1,39 @@
+import { Connection, GetProgramAccountsFilter, PublicKey } from '@solana/web3.js';
+import { PoolInfo } from './types';
+import { getMultipleAccounts } from './concentratedLiquidity';
+
+/** A program's pool accounts: how to recognise them and where the two mints live */
+export interface PoolProgram {
+  dex: PoolInfo['dex'];
+  poolType: PoolInfo['poolType'];
+  program: PublicKey;
+  filter: GetProgramAccountsFilter;
+  mintAOffset: number;
+  mintBOffset: number;
+}
+
+/**
+ * Addresses of `spec` pools pairing the two mints, in either order.
+ * getProgramAccounts with memcmp on both mint fields and an empty data slice,
+ * so the RPC only returns pubkeys — read the accounts in a batch afterwards.
+ */
+export async function findPoolAddresses(
+  connection: Connection, spec: PoolProgram, mintA: string, mintB: string,
+): Promise<PublicKey[]> {
+  const query = (a: string, b: string) => connection.getProgramAccounts(spec.program, {
+    dataSlice: { offset: 0, length: 0 },
+    filters: [
+      spec.filter,
+      { memcmp: { offset: spec.mintAOffset, bytes: a } },
+      { memcmp: { offset: spec.mintBOffset, bytes: b } },
+    ],
+  });
+  const [forward, reverse] = await Promise.all([query(mintA, mintB), query(mintB, mintA)]);
+  return [...forward, ...reverse].map(({ pubkey }) => pubkey);
+}
+
+/** SPL token account balances (u64 @64) with one batched read; missing accounts read as 0 */
+export async function readTokenBalances(connection: Connection, accounts: PublicKey[]): Promise<bigint[]> {
+  const infos = await getMultipleAccounts(connection, accounts);
+  return infos.map(info => (info && info.data.length >= 72 ? info.data.readBigUInt64LE(64) : 0n));
+}
@@ -1,20 +1,13 @@
 import { Connection, PublicKey } from '@solana/web3.js';
 import { getAssociatedTokenAddressSync } from '@solana/spl-token';
 import Decimal from 'decimal.js';
-import { PoolInfo } from './types';
+import { BondingCurveData, PoolInfo, PumpFunState } from './types';
+import { PUMPSWAP_FEE_PROGRAM } from './pumpswap';
 
 export const PUMPFUN_PROGRAM = new PublicKey('6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P');
 export const PUMPFUN_FEE_RECIPIENT = new PublicKey('CebN5WGQ4jvEPvsVU4EoHEpgzq1VV7AbCJ1w8Tt5KwKc');
 const SOL_MINT = new PublicKey('So11111111111111111111111111111111111111112');
-
-export interface BondingCurveData {
-  virtualTokenReserves: bigint;
-  virtualSolReserves: bigint;
-  realTokenReserves: bigint;
-  realSolReserves: bigint;
-  tokenTotalSupply: bigint;
-  complete: boolean;
-}
+const GLOBAL_SIZE = 162;
 
 export function getBondingCurvePDA(mint: PublicKey): PublicKey {
   return PublicKey.findProgramAddressSync(
@@ -37,8 +30,38 @@ export function getEventAuthorityPDA(): PublicKey {
   )[0];
 }
 
+export function getCreatorVaultPDA(creator: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('creator-vault'), creator.toBuffer()],
+    PUMPFUN_PROGRAM,
+  )[0];
+}
+
+export function getPumpFunGlobalVolumeAccumulator(): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('global_volume_accumulator')],
+    PUMPFUN_PROGRAM,
+  )[0];
+}
+
+export function getPumpFunUserVolumeAccumulator(user: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('user_volume_accumulator'), user.toBuffer()],
+    PUMPFUN_PROGRAM,
+  )[0];
+}
+
+export function getPumpFunFeeConfig(): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('fee_config'), PUMPFUN_PROGRAM.toBuffer()],
+    PUMPSWAP_FEE_PROGRAM,
+  )[0];
+}
+
+/** Curves created before creator fees end at `complete` (@48); newer ones carry the creator @49 */
 export function parseBondingCurve(data: Buffer): BondingCurveData | null {
   if (data.length < 49) return null;
+  const creator = data.length >= 81 ? new PublicKey(data.subarray(49, 81)) : PublicKey.default;
   return {
     virtualTokenReserves: data.readBigUInt64LE(8),
     virtualSolReserves: data.readBigUInt64LE(16),
@@ -46,9 +69,40 @@ export function parseBondingCurve(data: Buffer): BondingCurveData | null {
     realSolReserves: data.readBigUInt64LE(32),
     tokenTotalSupply: data.readBigUInt64LE(40),
     complete: data[48] !== 0,
+    creator: creator.equals(PublicKey.default) ? null : creator,
+  };
+}
+
+/**
+ * Layout: initialized @8, authority @9, fee recipient @41, initial reserves /
+ * supply @73..105, fee bps u64 @105, withdraw authority @113, enable migrate
+ * @145, migration fee @146, creator fee bps u64 @154
+ */
+export function parsePumpFunGlobal(data: Buffer): PumpFunState | null {
+  if (data.length < GLOBAL_SIZE) return null;
+  return {
+    feeBps: Number(data.readBigUInt64LE(105)),
+    creatorFeeBps: Number(data.readBigUInt64LE(154)),
+    feeRecipient: new PublicKey(data.subarray(41, 73)),
   };
 }
 
+export async function fetchPumpFunGlobal(connection: Connection): Promise<PumpFunState | null> {
+  const info = await connection.getAccountInfo(getGlobalPDA());
+  return info ? parsePumpFunGlobal(info.data as Buffer) : null;
+}
+
+/** Total fee a trade on `curve` pays, in bps — what pool.fee carries for approximate quotes */
+export function pumpFunFeeBps(s: PumpFunState, curve: BondingCurveData): number {
+  return s.feeBps + (curve.creator ? s.creatorFeeBps : 0);
+}
+
+/** Each fee is rounded up separately, as the program does */
+function pumpFunFees(s: PumpFunState, curve: BondingCurveData, sol: bigint): bigint {
+  const fee = (bps: number) => (bps > 0 ? (sol * BigInt(bps) + 9999n) / 10000n : 0n);
+  return fee(s.feeBps) + (curve.creator ? fee(s.creatorFeeBps) : 0n);
+}
+
 export async function fetchBondingCurve(
   connection: Connection,
   mint: PublicKey,
@@ -59,33 +113,48 @@ export async function fetchBondingCurve(
   return parseBondingCurve(info.data as Buffer);
 }
 
-/** Calculate buy output: solIn → tokens out (before fee) */
-export function getBuyQuote(curve: BondingCurveData, solIn: bigint): bigint {
-  const solAfterFee = solIn * 99n / 100n; // 1% fee
-  const newSolReserves = curve.virtualSolReserves + solAfterFee;
+/**
+ * Buy output: solIn → tokens out. The program charges its fees on top of the
+ * curve cost, so only solIn / (1 + fees) moves the curve, less one unit per
+ * fee for the rounding up; output is capped at the tokens still for sale
+ * (realTokenReserves).
+ */
+export function getBuyQuote(curve: BondingCurveData, solIn: bigint, fees: PumpFunState): bigint {
+  const spendable = solIn - 2n; // one unit per fee for rounding up
+  if (curve.complete || spendable <= 0n) return 0n;
+  const solAfterFee = spendable * 10000n / (10000n + BigInt(pumpFunFeeBps(fees, curve)));
   const k = curve.virtualTokenReserves * curve.virtualSolReserves;
-  const newTokenReserves = k / newSolReserves;
-  return curve.virtualTokenReserves - newTokenReserves;
+  const newTokenReserves = k / (curve.virtualSolReserves + solAfterFee) + 1n; // program rounds in its own favour
+  const tokensOut = curve.virtualTokenReserves - newTokenReserves;
+  if (tokensOut <= 0n) return 0n;
+  return tokensOut < curve.realTokenReserves ? tokensOut : curve.realTokenReserves;
 }
 
-/** Calculate sell output: tokensIn → SOL out (before fee) */
-export function getSellQuote(curve: BondingCurveData, tokensIn: bigint): bigint {
-  const newTokenReserves = curve.virtualTokenReserves + tokensIn;
-  const k = curve.virtualTokenReserves * curve.virtualSolReserves;
-  const newSolReserves = k / newTokenReserves;
-  const solOut = curve.virtualSolReserves - newSolReserves;
-  return solOut * 99n / 100n; // 1% fee
+/** Sell output: tokensIn → SOL out after the fees, capped at the SOL actually in the curve (realSolReserves) */
+export function getSellQuote(curve: BondingCurveData, tokensIn: bigint, fees: PumpFunState): bigint {
+  if (curve.complete || tokensIn <= 0n) return 0n;
+  let solOut = tokensIn * curve.virtualSolReserves / (curve.virtualTokenReserves + tokensIn);
+  if (solOut > curve.realSolReserves) solOut = curve.realSolReserves;
+  const net = solOut - pumpFunFees(fees, curve, solOut);
+  return net > 0n ? net : 0n;
+}
+
+/** Exact bonding curve quote; `isBuy` is SOL → token. Zero once the curve has completed. */
+export function quoteBondingCurve(curve: BondingCurveData, fees: PumpFunState, isBuy: boolean, amountIn: bigint): bigint {
+  return isBuy ? getBuyQuote(curve, amountIn, fees) : getSellQuote(curve, amountIn, fees);
 }
 
 /**
  * Fetch pump.fun bonding curves for a list of mints and return as PoolInfo[].
- * Skips graduated (complete=true) curves.
+ * Skips graduated (complete=true) curves. Fees come from the Global account.
  */
 export async function fetchPumpFunPools(
   connection: Connection,
   tokenMints: string[],
 ): Promise<PoolInfo[]> {
   const pools: PoolInfo[] = [];
+  const fees = await fetchPumpFunGlobal(connection);
+  if (!fees) throw new Error('pump.fun global account unreadable');
   const pdas = tokenMints.map(m => getBondingCurvePDA(new PublicKey(m)));
 
   // Batch fetch in chunks of 100
@@ -93,7 +162,7 @@ export async function fetchPumpFunPools(
   for (let i = 0; i < pdas.length; i += CHUNK) {
     const chunk = pdas.slice(i, i + CHUNK);
     const mints = tokenMints.slice(i, i + CHUNK);
-    const infos = await connection.getMultipleAccountsInfo(chunk);
+    const { context, value: infos } = await connection.getMultipleAccountsInfoAndContext(chunk);
 
     for (let j = 0; j < infos.length; j++) {
       const info = infos[j];
@@ -113,13 +182,16 @@ export async function fetchPumpFunPools(
         tokenB: mint,
         reserveA: new Decimal(curve.virtualSolReserves.toString()),
         reserveB: new Decimal(curve.virtualTokenReserves.toString()),
-        fee: 100, // 1% = 100 bps
+        fee: pumpFunFeeBps(fees, curve),
         lastUpdate: Date.now(),
+        slot: context.slot,
         decimalsA: 9,
         decimalsB: 6, // pump.fun tokens are 6 decimals
         // Store vault for swap instructions
         vaultA: undefined, // SOL goes to bonding curve directly
         vaultB: getAssociatedTokenAddressSync(mint, bondingCurve, true),
+        bondingCurve: curve,
+        pumpfun: fees,
       });
       console.log(`   ✅ pumpfun[bonding-curve] SOL/${mints[j].slice(0, 8)}... reserves: ${Number(curve.realSolReserves) / 1e9} SOL`);
     }
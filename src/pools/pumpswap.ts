@@ -1,6 +1,7 @@
 import { Connection, PublicKey } from '@solana/web3.js';
 import Decimal from 'decimal.js';
-import { PoolInfo } from './types';
+import { PoolInfo, PumpSwapState } from './types';
+import { getMultipleAccountsWithSlot } from './concentratedLiquidity';
 
 export const PUMPSWAP_PROGRAM = new PublicKey('pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA');
 export const PUMPSWAP_GLOBAL_CONFIG = new PublicKey('ADyA8hdefvWN2dbGGWFotbzWxrAvLW83WG6QCVXvJKqw');
@@ -11,6 +12,8 @@ const SOL_MINT = new PublicKey('So11111111111111111111111111111111111111112');
 const POOL_DATA_SIZE = 301;
 const POOL_DISCRIMINATOR = 'f19a6d0411b16dbc';
 const ACTIVE_STATUS = 0xff;
+const GLOBAL_CONFIG_SIZE = 321;
+const MINT_DECIMALS_OFFSET = 44;
 
 export interface PumpSwapPoolData {
   address: PublicKey;
@@ -20,15 +23,25 @@ export interface PumpSwapPoolData {
   lpMint: PublicKey;
   baseVault: PublicKey;
   quoteVault: PublicKey;
+  coinCreator: PublicKey | null; // earns the creator fee on every swap; null when unset
   status: number;
 }
 
+/** PumpSwap global config: the fee schedule every pool trades at */
+export interface PumpSwapGlobalConfig {
+  lpFeeBps: number;
+  protocolFeeBps: number;
+  coinCreatorFeeBps: number;
+  protocolFeeRecipients: PublicKey[];
+}
+
 export function parsePumpSwapPool(address: PublicKey, data: Buffer): PumpSwapPoolData | null {
   if (data.length !== POOL_DATA_SIZE) return null;
   const disc = data.subarray(0, 8).toString('hex');
   if (disc !== POOL_DISCRIMINATOR) return null;
   const status = data[8];
   if (status !== ACTIVE_STATUS) return null;
+  const coinCreator = new PublicKey(data.subarray(211, 243));
 
   return {
     address,
@@ -38,10 +51,83 @@ export function parsePumpSwapPool(address: PublicKey, data: Buffer): PumpSwapPoo
     lpMint: new PublicKey(data.subarray(107, 139)),
     baseVault: new PublicKey(data.subarray(139, 171)),
     quoteVault: new PublicKey(data.subarray(171, 203)),
+    coinCreator: coinCreator.equals(PublicKey.default) ? null : coinCreator,
     status,
   };
 }
 
+/**
+ * Layout: admin @8, lp / protocol fee bps u64 @40/48, disable flags @56,
+ * protocol fee recipients [Pubkey; 8] @57, coin creator fee bps u64 @313
+ */
+export function parsePumpSwapGlobalConfig(data: Buffer): PumpSwapGlobalConfig | null {
+  if (data.length < GLOBAL_CONFIG_SIZE) return null;
+  const protocolFeeRecipients: PublicKey[] = [];
+  for (let i = 0; i < 8; i++) {
+    const recipient = new PublicKey(data.subarray(57 + i * 32, 89 + i * 32));
+    if (!recipient.equals(PublicKey.default)) protocolFeeRecipients.push(recipient);
+  }
+  return {
+    lpFeeBps: Number(data.readBigUInt64LE(40)),
+    protocolFeeBps: Number(data.readBigUInt64LE(48)),
+    coinCreatorFeeBps: Number(data.readBigUInt64LE(313)),
+    protocolFeeRecipients,
+  };
+}
+
+/** A pool's fees under the global config — the creator fee only applies when the pool has a coin creator */
+export function pumpSwapState(config: PumpSwapGlobalConfig, pool: PumpSwapPoolData): PumpSwapState {
+  return {
+    lpFeeBps: config.lpFeeBps,
+    protocolFeeBps: config.protocolFeeBps,
+    coinCreatorFeeBps: pool.coinCreator ? config.coinCreatorFeeBps : 0,
+    coinCreator: pool.coinCreator,
+    protocolFeeRecipient: config.protocolFeeRecipients[0] ?? PUMPSWAP_FEE_RECIPIENT,
+  };
+}
+
+const totalFeeBps = (s: PumpSwapState) => s.lpFeeBps + s.protocolFeeBps + s.coinCreatorFeeBps;
+
+/** Each fee is rounded up separately, as the program does */
+function pumpSwapFees(s: PumpSwapState, quote: bigint): bigint {
+  const fee = (bps: number) => (bps > 0 ? (quote * BigInt(bps) + 9999n) / 10000n : 0n);
+  return fee(s.lpFeeBps) + fee(s.protocolFeeBps) + fee(s.coinCreatorFeeBps);
+}
+
+/** Sell: base in → quote out. Fees are taken from the constant-product output. */
+export function getPumpSwapSellQuote(s: PumpSwapState, baseReserve: bigint, quoteReserve: bigint, baseIn: bigint): bigint {
+  if (baseIn <= 0n || baseReserve <= 0n || quoteReserve <= 0n) return 0n;
+  const gross = quoteReserve * baseIn / (baseReserve + baseIn);
+  const net = gross - pumpSwapFees(s, gross);
+  return net > 0n ? net : 0n;
+}
+
+/** Quote the program charges to buy exactly `baseOut`: ceil constant-product input plus fees on top */
+export function getPumpSwapBuyCost(s: PumpSwapState, baseReserve: bigint, quoteReserve: bigint, baseOut: bigint): bigint {
+  if (baseOut >= baseReserve) return -1n;
+  const quoteIn = (quoteReserve * baseOut + (baseReserve - baseOut) - 1n) / (baseReserve - baseOut);
+  return quoteIn + pumpSwapFees(s, quoteIn);
+}
+
+/**
+ * Buy: the most base a `quoteIn` budget buys. Fees are charged on top of the
+ * curve input, so the curve only sees budget / (1 + fees), less one unit per
+ * fee for the rounding — the result's getPumpSwapBuyCost never exceeds the budget.
+ */
+export function getPumpSwapBuyQuote(s: PumpSwapState, baseReserve: bigint, quoteReserve: bigint, quoteIn: bigint): bigint {
+  const spendable = quoteIn - 3n; // one unit per fee for rounding up
+  if (spendable <= 0n || baseReserve <= 0n || quoteReserve <= 0n) return 0n;
+  const curveIn = spendable * 10000n / (10000n + BigInt(totalFeeBps(s)));
+  return baseReserve * curveIn / (quoteReserve + curveIn);
+}
+
+/** Exact PumpSwap quote; tokenA is the base mint, so `isSell` is A → B */
+export function quotePumpSwap(s: PumpSwapState, baseReserve: bigint, quoteReserve: bigint, isSell: boolean, amountIn: bigint): bigint {
+  return isSell
+    ? getPumpSwapSellQuote(s, baseReserve, quoteReserve, amountIn)
+    : getPumpSwapBuyQuote(s, baseReserve, quoteReserve, amountIn);
+}
+
 export function getPumpSwapEventAuthority(): PublicKey {
   return PublicKey.findProgramAddressSync(
     [Buffer.from('__event_authority')],
@@ -56,6 +142,34 @@ export function getPumpSwapPoolAuthority(pool: PublicKey): PublicKey {
   )[0];
 }
 
+export function getCoinCreatorVaultAuthority(coinCreator: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('creator_vault'), coinCreator.toBuffer()],
+    PUMPSWAP_PROGRAM,
+  )[0];
+}
+
+export function getGlobalVolumeAccumulator(): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('global_volume_accumulator')],
+    PUMPSWAP_PROGRAM,
+  )[0];
+}
+
+export function getUserVolumeAccumulator(user: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('user_volume_accumulator'), user.toBuffer()],
+    PUMPSWAP_PROGRAM,
+  )[0];
+}
+
+export function getPumpSwapFeeConfig(): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('fee_config'), PUMPSWAP_PROGRAM.toBuffer()],
+    PUMPSWAP_FEE_PROGRAM,
+  )[0];
+}
+
 /**
  * Discover PumpSwap pools for given token mints using Helius enhanced transaction API.
  * Looks for recent PUMP_AMM swap transactions involving the mint and extracts pool addresses.
@@ -130,70 +244,70 @@ export async function fetchPumpSwapPools(
     return pools;
   }
 
-  // Step 2: Batch fetch pool account data
-  const entries = [...poolAddresses.entries()];
-  const poolInfos = await connection.getMultipleAccountsInfo(
-    entries.map(([_, addr]) => addr),
-  );
-
-  // Step 3: Parse pools and read vault balances
-  const vaultAddresses: PublicKey[] = [];
-  const parsedPools: { mint: string; pool: PumpSwapPoolData }[] = [];
-
-  for (let i = 0; i < entries.length; i++) {
-    const info = poolInfos[i];
-    if (!info) continue;
-    const parsed = parsePumpSwapPool(entries[i][1], info.data as Buffer);
-    if (!parsed) continue;
-    parsedPools.push({ mint: entries[i][0], pool: parsed });
-    vaultAddresses.push(parsed.baseVault, parsed.quoteVault);
+  // Step 2: Read the pools, global config, vaults and mints on-chain
+  const loaded = await loadPumpSwapPools(connection, [...poolAddresses.values()]);
+  for (const pool of loaded) {
+    const isSolBase = pool.tokenA.equals(SOL_MINT);
+    const mint = (isSolBase ? pool.tokenB : pool.tokenA).toBase58();
+    const solReserve = isSolBase ? pool.reserveA : pool.reserveB;
+    pools.push(pool);
+    console.log(`   ✅ pumpswap SOL/${mint.slice(0, 8)}... reserves: ${solReserve.div(1e9).toNumber()} SOL, fee: ${pool.fee} bps`);
   }
 
-  // Batch fetch vault balances
-  if (vaultAddresses.length > 0) {
-    const vaultInfos = await connection.getMultipleAccountsInfo(vaultAddresses);
-    for (let i = 0; i < parsedPools.length; i++) {
-      const { mint, pool } = parsedPools[i];
-      const baseVaultInfo = vaultInfos[i * 2];
-      const quoteVaultInfo = vaultInfos[i * 2 + 1];
-      if (!baseVaultInfo || !quoteVaultInfo) continue;
-
-      // Parse token account balances (amount at offset 64, 8 bytes LE)
-      const baseBalance = baseVaultInfo.data.length >= 72
-        ? (baseVaultInfo.data as Buffer).readBigUInt64LE(64)
-        : 0n;
-      const quoteBalance = quoteVaultInfo.data.length >= 72
-        ? (quoteVaultInfo.data as Buffer).readBigUInt64LE(64)
-        : 0n;
-
-      if (baseBalance === 0n || quoteBalance === 0n) continue;
-
-      // Determine which is SOL and which is the meme token
-      const baseMintStr = pool.baseMint.toBase58();
-      const isSolBase = baseMintStr === SOL_MINT.toBase58();
-      const decimalsBase = isSolBase ? 9 : 6; // pump.fun tokens are 6 decimals
-      const decimalsQuote = isSolBase ? 6 : 9;
-
-      pools.push({
-        address: pool.address,
-        dex: 'pumpswap',
-        poolType: 'amm-v4', // constant-product like AMM-V4
-        tokenA: pool.baseMint,
-        tokenB: pool.quoteMint,
-        reserveA: new Decimal(baseBalance.toString()),
-        reserveB: new Decimal(quoteBalance.toString()),
-        fee: 25, // PumpSwap charges ~0.25% (25 bps)
-        lastUpdate: Date.now(),
-        decimalsA: decimalsBase,
-        decimalsB: decimalsQuote,
-        vaultA: pool.baseVault,
-        vaultB: pool.quoteVault,
-        authority: getPumpSwapPoolAuthority(pool.address),
-      });
-      console.log(`   ✅ pumpswap SOL/${mint.slice(0, 8)}... reserves: ${Number(isSolBase ? baseBalance : quoteBalance) / 1e9} SOL`);
-    }
+  console.log(`   PumpSwap total: ${pools.length}`);
+  return pools;
+}
+
+/**
+ * Active PumpSwap pools from their addresses, with vault balances as
+ * reserves, fees from the global config and decimals from the mint
+ * accounts. Two batched reads; empty pools are dropped.
+ */
+export async function loadPumpSwapPools(connection: Connection, addresses: PublicKey[]): Promise<PoolInfo[]> {
+  if (addresses.length === 0) return [];
+  const { infos } = await getMultipleAccountsWithSlot(connection, [...addresses, PUMPSWAP_GLOBAL_CONFIG]);
+  const configInfo = infos[addresses.length];
+  const globalConfig = configInfo && parsePumpSwapGlobalConfig(configInfo.data);
+  if (!globalConfig) {
+    console.log('   ⚠️ PumpSwap global config unreadable');
+    return [];
   }
+  const parsed = addresses
+    .map((address, i) => (infos[i] ? parsePumpSwapPool(address, infos[i]!.data) : null))
+    .filter((p): p is PumpSwapPoolData => p !== null);
 
-  console.log(`   PumpSwap total: ${pools.length}`);
+  const mints = [...new Map(parsed.flatMap(p => [p.baseMint, p.quoteMint]).map(m => [m.toBase58(), m])).values()];
+  const vaults = parsed.flatMap(p => [p.baseVault, p.quoteVault]);
+  const { infos: accounts, slot } = await getMultipleAccountsWithSlot(connection, [...vaults, ...mints]);
+  const balance = (i: number) => (accounts[i] && accounts[i]!.data.length >= 72 ? accounts[i]!.data.readBigUInt64LE(64) : 0n);
+  const decimals = new Map(mints.map((m, i) => {
+    const info = accounts[vaults.length + i];
+    return [m.toBase58(), info && info.data.length > MINT_DECIMALS_OFFSET ? info.data[MINT_DECIMALS_OFFSET] : undefined];
+  }));
+
+  const pools: PoolInfo[] = [];
+  parsed.forEach((ps, i) => {
+    const [base, quote] = [balance(i * 2), balance(i * 2 + 1)];
+    if (base === 0n || quote === 0n) return;
+    const state = pumpSwapState(globalConfig, ps);
+    pools.push({
+      address: ps.address,
+      dex: 'pumpswap',
+      poolType: 'amm-v4', // constant-product like AMM-V4
+      tokenA: ps.baseMint,
+      tokenB: ps.quoteMint,
+      reserveA: new Decimal(base.toString()),
+      reserveB: new Decimal(quote.toString()),
+      fee: totalFeeBps(state),
+      lastUpdate: Date.now(),
+      slot,
+      decimalsA: decimals.get(ps.baseMint.toBase58()),
+      decimalsB: decimals.get(ps.quoteMint.toBase58()),
+      vaultA: ps.baseVault,
+      vaultB: ps.quoteVault,
+      authority: getPumpSwapPoolAuthority(ps.address),
+      pumpswap: state,
+    });
+  });
   return pools;
 }
@@ -2,6 +2,9 @@ import { Connection, PublicKey } from '@solana/web3.js';
 import Decimal from 'decimal.js';
 import { PoolInfo } from './types';
 import { PROGRAMS } from '../config';
+import { getMultipleAccounts, getMultipleAccountsWithSlot } from './concentratedLiquidity';
+import { applyClmmAccount, decodeClmmPool, decodeClmmTradeFeeRate, loadClmmTickArrays } from './raydiumClmm';
+import { PoolProgram, findPoolAddresses, readTokenBalances } from './programAccounts';
 
 // Raydium AMM V4 account layout offsets
 const AMM_LAYOUT = {
@@ -11,59 +14,228 @@ const AMM_LAYOUT = {
   tokenBVault: 368,
   fees: 4, // fee numerator at offset
 };
+export const AMM_V4_SIZE = 752;
+export const CPMM_POOL_SIZE = 637;
+const CLMM_POOL_SIZE = 1544;
+
+/** Raydium pool programs and their mint offsets, for memcmp discovery */
+export const RAYDIUM_POOL_PROGRAMS: PoolProgram[] = [
+  { dex: 'raydium', poolType: 'amm-v4', program: PROGRAMS.RAYDIUM_AMM, filter: { dataSize: AMM_V4_SIZE }, mintAOffset: AMM_LAYOUT.tokenAMint, mintBOffset: AMM_LAYOUT.tokenBMint },
+  { dex: 'raydium', poolType: 'cpmm', program: PROGRAMS.RAYDIUM_CPMM, filter: { dataSize: CPMM_POOL_SIZE }, mintAOffset: 168, mintBOffset: 200 },
+  { dex: 'raydium', poolType: 'clmm', program: PROGRAMS.RAYDIUM_CLMM, filter: { dataSize: CLMM_POOL_SIZE }, mintAOffset: 73, mintBOffset: 105 },
+];
+
+/**
+ * Decode the reserve-relevant fields of an AMM V4 AmmInfo account.
+ * Layout: coin/pc decimals u64 @32/40, swap fee numerator/denominator @176/184, needTakePnl coin/pc @192/200,
+ * coin/pc vaults @336/368, coin/pc mints @400/432, openOrders @496, market @528,
+ * market program @560, targetOrders @592.
+ * Tradable reserves are the vault balances minus the pnl still owed to the protocol.
+ */
+export function decodeAmmV4State(data: Buffer) {
+  return {
+    coinDecimals: Number(data.readBigUInt64LE(32)),
+    pcDecimals: Number(data.readBigUInt64LE(40)),
+    swapFeeNumerator: data.readBigUInt64LE(176),
+    swapFeeDenominator: data.readBigUInt64LE(184),
+    needTakePnlCoin: data.readBigUInt64LE(192),
+    needTakePnlPc: data.readBigUInt64LE(200),
+    coinVault: new PublicKey(data.subarray(AMM_LAYOUT.tokenAVault, AMM_LAYOUT.tokenAVault + 32)),
+    pcVault: new PublicKey(data.subarray(AMM_LAYOUT.tokenBVault, AMM_LAYOUT.tokenBVault + 32)),
+    coinMint: new PublicKey(data.subarray(AMM_LAYOUT.tokenAMint, AMM_LAYOUT.tokenAMint + 32)),
+    pcMint: new PublicKey(data.subarray(AMM_LAYOUT.tokenBMint, AMM_LAYOUT.tokenBMint + 32)),
+    openOrders: new PublicKey(data.subarray(496, 528)),
+    marketId: new PublicKey(data.subarray(528, 560)),
+    marketProgramId: new PublicKey(data.subarray(560, 592)),
+    targetOrders: new PublicKey(data.subarray(592, 624)),
+  };
+}
+
+/**
+ * Decode the accounts an AMM V4 swap routes through from its Serum / OpenBook market.
+ * Layout: vaultSignerNonce u64 @45, base/quote vaults @117/165, eventQueue @253, bids/asks @285/317.
+ */
+export function decodeSerumMarket(data: Buffer, marketId: PublicKey, marketProgramId: PublicKey) {
+  const nonce = Buffer.alloc(8);
+  nonce.writeBigUInt64LE(data.readBigUInt64LE(45));
+  return {
+    authority: PublicKey.createProgramAddressSync([marketId.toBuffer(), nonce], marketProgramId),
+    baseVault: new PublicKey(data.subarray(117, 149)),
+    quoteVault: new PublicKey(data.subarray(165, 197)),
+    eventQueue: new PublicKey(data.subarray(253, 285)),
+    bids: new PublicKey(data.subarray(285, 317)),
+    asks: new PublicKey(data.subarray(317, 349)),
+  };
+}
+
+/**
+ * Decode the reserve-relevant fields of a CPMM PoolState account.
+ * Layout: ammConfig @8, vault0/1 @72/104, mint0/1 @168/200, decimals @331/332, protocol fees @341/349,
+ * fund fees @357/365, creator fees @397/405 (zero on pools without them).
+ * Tradable reserves are the vault balances minus all three accrued fees.
+ */
+export function decodeCpmmPool(data: Buffer) {
+  return {
+    ammConfig: new PublicKey(data.subarray(8, 40)),
+    vault0: new PublicKey(data.subarray(72, 104)),
+    vault1: new PublicKey(data.subarray(104, 136)),
+    mint0: new PublicKey(data.subarray(168, 200)),
+    mint1: new PublicKey(data.subarray(200, 232)),
+    decimals0: data.readUInt8(331),
+    decimals1: data.readUInt8(332),
+    feesOwed0: data.readBigUInt64LE(341) + data.readBigUInt64LE(357) + data.readBigUInt64LE(397),
+    feesOwed1: data.readBigUInt64LE(349) + data.readBigUInt64LE(365) + data.readBigUInt64LE(405),
+  };
+}
+
+/** CPMM AmmConfig trade_fee_rate (u64 @12), in 1e-6 units */
+export function decodeCpmmTradeFeeRate(data: Buffer): number {
+  return Number(data.readBigUInt64LE(12));
+}
 
 export class RaydiumFetcher {
   constructor(private connection: Connection) {}
 
+  /** AMM v4, CPMM and CLMM pools pairing the two mints, in either order */
   async getPoolsByTokenPair(tokenA: PublicKey, tokenB: PublicKey): Promise<PoolInfo[]> {
-    // Fetch Raydium AMM pools via getProgramAccounts
-    // Filter by token mints
-    const accounts = await this.connection.getProgramAccounts(PROGRAMS.RAYDIUM_AMM, {
-      filters: [
-        { dataSize: 752 }, // AMM V4 account size
-      ],
+    const found = await Promise.all(RAYDIUM_POOL_PROGRAMS.map(spec =>
+      findPoolAddresses(this.connection, spec, tokenA.toBase58(), tokenB.toBase58())));
+    return this.loadPools(found.flat());
+  }
+
+  /**
+   * Decode Raydium pools from their addresses with batched reads: pool
+   * accounts, fee configs, OpenBook markets, vault balances and CLMM tick
+   * arrays. Fills in the accounts the swap builders need, so a trade doesn't
+   * re-read them. Pools with an empty side are dropped.
+   */
+  async loadPools(addresses: PublicKey[]): Promise<PoolInfo[]> {
+    if (addresses.length === 0) return [];
+    const { infos, slot } = await getMultipleAccountsWithSlot(this.connection, addresses);
+
+    const accounts: { address: PublicKey; poolType: PoolInfo['poolType']; data: Buffer }[] = [];
+    addresses.forEach((address, i) => {
+      const info = infos[i];
+      if (!info) return;
+      const poolType = info.owner.equals(PROGRAMS.RAYDIUM_AMM) && info.data.length === AMM_V4_SIZE ? 'amm-v4'
+        : info.owner.equals(PROGRAMS.RAYDIUM_CPMM) && info.data.length === CPMM_POOL_SIZE ? 'cpmm'
+        : info.owner.equals(PROGRAMS.RAYDIUM_CLMM) && info.data.length >= CLMM_POOL_SIZE ? 'clmm'
+        : null;
+      if (poolType) accounts.push({ address, poolType, data: info.data });
     });
 
+    const feeRates = await this.loadFeeRates(accounts);
     const pools: PoolInfo[] = [];
-
-    for (const { pubkey, account } of accounts) {
+    for (const { address, poolType, data } of accounts) {
       try {
-        const data = account.data;
-        const mintA = new PublicKey(data.slice(400, 432));
-        const mintB = new PublicKey(data.slice(432, 464));
-
-        // Check if this pool matches our token pair (either direction)
-        const matchForward = mintA.equals(tokenA) && mintB.equals(tokenB);
-        const matchReverse = mintA.equals(tokenB) && mintB.equals(tokenA);
+        const pool: PoolInfo = {
+          address,
+          dex: 'raydium',
+          poolType,
+          tokenA: PublicKey.default,
+          tokenB: PublicKey.default,
+          reserveA: new Decimal(0),
+          reserveB: new Decimal(0),
+          fee: 25, // Raydium standard 0.25% until the config is known
+          lastUpdate: Date.now(),
+          slot,
+        };
+        if (poolType === 'clmm') {
+          const cl = decodeClmmPool(data);
+          if (cl.liquidity === 0n) continue;
+          applyClmmAccount(pool, data, feeRates.get(cl.ammConfig.toBase58()));
+        } else if (poolType === 'cpmm') {
+          const s = decodeCpmmPool(data);
+          Object.assign(pool, {
+            tokenA: s.mint0, tokenB: s.mint1, vaultA: s.vault0, vaultB: s.vault1,
+            decimalsA: s.decimals0, decimalsB: s.decimals1, ammConfig: s.ammConfig,
+          });
+          const rate = feeRates.get(s.ammConfig.toBase58());
+          if (rate !== undefined) pool.fee = Math.ceil(rate / 100); // 1e-6 → bps
+        } else {
+          const s = decodeAmmV4State(data);
+          Object.assign(pool, {
+            tokenA: s.coinMint, tokenB: s.pcMint, vaultA: s.coinVault, vaultB: s.pcVault,
+            decimalsA: s.coinDecimals, decimalsB: s.pcDecimals,
+            openOrders: s.openOrders, targetOrders: s.targetOrders,
+            marketId: s.marketId, marketProgramId: s.marketProgramId,
+          });
+          if (s.swapFeeDenominator > 0n) pool.fee = Number((s.swapFeeNumerator * 10000n) / s.swapFeeDenominator);
+        }
+        pools.push(pool);
+      } catch {}
+    }
 
-        if (!matchForward && !matchReverse) continue;
+    const clmm = pools.filter(p => p.poolType === 'clmm');
+    if (clmm.length > 0) await loadClmmTickArrays(this.connection, clmm);
+    await this.loadMarkets(pools.filter(p => p.poolType === 'amm-v4'));
+    const empty = await this.loadVaultReserves(accounts, pools.filter(p => p.poolType !== 'clmm'));
+    return pools.filter(p => !empty.has(p));
+  }
 
-        // Get vault balances
-        const vaultA = new PublicKey(data.slice(336, 368));
-        const vaultB = new PublicKey(data.slice(368, 400));
+  /** CPMM / CLMM AmmConfig trade fee rates (1e-6 units) by config address */
+  private async loadFeeRates(accounts: { poolType: PoolInfo['poolType']; data: Buffer }[]): Promise<Map<string, number>> {
+    const configs = new Map<string, (data: Buffer) => number>();
+    for (const { poolType, data } of accounts) {
+      if (poolType === 'cpmm') configs.set(decodeCpmmPool(data).ammConfig.toBase58(), decodeCpmmTradeFeeRate);
+      if (poolType === 'clmm') configs.set(decodeClmmPool(data).ammConfig.toBase58(), decodeClmmTradeFeeRate);
+    }
+    const keys = [...configs.keys()];
+    const infos = await getMultipleAccounts(this.connection, keys.map(k => new PublicKey(k)));
+    const rates = new Map<string, number>();
+    keys.forEach((k, i) => {
+      const info = infos[i];
+      if (info) rates.set(k, configs.get(k)!(info.data));
+    });
+    return rates;
+  }
 
-        const [balA, balB] = await Promise.all([
-          this.connection.getTokenAccountBalance(vaultA),
-          this.connection.getTokenAccountBalance(vaultB),
-        ]);
+  /** OpenBook market accounts for AMM v4 swaps; pools whose market can't be read keep them unset */
+  private async loadMarkets(pools: PoolInfo[]): Promise<void> {
+    const infos = await getMultipleAccounts(this.connection, pools.map(p => p.marketId!));
+    pools.forEach((pool, i) => {
+      const info = infos[i];
+      if (!info) return;
+      try {
+        const m = decodeSerumMarket(info.data, pool.marketId!, pool.marketProgramId!);
+        pool.marketAuthority = m.authority;
+        pool.marketBaseVault = m.baseVault;
+        pool.marketQuoteVault = m.quoteVault;
+        pool.marketEventQueue = m.eventQueue;
+        pool.marketBids = m.bids;
+        pool.marketAsks = m.asks;
+      } catch {}
+    });
+  }
 
-        pools.push({
-          address: pubkey,
-          dex: 'raydium',
-          poolType: 'amm-v4',
-          tokenA: mintA,
-          tokenB: mintB,
-          reserveA: new Decimal(balA.value.amount),
-          reserveB: new Decimal(balB.value.amount),
-          fee: 25, // Raydium standard 0.25%
-          lastUpdate: Date.now(),
-        });
-      } catch (e) {
-        continue;
+  /**
+   * Reserves = vault balances minus what the pool owes (AMM v4 pnl, CPMM fees).
+   * Returns the pools with an empty side.
+   */
+  private async loadVaultReserves(accounts: { address: PublicKey; data: Buffer }[], pools: PoolInfo[]): Promise<Set<PoolInfo>> {
+    const balances = await readTokenBalances(this.connection, pools.flatMap(p => [p.vaultA!, p.vaultB!]));
+    const dataByAddress = new Map(accounts.map(a => [a.address.toBase58(), a.data]));
+    const empty = new Set<PoolInfo>();
+    pools.forEach((pool, i) => {
+      const data = dataByAddress.get(pool.address.toBase58())!;
+      let excludedA: bigint, excludedB: bigint;
+      if (pool.poolType === 'cpmm') {
+        const s = decodeCpmmPool(data);
+        [excludedA, excludedB] = [s.feesOwed0, s.feesOwed1];
+      } else {
+        const s = decodeAmmV4State(data);
+        [excludedA, excludedB] = [s.needTakePnlCoin, s.needTakePnlPc];
       }
-    }
-
-    return pools;
+      const reserveA = balances[i * 2] - excludedA;
+      const reserveB = balances[i * 2 + 1] - excludedB;
+      if (reserveA <= 0n || reserveB <= 0n) {
+        empty.add(pool);
+        return;
+      }
+      pool.reserveA = new Decimal(reserveA.toString());
+      pool.reserveB = new Decimal(reserveB.toString());
+    });
+    return empty;
   }
 
   /**
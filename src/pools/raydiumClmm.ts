@@ -0,0 +1,217 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { ConcentratedState, InitializedTick, PoolInfo } from './types';
+import { PROGRAMS } from '../config';
+import { getMultipleAccounts, getMultipleAccountsWithSlot, readU128, simulateExactIn, virtualReserves } from './concentratedLiquidity';
+
+// Raydium CLMM PoolState layout
+const POOL_STATE_SIZE = 1544;
+
+// TickArrayState: disc(8) + pool(32) + start(i32) + 60 × TickState(168) + initializedTickCount(u8) ...
+export const CLMM_TICKS_PER_ARRAY = 60;
+const TICK_STATE_SIZE = 168;
+const TICKS_OFFSET = 44;
+const INITIALIZED_COUNT_OFFSET = TICKS_OFFSET + CLMM_TICKS_PER_ARRAY * TICK_STATE_SIZE;
+
+// Arrays loaded on each side of the current one (uninitialized arrays don't exist on-chain)
+const TICK_ARRAY_WINDOW = 5;
+// A swap_v2 instruction walks at most this many tick arrays in our builds
+export const CLMM_SWAP_TICK_ARRAYS = 3;
+
+export function clmmTickArrayStartIndex(tick: number, tickSpacing: number): number {
+  const arraySpacing = tickSpacing * CLMM_TICKS_PER_ARRAY;
+  return Math.floor(tick / arraySpacing) * arraySpacing;
+}
+
+/** Tick array PDA — the start index seed is i32 big-endian bytes */
+export function clmmTickArrayAddress(pool: PublicKey, startIndex: number): PublicKey {
+  const seed = Buffer.alloc(4);
+  seed.writeInt32BE(startIndex);
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('tick_array'), pool.toBuffer(), seed],
+    PROGRAMS.RAYDIUM_CLMM,
+  )[0];
+}
+
+export function clmmBitmapExtensionAddress(pool: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('pool_tick_array_bitmap_extension'), pool.toBuffer()],
+    PROGRAMS.RAYDIUM_CLMM,
+  )[0];
+}
+
+/**
+ * Decode the swap-relevant fields of a CLMM PoolState account.
+ * Layout: ammConfig @9, mint0 @73, mint1 @105, vault0 @137, vault1 @169,
+ * observation @201, decimals @233/234, tickSpacing u16 @235, liquidity u128 @237,
+ * sqrtPriceX64 u128 @253, tickCurrent i32 @269.
+ */
+export function decodeClmmPool(data: Buffer) {
+  return {
+    ammConfig: new PublicKey(data.subarray(9, 41)),
+    tokenMint0: new PublicKey(data.subarray(73, 105)),
+    tokenMint1: new PublicKey(data.subarray(105, 137)),
+    vault0: new PublicKey(data.subarray(137, 169)),
+    vault1: new PublicKey(data.subarray(169, 201)),
+    observation: new PublicKey(data.subarray(201, 233)),
+    decimals0: data.readUInt8(233),
+    decimals1: data.readUInt8(234),
+    tickSpacing: data.readUInt16LE(235),
+    liquidity: readU128(data, 237),
+    sqrtPrice: readU128(data, 253),
+    tickCurrentIndex: data.readInt32LE(269),
+  };
+}
+
+/** AmmConfig trade_fee_rate (u32 @47), in 1e-6 units */
+export function decodeClmmTradeFeeRate(data: Buffer): number {
+  return data.readUInt32LE(47);
+}
+
+/** Initialized ticks in a CLMM tick array (a tick is initialized when liquidityGross > 0) */
+export function decodeClmmTickArray(data: Buffer): { startIndex: number; initializedCount: number; ticks: InitializedTick[] } {
+  const ticks: InitializedTick[] = [];
+  for (let i = 0; i < CLMM_TICKS_PER_ARRAY; i++) {
+    const off = TICKS_OFFSET + i * TICK_STATE_SIZE;
+    if (readU128(data, off + 20) === 0n) continue; // liquidityGross
+    ticks.push({ index: data.readInt32LE(off), liquidityNet: BigInt.asIntN(128, readU128(data, off + 4)) });
+  }
+  return {
+    startIndex: data.readInt32LE(40),
+    initializedCount: data.readUInt8(INITIALIZED_COUNT_OFFSET),
+    ticks,
+  };
+}
+
+/**
+ * Start indexes of the initialized tick arrays a swap in this direction walks
+ * through, nearest first (the program skips arrays that aren't initialized).
+ */
+export function clmmSwapTickArrayStarts(state: ConcentratedState, aToB: boolean): number[] {
+  const current = clmmTickArrayStartIndex(state.tickCurrentIndex, state.tickSpacing);
+  const starts = aToB
+    ? state.tickArrayStarts.filter(s => s <= current).sort((a, b) => b - a)
+    : state.tickArrayStarts.filter(s => s >= current).sort((a, b) => a - b);
+  return starts.slice(0, CLMM_SWAP_TICK_ARRAYS);
+}
+
+/**
+ * Update a pool from raw PoolState data (keeps the loaded ticks and fee rate).
+ * Returns true if the price moved into a different tick array.
+ */
+export function applyClmmAccount(pool: PoolInfo, data: Buffer, feeRate?: number): boolean {
+  const cl = decodeClmmPool(data);
+  const prev = pool.concentrated;
+
+  pool.concentrated = {
+    tickSpacing: cl.tickSpacing,
+    feeRate: feeRate ?? prev?.feeRate ?? pool.fee * 100,
+    liquidity: cl.liquidity,
+    sqrtPrice: cl.sqrtPrice,
+    tickCurrentIndex: cl.tickCurrentIndex,
+    tickArrayStarts: prev?.tickArrayStarts || [],
+    ticks: prev?.ticks || [],
+  };
+  pool.sqrtPriceX64 = new Decimal(cl.sqrtPrice.toString());
+  pool.fee = Math.ceil(pool.concentrated.feeRate / 100);
+  pool.tokenA = cl.tokenMint0;
+  pool.tokenB = cl.tokenMint1;
+  pool.vaultA = cl.vault0;
+  pool.vaultB = cl.vault1;
+  pool.ammConfig = cl.ammConfig;
+  pool.observation = cl.observation;
+  pool.decimalsA = cl.decimals0;
+  pool.decimalsB = cl.decimals1;
+
+  const reserves = virtualReserves(cl.liquidity, cl.sqrtPrice);
+  if (reserves) Object.assign(pool, reserves);
+
+  return !prev || clmmTickArrayStartIndex(prev.tickCurrentIndex, prev.tickSpacing)
+    !== clmmTickArrayStartIndex(cl.tickCurrentIndex, cl.tickSpacing);
+}
+
+/**
+ * Load on-chain state for Raydium CLMM pools: pool accounts, their AmmConfig
+ * fee rates, then the tick arrays around the current tick.
+ * Returns how many pools were loaded.
+ */
+export async function loadClmmStates(connection: Connection, pools: PoolInfo[]): Promise<number> {
+  const { infos, slot } = await getMultipleAccountsWithSlot(connection, pools.map(p => p.address));
+  const decoded = infos.map(info => (info && info.data.length >= POOL_STATE_SIZE ? decodeClmmPool(info.data) : null));
+
+  const configKeys = [...new Set(decoded.filter(d => d).map(d => d!.ammConfig.toBase58()))];
+  const configInfos = await getMultipleAccounts(connection, configKeys.map(k => new PublicKey(k)));
+  const feeRates = new Map<string, number>();
+  configKeys.forEach((k, i) => {
+    const info = configInfos[i];
+    if (info) feeRates.set(k, decodeClmmTradeFeeRate(info.data));
+  });
+
+  const loaded: PoolInfo[] = [];
+  pools.forEach((pool, i) => {
+    const info = infos[i];
+    const cl = decoded[i];
+    if (!info || !cl) return;
+    applyClmmAccount(pool, info.data, feeRates.get(cl.ammConfig.toBase58()));
+    pool.slot = slot;
+    loaded.push(pool);
+  });
+
+  await loadClmmTickArrays(connection, loaded);
+  return loaded.length;
+}
+
+/** (Re)load the initialized tick arrays within TICK_ARRAY_WINDOW of each pool's current tick. */
+export async function loadClmmTickArrays(connection: Connection, pools: PoolInfo[]): Promise<void> {
+  const requests: { pool: PoolInfo; address: PublicKey }[] = [];
+  for (const pool of pools) {
+    const state = pool.concentrated;
+    if (!state) continue;
+    const arraySpacing = state.tickSpacing * CLMM_TICKS_PER_ARRAY;
+    const start = clmmTickArrayStartIndex(state.tickCurrentIndex, state.tickSpacing);
+    for (let o = -TICK_ARRAY_WINDOW; o <= TICK_ARRAY_WINDOW; o++) {
+      requests.push({ pool, address: clmmTickArrayAddress(pool.address, start + o * arraySpacing) });
+    }
+  }
+
+  const infos = await getMultipleAccounts(connection, requests.map(r => r.address));
+  const byPool = new Map<PoolInfo, { starts: number[]; ticks: InitializedTick[]; addresses: PublicKey[] }>();
+  requests.forEach((req, i) => {
+    const entry = byPool.get(req.pool) || { starts: [], ticks: [], addresses: [] };
+    byPool.set(req.pool, entry);
+    const info = infos[i];
+    if (!info) return;
+    const array = decodeClmmTickArray(info.data);
+    if (array.initializedCount === 0) return; // cleared array — the program skips it
+    entry.starts.push(array.startIndex);
+    entry.addresses.push(req.address);
+    entry.ticks.push(...array.ticks);
+  });
+
+  for (const [pool, entry] of byPool) {
+    pool.concentrated!.tickArrayStarts = entry.starts;
+    pool.concentrated!.ticks = entry.ticks.sort((a, b) => a.index - b.index);
+    pool.tickArrays = entry.addresses;
+  }
+}
+
+/**
+ * Exact-input CLMM swap across initialized ticks, limited to the tick arrays
+ * a swap_v2 can reference. Beyond the loaded window nothing is known, so a
+ * swap that would run past it quotes 0.
+ */
+export function quoteRaydiumClmm(state: ConcentratedState, aToB: boolean, amountIn: bigint): bigint {
+  const arraySpacing = state.tickSpacing * CLMM_TICKS_PER_ARRAY;
+  const current = clmmTickArrayStartIndex(state.tickCurrentIndex, state.tickSpacing);
+  const starts = clmmSwapTickArrayStarts(state, aToB);
+
+  let boundary: number;
+  if (starts.length === CLMM_SWAP_TICK_ARRAYS) {
+    boundary = aToB ? starts[starts.length - 1] : starts[starts.length - 1] + arraySpacing - state.tickSpacing;
+  } else {
+    boundary = aToB
+      ? current - TICK_ARRAY_WINDOW * arraySpacing
+      : current + (TICK_ARRAY_WINDOW + 1) * arraySpacing - state.tickSpacing;
+  }
+  return simulateExactIn(state, aToB, amountIn, boundary);
+}
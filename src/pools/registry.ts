@@ -3,8 +3,9 @@ import Decimal from 'decimal.js';
 import { PoolInfo } from './types';
 import { fetchPumpFunPools } from './pumpfun';
 import { fetchPumpSwapPools } from './pumpswap';
-
-const SOL = 'So11111111111111111111111111111111111111112';
+import { fetchMeteoraPools } from './meteora';
+import { whirlpoolOracleAddress } from './orca';
+import { discoveryPairs, pairKey, pairLabel } from './pairs';
 
 const fetchWithTimeout = async (url: string, ms = 30000) => {
   const ctrl = new AbortController();
@@ -13,14 +14,19 @@ const fetchWithTimeout = async (url: string, ms = 30000) => {
   finally { clearTimeout(t); }
 };
 
+/**
+ * Pools for every discovery pair (token/SOL, token/bridge, SOL/bridge) from
+ * the DEX APIs; Pump.fun and PumpSwap only pair tokens with SOL.
+ */
 export async function fetchPoolsFromAPIs(tokenMints: string[], connection?: Connection): Promise<PoolInfo[]> {
   const pools: PoolInfo[] = [];
+  const pairs = discoveryPairs(tokenMints);
 
   // ── Raydium API v3 (sequential with delay to avoid rate limits) ──
   const rayResults: PromiseSettledResult<any[]>[] = [];
-  for (const mint of tokenMints) {
+  for (const [mint, quote] of pairs) {
     try {
-      const url = `https://api-v3.raydium.io/pools/info/mint?mint1=${SOL}&mint2=${mint}&poolType=all&poolSortField=liquidity&sortType=desc&pageSize=5&page=1`;
+      const url = `https://api-v3.raydium.io/pools/info/mint?mint1=${quote}&mint2=${mint}&poolType=all&poolSortField=liquidity&sortType=desc&pageSize=5&page=1`;
       const resp = await fetchWithTimeout(url, 30000);
       if (!resp.ok) { rayResults.push({ status: 'fulfilled', value: [] }); continue; }
       const data: any = await resp.json();
@@ -68,18 +74,15 @@ export async function fetchPoolsFromAPIs(tokenMints: string[], connection?: Conn
     const resp = await fetchWithTimeout('https://api.mainnet.orca.so/v1/whirlpool/list', 15000);
     if (resp.ok) {
       const data: any = await resp.json();
-      const mintSet = new Set(tokenMints);
+      const wanted = new Set(pairs.map(([a, b]) => pairKey(a, b)));
       const candidates: any[] = [];
       for (const wp of (data.whirlpools || [])) {
-        const hasToken = mintSet.has(wp.tokenA?.mint) || mintSet.has(wp.tokenB?.mint);
-        const hasSOL = wp.tokenA?.mint === SOL || wp.tokenB?.mint === SOL;
-        if (!hasToken || !hasSOL) continue;
+        if (!wp.tokenA?.mint || !wp.tokenB?.mint || !wanted.has(pairKey(wp.tokenA.mint, wp.tokenB.mint))) continue;
         if (parseFloat(wp.tvl || '0') < 1000) continue;
         candidates.push(wp);
       }
 
       // Use Orca API price directly — no on-chain reads (GetBlock rate limits)
-      const ORCA_PROGRAM = new PublicKey('whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc');
       for (const wp of candidates) {
         const price = parseFloat(wp.price || '0');
         if (price <= 0) continue;
@@ -87,11 +90,9 @@ export async function fetchPoolsFromAPIs(tokenMints: string[], connection?: Conn
         const decimalsA = wp.tokenA?.decimals || 9;
         const decimalsB = wp.tokenB?.decimals || 9;
         const addr = new PublicKey(wp.address);
-        const [oraclePda] = PublicKey.findProgramAddressSync(
-          [Buffer.from('oracle'), addr.toBuffer()], ORCA_PROGRAM,
-        );
 
-        // Reserves from API (tvl-based, for filtering only — quoting uses price)
+        // Reserves from API (tvl-based placeholder) — replaced by virtual reserves
+        // once PoolManager loads the on-chain Whirlpool state
         const tvlSol = parseFloat(wp.tvl || '0') / 150; // rough SOL estimate
         const reserveA = new Decimal(tvlSol / 2).mul(new Decimal(10).pow(decimalsA)).floor();
         const reserveB = new Decimal(tvlSol / 2 * price).mul(new Decimal(10).pow(decimalsB)).floor();
@@ -107,7 +108,7 @@ export async function fetchPoolsFromAPIs(tokenMints: string[], connection?: Conn
           reserveB: reserveB.isZero() ? new Decimal(1) : reserveB,
           fee: Math.round((wp.lpFeeRate || 0.003) * 10000),
           lastUpdate: Date.now(),
-          oracle: oraclePda,
+          oracle: whirlpoolOracleAddress(addr),
           decimalsA,
           decimalsB,
           // Store raw price for direct quoting (tokenB per tokenA)
@@ -142,6 +143,16 @@ export async function fetchPoolsFromAPIs(tokenMints: string[], connection?: Conn
     }
   }
 
+  // ── Meteora DLMM + dynamic AMM ──
+  if (connection) {
+    try {
+      const meteoraPools = await fetchMeteoraPools(connection, pairs);
+      pools.push(...meteoraPools);
+    } catch (e: any) {
+      console.log(`   ⚠️ Meteora fetch error: ${e.message?.slice(0, 60)}`);
+    }
+  }
+
   return pools;
 }
 
@@ -3,14 +3,15 @@ import Decimal from 'decimal.js';
 
 export interface PoolInfo {
   address: PublicKey;
-  dex: 'raydium' | 'orca' | 'pumpfun' | 'pumpswap';
-  poolType: 'amm-v4' | 'clmm' | 'cpmm' | 'whirlpool' | 'bonding-curve';
+  dex: 'raydium' | 'orca' | 'pumpfun' | 'pumpswap' | 'meteora';
+  poolType: 'amm-v4' | 'clmm' | 'cpmm' | 'whirlpool' | 'bonding-curve' | 'dlmm' | 'dynamic-amm';
   tokenA: PublicKey;
   tokenB: PublicKey;
   reserveA: Decimal;
   reserveB: Decimal;
   fee: number; // basis points
   lastUpdate: number;
+  slot?: number; // context slot of the last on-chain decode (unset while only API data is known)
   // On-chain accounts needed for swap instructions
   vaultA?: PublicKey;
   vaultB?: PublicKey;
@@ -26,11 +27,37 @@ export interface PoolInfo {
   marketAsks?: PublicKey;
   marketEventQueue?: PublicKey;
   tickArrays?: PublicKey[];   // CLMM / Whirlpool tick arrays
-  oracle?: PublicKey;         // Whirlpool oracle
+  oracle?: PublicKey;         // Whirlpool / DLMM oracle
+  ammConfig?: PublicKey;      // Raydium CLMM / CPMM fee config
+  observation?: PublicKey;    // Raydium CLMM observation state
   decimalsA?: number;
   decimalsB?: number;
+  tokenProgramA?: PublicKey;  // SPL Token or Token-2022, from the mint account
+  tokenProgramB?: PublicKey;
   sqrtPriceX64?: Decimal;  // For concentrated liquidity pools (whirlpool/CLMM)
   orcaApiPrice?: Decimal;  // Direct price from Orca API (tokenB per tokenA in human units)
+  concentrated?: ConcentratedState; // On-chain tick state (Whirlpool / Raydium CLMM) for tick-accurate quotes
+  dlmm?: DlmmState;                 // On-chain bin state (Meteora DLMM) for bin-accurate quotes
+  bondingCurve?: BondingCurveData;  // On-chain curve state (Pump.fun) for exact curve quotes
+  pumpfun?: PumpFunState;           // Fee schedule (Pump.fun global) for exact curve quotes and swap accounts
+  pumpswap?: PumpSwapState;         // Fee schedule (PumpSwap) for exact quotes and swap accounts
+  damm?: DammVaults;                // Vault accounts (Meteora dynamic AMM) the reserves derive from
+}
+
+/** Decoded concentrated-liquidity swap state plus the initialized ticks around the current price */
+export interface ConcentratedState {
+  tickSpacing: number;
+  feeRate: number;            // hundredths of a bip (fee = amount × feeRate / 1e6)
+  liquidity: bigint;          // active liquidity
+  sqrtPrice: bigint;          // Q64.64
+  tickCurrentIndex: number;
+  tickArrayStarts: number[];  // start indexes of the tick arrays that exist on-chain and were loaded
+  ticks: InitializedTick[];   // initialized ticks across the loaded arrays, ascending by index
+}
+
+export interface InitializedTick {
+  index: number;
+  liquidityNet: bigint;
 }
 
 export interface PriceQuote {
@@ -43,13 +70,93 @@ export interface PriceQuote {
   effectivePrice: Decimal;
 }
 
+/** Newest slot a pool's state is known to be current through — later than its decode slot while it stays quiet */
+export interface SlotSource {
+  observedSlot(pool: PoolInfo): number | null;
+}
+
+/** A pool's state copied at snapshot time, tagged with the slot it was decoded at */
+export interface PoolSnapshot {
+  pool: PoolInfo;
+  slot: number | null;        // null while only API data is known
+}
+
+export interface RouteHop {
+  pool: PoolInfo;
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+}
+
 export interface ArbOpportunity {
   type: 'spatial' | 'temporal' | 'triangular';
-  buyPool: PoolInfo;
-  sellPool: PoolInfo;
+  buyPool: PoolInfo;          // first hop
+  sellPool: PoolInfo;         // last hop
   tokenMint: PublicKey;
+  route: RouteHop[];          // full hop path, base mint → ... → base mint
   inputAmount: Decimal;
   expectedProfit: Decimal;
   profitBps: number;
   timestamp: number;
+  confidence?: number;        // 0..1, temporal only — likelihood the lag still holds
+  expiresAt?: number;         // ms epoch after which the opportunity should be dropped
+}
+
+/** Meteora DLMM pair parameters plus the bins loaded around the active one */
+export interface DlmmState {
+  binStep: number;                  // bps between adjacent bin prices
+  activeId: number;
+  baseFactor: number;
+  baseFeePowerFactor: number;
+  variableFeeControl: number;
+  maxVolatilityAccumulator: number;
+  volatilityAccumulator: number;
+  volatilityReference: number;
+  indexReference: number;
+  filterPeriod: number;             // seconds
+  decayPeriod: number;              // seconds
+  reductionFactor: number;
+  lastUpdateTimestamp: number;      // unix seconds
+  binArrayIndexes: number[];        // bin arrays that exist on-chain and were loaded
+  bins: Map<number, DlmmBin>;       // bin id → liquidity
+}
+
+export interface DlmmBin {
+  amountX: bigint;
+  amountY: bigint;
+  price: bigint;                    // Q64.64, token Y per token X
+}
+
+/** Meteora vaults behind a dynamic AMM pool (the pool's own LP holdings are vaultA / vaultB) */
+export interface DammVaults {
+  aVault: PublicKey;
+  bVault: PublicKey;
+  aLpMint: PublicKey;
+  bLpMint: PublicKey;
+}
+
+/** Pump.fun bonding curve account */
+export interface BondingCurveData {
+  virtualTokenReserves: bigint;
+  virtualSolReserves: bigint;
+  realTokenReserves: bigint;    // tokens still for sale; buys are capped here
+  realSolReserves: bigint;      // SOL actually held; sells are capped here
+  tokenTotalSupply: bigint;
+  complete: boolean;            // curve sold out — the token has graduated to PumpSwap
+  creator: PublicKey | null;    // earns the creator fee on every trade; null when unset
+}
+
+/** Pump.fun fees from the Global account — the creator fee only applies to curves with a creator */
+export interface PumpFunState {
+  feeBps: number;
+  creatorFeeBps: number;
+  feeRecipient: PublicKey;
+}
+
+/** PumpSwap fees from the global config, as they apply to one pool */
+export interface PumpSwapState {
+  lpFeeBps: number;
+  protocolFeeBps: number;
+  coinCreatorFeeBps: number;    // 0 when the pool has no coin creator
+  coinCreator: PublicKey | null;
+  protocolFeeRecipient: PublicKey;
 }
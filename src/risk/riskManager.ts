@@ -1,14 +1,124 @@
 import Decimal from 'decimal.js';
-import { Connection, PublicKey } from '@solana/web3.js';
-import { ArbOpportunity } from '../pools/types';
-import { config, wallet } from '../config';
+import { ArbOpportunity, PoolInfo } from '../pools/types';
+import { PoolManager } from '../pools/poolManager';
+import { WalletBalances } from '../execution/executionContext';
+import { config, wallet, TOKENS } from '../config';
+
+// Per-leg cost assumptions (lamports)
+const BASE_FEE_LAMPORTS = 5_000;
+const TOKEN_ACCOUNT_RENT_LAMPORTS = 2_039_280;
+
+export interface RiskCheck {
+  allowed: boolean;
+  reason?: string;
+}
 
 /**
  * Risk Manager
- * 
+ *
  * Guards against:
- * - Oversized positions
- * - Stale data
- * - Low balance
- * - Rapid consecutive failures
+ * - Oversized positions (per-token inventory cap)
+ * - Stale data (pool lastUpdate older than config.maxPoolAgeMs)
+ * - Low balance (trade size + fees + ATA rent)
+ * - Rapid consecutive failures (cooldown after N in a row)
+ * - Token-2022 mints we can't safely hold (transfer hook, permanent delegate, non-transferable)
+ *
+ * Balances come from the execution context's background reads, so a check
+ * makes no RPC calls between detection and signing.
  */
+export class RiskManager {
+  private consecutiveFailures = 0;
+  private cooldownUntil = 0;
+
+  constructor(private poolManager: PoolManager, private balances: WalletBalances) {}
+
+  canExecute(opp: ArbOpportunity): RiskCheck {
+    const now = Date.now();
+
+    if (now < this.cooldownUntil) {
+      return { allowed: false, reason: `cooldown after ${config.maxConsecutiveFailures} failures (${Math.ceil((this.cooldownUntil - now) / 1000)}s left)` };
+    }
+
+    if (opp.expiresAt && now > opp.expiresAt) {
+      return { allowed: false, reason: `${opp.type} opportunity expired` };
+    }
+
+    for (const hop of opp.route) {
+      for (const mint of [hop.inputMint, hop.outputMint]) {
+        const restriction = this.poolManager.mints.restriction(mint);
+        if (restriction) return { allowed: false, reason: `token ${mint.toBase58().slice(0, 8)}... ${restriction}` };
+      }
+      const age = now - hop.pool.lastUpdate;
+      if (age > config.maxPoolAgeMs) {
+        return { allowed: false, reason: `stale ${hop.pool.dex} pool ${hop.pool.address.toBase58().slice(0, 8)}... (${age}ms old)` };
+      }
+    }
+
+    const balanceCheck = this.checkBalance(opp);
+    if (!balanceCheck.allowed) return balanceCheck;
+
+    return this.checkExposure(opp);
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.consecutiveFailures >= config.maxConsecutiveFailures) {
+      this.cooldownUntil = Date.now() + config.failureCooldownMs;
+      this.consecutiveFailures = 0;
+      console.log(`   🧊 ${config.maxConsecutiveFailures} failures in a row — cooling down for ${config.failureCooldownMs / 1000}s`);
+    }
+  }
+
+  /** Wallet must cover the trade, per-leg fees, any bundle tip and rent for ATAs the legs may create. */
+  private checkBalance(opp: ArbOpportunity): RiskCheck {
+    const legs = opp.route.length;
+    const required = opp.inputAmount
+      .add(legs * BASE_FEE_LAMPORTS)
+      .add(opp.expectedProfit.mul(config.maxFeeProfitFraction).ceil()) // priority fee cap (see Executor)
+      .add(legs * TOKEN_ACCOUNT_RENT_LAMPORTS)
+      .add(config.submitMode === 'jito' ? config.jitoTipLamports : 0);
+
+    const balance = this.balances.walletLamports();
+    if (balance === null) return { allowed: false, reason: 'wallet balance not read yet' };
+
+    if (required.gt(balance)) {
+      return { allowed: false, reason: `low balance: ${balance / 1e9} SOL < ${required.div(1e9).toFixed(4)} SOL required` };
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Value the token inventory we already hold (leftovers from failed leg 2s)
+   * plus this trade's size, and compare against the per-token cap. Held
+   * tokens are priced on the deepest SOL/token pool — not the opportunity's
+   * sell pool, which on a triangular route pairs a bridge mint with SOL.
+   */
+  private checkExposure(opp: ArbOpportunity): RiskCheck {
+    const ata = this.poolManager.mints.ata(opp.tokenMint, wallet.publicKey);
+    const balance = this.balances.tokenAccountBalance(ata);
+    if (balance === null) return { allowed: false, reason: `exposure: ${opp.tokenMint.toBase58().slice(0, 8)}... balance not tracked` };
+    const held = new Decimal(balance.toString());
+    const solReserve = (p: PoolInfo) => (p.tokenA.equals(TOKENS.SOL) ? p.reserveA : p.reserveB);
+    const [pricingPool] = this.poolManager.getPoolsForPair(TOKENS.SOL, opp.tokenMint)
+      .sort((a, b) => solReserve(b).cmp(solReserve(a)));
+    if (!pricingPool && held.gt(0)) {
+      return { allowed: false, reason: `exposure: no SOL pool to value held ${opp.tokenMint.toBase58().slice(0, 8)}...` };
+    }
+    const price = pricingPool ? this.poolManager.getSpotPrice(pricingPool, TOKENS.SOL) : new Decimal(0); // SOL per token, raw
+    const heldLamports = held.mul(price);
+    const exposure = heldLamports.add(opp.inputAmount);
+    const cap = new Decimal(config.maxTokenExposureSol).mul(1e9);
+
+    if (exposure.gt(cap)) {
+      return {
+        allowed: false,
+        reason: `exposure cap: ${exposure.div(1e9).toFixed(4)} SOL in ${opp.tokenMint.toBase58().slice(0, 8)}... > ${config.maxTokenExposureSol} SOL`,
+      };
+    }
+    return { allowed: true };
+  }
+}
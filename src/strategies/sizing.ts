@@ -0,0 +1,49 @@
+import Decimal from 'decimal.js';
+
+// Golden-section search settings for trade sizing
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+const SEARCH_ITERATIONS = 40;
+export const MIN_TRADE_LAMPORTS = new Decimal(1_000_000); // 0.001 SOL
+
+/**
+ * Find the input in [MIN_TRADE_LAMPORTS, cap] that maximizes `profitAt`.
+ *
+ * Round-trip profit through constant-product curves is concave in the input,
+ * so a golden-section search converges on the optimum. Linear quotes peak at
+ * the boundary, so the cap itself is always checked too.
+ */
+export function maximizeProfit(
+  profitAt: (input: Decimal) => Decimal,
+  cap: Decimal,
+): { input: Decimal; profit: Decimal } | null {
+  if (cap.lt(MIN_TRADE_LAMPORTS)) return null;
+  // Cheap pre-check: no edge at the smallest size means no edge at any size on concave curves
+  if (profitAt(MIN_TRADE_LAMPORTS).lte(0)) return null;
+
+  let lo = MIN_TRADE_LAMPORTS;
+  let hi = cap;
+  let x1 = hi.minus(hi.minus(lo).mul(GOLDEN_RATIO)).floor();
+  let x2 = lo.plus(hi.minus(lo).mul(GOLDEN_RATIO)).floor();
+  let f1 = profitAt(x1);
+  let f2 = profitAt(x2);
+
+  for (let i = 0; i < SEARCH_ITERATIONS && hi.minus(lo).gt(MIN_TRADE_LAMPORTS); i++) {
+    if (f1.lt(f2)) {
+      lo = x1;
+      x1 = x2; f1 = f2;
+      x2 = lo.plus(hi.minus(lo).mul(GOLDEN_RATIO)).floor();
+      f2 = profitAt(x2);
+    } else {
+      hi = x2;
+      x2 = x1; f2 = f1;
+      x1 = hi.minus(hi.minus(lo).mul(GOLDEN_RATIO)).floor();
+      f1 = profitAt(x1);
+    }
+  }
+
+  const candidates = [
+    { input: f1.gt(f2) ? x1 : x2, profit: Decimal.max(f1, f2) },
+    { input: cap, profit: profitAt(cap) },
+  ];
+  return candidates.reduce((a, b) => (b.profit.gt(a.profit) ? b : a));
+}
@@ -1,10 +1,70 @@
 import { PublicKey } from '@solana/web3.js';
 import Decimal from 'decimal.js';
-import { PoolInfo, ArbOpportunity } from '../pools/types';
+import { PoolInfo, ArbOpportunity, RouteHop } from '../pools/types';
 import { PoolManager } from '../pools/poolManager';
 import { config } from '../config';
+import { maximizeProfit } from './sizing';
 
 /**
  * Spatial Arbitrage Strategy
- * 
+ *
+ * Same token, different venues: buy on the pool where the token is cheap,
+ * sell on the pool where it is expensive, within the same cycle.
+ *
+ * For every ordered (buyPool, sellPool) pair we search for the SOL input
+ * that maximizes round-trip profit under each pool's own pricing curve,
+ * capped at config.maxTradeSizeSol. With config.requireSlotConsistency on,
+ * pairs whose pools were decoded too many slots apart are skipped.
  */
+export class SpatialStrategy {
+  constructor(private poolManager: PoolManager, private clock: () => number = Date.now) {}
+
+  findOpportunities(pools: PoolInfo[], baseMint: PublicKey, maxInput: Decimal): ArbOpportunity[] {
+    const opportunities: ArbOpportunity[] = [];
+    const cap = Decimal.min(maxInput, new Decimal(config.maxTradeSizeSol).mul(1e9)).floor();
+
+    for (const buyPool of pools) {
+      for (const sellPool of pools) {
+        if (buyPool === sellPool) continue;
+
+        const tokenMint = this.otherMint(buyPool, baseMint);
+        const sellTokenMint = this.otherMint(sellPool, baseMint);
+        if (!tokenMint || !sellTokenMint || !tokenMint.equals(sellTokenMint)) continue;
+        if (!this.poolManager.slotsConsistent([buyPool, sellPool])) continue;
+
+        const route: RouteHop[] = [
+          { pool: buyPool, inputMint: baseMint, outputMint: tokenMint },
+          { pool: sellPool, inputMint: tokenMint, outputMint: baseMint },
+        ];
+        const best = maximizeProfit(
+          input => this.poolManager.quoteRoute(route, input).minus(input),
+          cap,
+        );
+        if (!best || best.profit.lte(0)) continue;
+
+        const profitBps = best.profit.div(best.input).mul(10000).toNumber();
+        if (profitBps < config.minProfitBps) continue;
+
+        opportunities.push({
+          type: 'spatial',
+          buyPool,
+          sellPool,
+          tokenMint,
+          route,
+          inputAmount: best.input,
+          expectedProfit: best.profit,
+          profitBps: Math.floor(profitBps),
+          timestamp: this.clock(),
+        });
+      }
+    }
+
+    return opportunities.sort((a, b) => b.profitBps - a.profitBps);
+  }
+
+  private otherMint(pool: PoolInfo, baseMint: PublicKey): PublicKey | null {
+    if (pool.tokenA.equals(baseMint)) return pool.tokenB;
+    if (pool.tokenB.equals(baseMint)) return pool.tokenA;
+    return null;
+  }
+}
@@ -1,11 +1,146 @@
-import { Connection, PublicKey } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
 import Decimal from 'decimal.js';
-import { PoolInfo, ArbOpportunity } from '../pools/types';
+import { PoolInfo, ArbOpportunity, RouteHop } from '../pools/types';
 import { PoolManager } from '../pools/poolManager';
 import { config } from '../config';
+import { maximizeProfit } from './sizing';
+
+const HISTORY_MS = 60_000;        // keep one minute of samples per pool
+const MAX_SAMPLES = 240;
+const MOVE_LOOKBACK_MS = 10_000;  // window a sibling move is measured over
+
+interface PriceSample {
+  timestamp: number;
+  price: Decimal; // SOL per token, raw units
+}
 
 /**
  * Temporal Arbitrage Strategy (Lasagne-inspired)
- * 
+ *
+ * After a whale trade moves one venue, sibling pools for the same token often
+ * lag by several slots before arbitrageurs or the next swap re-price them.
+ *
+ * We keep a short per-pool price history (fed by PriceStream updates and
+ * PoolInfo.lastUpdate) and look for a "leader" pool that moved by at least
+ * config.temporalMoveBps while a "lagger" has not been updated since.
+ * The trade buys on the cheap side and sells on the expensive side; the
+ * opportunity carries a confidence score that decays to zero at expiresAt.
+ * The slot-consistency requirement doesn't apply here: the lagger is stale
+ * by construction.
  */
+export class TemporalStrategy {
+  private history = new Map<string, PriceSample[]>();
+
+  constructor(
+    private poolManager: PoolManager,
+    private clock: () => number = Date.now, // backtests replay on the recording's clock
+  ) {}
+
+  /** Record a fresh price sample for a pool (call on every stream update). */
+  recordUpdate(pool: PoolInfo, baseMint: PublicKey): void {
+    const price = this.poolManager.getSpotPrice(pool, baseMint);
+    if (price.lte(0)) return;
+
+    const key = pool.address.toBase58();
+    const samples = this.history.get(key) || [];
+    const last = samples[samples.length - 1];
+    if (last && last.timestamp >= pool.lastUpdate) return;
+
+    samples.push({ timestamp: pool.lastUpdate, price });
+    const cutoff = pool.lastUpdate - HISTORY_MS;
+    while (samples.length > MAX_SAMPLES || (samples.length > 0 && samples[0].timestamp < cutoff)) {
+      samples.shift();
+    }
+    this.history.set(key, samples);
+  }
+
+  findOpportunities(pools: PoolInfo[], baseMint: PublicKey): ArbOpportunity[] {
+    const opportunities: ArbOpportunity[] = [];
+    const now = this.clock();
+    const cap = new Decimal(config.maxTradeSizeSol).mul(1e9).floor();
+
+    // Pick up updates that arrived without a stream callback (API refresh etc.)
+    for (const pool of pools) this.recordUpdate(pool, baseMint);
+
+    for (const leader of pools) {
+      const move = this.recentMove(leader, now);
+      if (!move) continue;
+
+      for (const lagger of pools) {
+        if (lagger === leader) continue;
+        // Lagger must not have been re-priced since the leader moved
+        if (lagger.lastUpdate >= move.timestamp) continue;
+
+        const laggerPrice = this.poolManager.getSpotPrice(lagger, baseMint);
+        if (laggerPrice.lte(0)) continue;
+
+        // Gap in the direction of the move: positive = lagger hasn't caught up
+        const gapBps = move.price.div(laggerPrice).minus(1).mul(10000).mul(Math.sign(move.bps)).toNumber();
+        if (gapBps < Math.abs(move.bps) / 2) continue;
+
+        // Leader moved up → token is cheap on the lagger; moved down → cheap on the leader
+        const [buyPool, sellPool] = move.bps > 0 ? [lagger, leader] : [leader, lagger];
+        const tokenMint = buyPool.tokenA.equals(baseMint) ? buyPool.tokenB : buyPool.tokenA;
+        const route: RouteHop[] = [
+          { pool: buyPool, inputMint: baseMint, outputMint: tokenMint },
+          { pool: sellPool, inputMint: tokenMint, outputMint: baseMint },
+        ];
+
+        const best = maximizeProfit(
+          input => this.poolManager.quoteRoute(route, input).minus(input),
+          cap,
+        );
+        if (!best || best.profit.lte(0)) continue;
+
+        const profitBps = best.profit.div(best.input).mul(10000).toNumber();
+        if (profitBps < config.minProfitBps) continue;
+
+        const expiresAt = move.timestamp + config.temporalDecayMs;
+        const decay = Math.max(0, 1 - (now - move.timestamp) / config.temporalDecayMs);
+        const catchUp = Math.min(1, gapBps / Math.abs(move.bps));
+
+        opportunities.push({
+          type: 'temporal',
+          buyPool,
+          sellPool,
+          tokenMint,
+          route,
+          inputAmount: best.input,
+          expectedProfit: best.profit,
+          profitBps: Math.floor(profitBps),
+          timestamp: now,
+          confidence: catchUp * decay,
+          expiresAt,
+        });
+      }
+    }
+
+    return opportunities.sort((a, b) => b.profitBps - a.profitBps);
+  }
+
+  /**
+   * Latest price move on a pool within the lookback window, if it is large
+   * enough and recent enough to still be exploitable.
+   */
+  private recentMove(pool: PoolInfo, now: number): { bps: number; price: Decimal; timestamp: number } | null {
+    const samples = this.history.get(pool.address.toBase58());
+    if (!samples || samples.length < 2) return null;
+
+    const latest = samples[samples.length - 1];
+    if (now - latest.timestamp > config.temporalDecayMs) return null;
+
+    // Reference = newest sample at or before the start of the lookback window (or the oldest we have)
+    const windowStart = latest.timestamp - MOVE_LOOKBACK_MS;
+    let reference = samples[0];
+    for (const s of samples) {
+      if (s.timestamp > windowStart) break;
+      reference = s;
+    }
+    if (reference === latest) return null;
+
+    const bps = latest.price.div(reference.price).minus(1).mul(10000).toNumber();
+    if (Math.abs(bps) < config.temporalMoveBps) return null;
 
+    return { bps, price: latest.price, timestamp: latest.timestamp };
+  }
+}
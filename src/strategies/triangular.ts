@@ -1,10 +1,110 @@
 import { PublicKey } from '@solana/web3.js';
 import Decimal from 'decimal.js';
-import { PoolInfo, ArbOpportunity } from '../pools/types';
+import { PoolInfo, ArbOpportunity, RouteHop } from '../pools/types';
 import { PoolManager } from '../pools/poolManager';
-import { config, TOKENS } from '../config';
+import { config, BRIDGE_MINTS } from '../config';
+import { maximizeProfit } from './sizing';
 
 /**
  * Triangular Arbitrage Strategy
- * 
-**/
\ No newline at end of file
+ *
+ * 3-hop cycles that start and end in SOL, e.g. SOL → BONK → USDC → SOL.
+ * Builds a token graph (mint → pools) from every known pool, then for each
+ * SOL/X pool walks X → bridge → SOL in both directions:
+ *   SOL → X → bridge → SOL
+ *   SOL → bridge → X → SOL
+ * Each cycle is sized with the same golden-section search as spatial, and
+ * is subject to the same slot-consistency requirement across all three pools.
+ */
+export class TriangularStrategy {
+  constructor(private poolManager: PoolManager, private clock: () => number = Date.now) {}
+
+  findOpportunities(pools: PoolInfo[], baseMint: PublicKey, maxInput: Decimal): ArbOpportunity[] {
+    const opportunities: ArbOpportunity[] = [];
+    const cap = Decimal.min(maxInput, new Decimal(config.maxTradeSizeSol).mul(1e9)).floor();
+    const graph = this.buildGraph(this.poolManager.getAllPools());
+
+    for (const basePool of pools) {
+      const tokenMint = this.otherMint(basePool, baseMint);
+      if (!tokenMint) continue;
+
+      for (const bridgeMint of BRIDGE_MINTS) {
+        if (bridgeMint.equals(tokenMint) || bridgeMint.equals(baseMint)) continue;
+        const tokenBridgePools = this.poolsBetween(graph, tokenMint, bridgeMint);
+        const bridgeBasePools = this.poolsBetween(graph, bridgeMint, baseMint);
+
+        for (const midPool of tokenBridgePools) {
+          for (const closePool of bridgeBasePools) {
+            const cycles: RouteHop[][] = [
+              [
+                { pool: basePool, inputMint: baseMint, outputMint: tokenMint },
+                { pool: midPool, inputMint: tokenMint, outputMint: bridgeMint },
+                { pool: closePool, inputMint: bridgeMint, outputMint: baseMint },
+              ],
+              [
+                { pool: closePool, inputMint: baseMint, outputMint: bridgeMint },
+                { pool: midPool, inputMint: bridgeMint, outputMint: tokenMint },
+                { pool: basePool, inputMint: tokenMint, outputMint: baseMint },
+              ],
+            ];
+
+            for (const route of cycles) {
+              const opp = this.evaluate(route, tokenMint, cap);
+              if (opp) opportunities.push(opp);
+            }
+          }
+        }
+      }
+    }
+
+    return opportunities.sort((a, b) => b.profitBps - a.profitBps);
+  }
+
+  private evaluate(route: RouteHop[], tokenMint: PublicKey, cap: Decimal): ArbOpportunity | null {
+    if (!this.poolManager.slotsConsistent(route.map(hop => hop.pool))) return null;
+
+    const best = maximizeProfit(
+      input => this.poolManager.quoteRoute(route, input).minus(input),
+      cap,
+    );
+    if (!best || best.profit.lte(0)) return null;
+
+    const profitBps = best.profit.div(best.input).mul(10000).toNumber();
+    if (profitBps < config.minProfitBps) return null;
+
+    return {
+      type: 'triangular',
+      buyPool: route[0].pool,
+      sellPool: route[route.length - 1].pool,
+      tokenMint,
+      route,
+      inputAmount: best.input,
+      expectedProfit: best.profit,
+      profitBps: Math.floor(profitBps),
+      timestamp: this.clock(),
+    };
+  }
+
+  /** Adjacency map: mint (base58) → pools containing that mint */
+  private buildGraph(allPools: PoolInfo[]): Map<string, PoolInfo[]> {
+    const graph = new Map<string, PoolInfo[]>();
+    for (const pool of allPools) {
+      for (const mint of [pool.tokenA, pool.tokenB]) {
+        const key = mint.toBase58();
+        if (!graph.has(key)) graph.set(key, []);
+        graph.get(key)!.push(pool);
+      }
+    }
+    return graph;
+  }
+
+  private poolsBetween(graph: Map<string, PoolInfo[]>, a: PublicKey, b: PublicKey): PoolInfo[] {
+    return (graph.get(a.toBase58()) || []).filter(p => p.tokenA.equals(b) || p.tokenB.equals(b));
+  }
+
+  private otherMint(pool: PoolInfo, baseMint: PublicKey): PublicKey | null {
+    if (pool.tokenA.equals(baseMint)) return pool.tokenB;
+    if (pool.tokenB.equals(baseMint)) return pool.tokenA;
+    return null;
+  }
+}
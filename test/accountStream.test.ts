@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server, ServerCredentials, ServerDuplexStream } from '@grpc/grpc-js';
+import { SubscribeRequest, SubscribeUpdate } from '@triton-one/yellowstone-grpc';
+import { GeyserAccountStream } from '../src/pools/accountStream';
+import { randomKey } from './fixtures';
+
+type Call = ServerDuplexStream<SubscribeRequest, SubscribeUpdate>;
+
+// The one Geyser method the stream uses (the package exports the messages, not the service)
+const GEYSER_SERVICE = {
+  subscribe: {
+    path: '/geyser.Geyser/Subscribe',
+    requestStream: true,
+    responseStream: true,
+    requestSerialize: (request: SubscribeRequest) => Buffer.from(SubscribeRequest.encode(request).finish()),
+    requestDeserialize: (bytes: Buffer) => SubscribeRequest.decode(bytes),
+    responseSerialize: (update: SubscribeUpdate) => Buffer.from(SubscribeUpdate.encode(update).finish()),
+    responseDeserialize: (bytes: Buffer) => SubscribeUpdate.decode(bytes),
+  },
+};
+
+/** Local Geyser server: records every subscribe call and the filters written on it */
+async function fakeGeyser() {
+  const calls: { call: Call; requests: SubscribeRequest[] }[] = [];
+  const server = new Server();
+  server.addService(GEYSER_SERVICE, {
+    subscribe: (call: Call) => {
+      const entry = { call, requests: [] as SubscribeRequest[] };
+      calls.push(entry);
+      call.on('data', (request: SubscribeRequest) => entry.requests.push(request));
+      call.on('end', () => call.end());
+    },
+  });
+  const port = await new Promise<number>((resolve, reject) =>
+    server.bindAsync('127.0.0.1:0', ServerCredentials.createInsecure(), (e, p) => (e ? reject(e) : resolve(p))));
+  return { url: `http://127.0.0.1:${port}`, calls, close: () => server.forceShutdown() };
+}
+
+async function waitFor(condition: () => boolean, what: string, timeoutMs = 5_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error(`timed out waiting for ${what}`);
+    await new Promise(r => setTimeout(r, 20));
+  }
+}
+
+/** Accounts in the newest filter written on a call */
+const filtered = (requests: SubscribeRequest[]) =>
+  [...requests].reverse().find(r => r.accounts.pools)?.accounts.pools.account ?? [];
+
+const [PROCESSED, CONFIRMED] = [0, 1];
+const slotUpdate = (slot: number, status = PROCESSED): SubscribeUpdate => ({ filters: [], slot: { slot: String(slot), status }, createdAt: undefined });
+const accountUpdate = (pubkey: Uint8Array, slot: number, data: Buffer): SubscribeUpdate => ({
+  filters: ['pools'],
+  account: {
+    account: { pubkey, lamports: '1', owner: randomKey().toBytes(), executable: false, rentEpoch: '0', data, writeVersion: '1' },
+    slot: String(slot),
+    isStartup: false,
+  },
+  createdAt: undefined,
+});
+
+test('gRPC stream: filters, account delivery, observed slots and reconnect', async () => {
+  const geyser = await fakeGeyser();
+  const stream = new GeyserAccountStream(geyser.url, undefined);
+  try {
+    const [pool, vault, quiet] = [randomKey(), randomKey(), randomKey()];
+    const received: { data: string; slot: number }[] = [];
+    stream.watch(pool, (data, slot) => received.push({ data: data.toString(), slot }));
+    stream.watch(quiet, () => {});
+
+    assert.equal(await stream.start(), 2);
+    await waitFor(() => geyser.calls.length === 1 && filtered(geyser.calls[0].requests).length === 2, 'initial filter');
+    assert.equal(stream.observedSlot(pool), null); // subscribed, but nothing delivered yet
+
+    // Account updates reach their handler and observe only the account they carry
+    geyser.calls[0].call.write(slotUpdate(101));
+    geyser.calls[0].call.write(accountUpdate(pool.toBytes(), 100, Buffer.from('state')));
+    await waitFor(() => received.length === 1, 'account update');
+    assert.deepEqual(received, [{ data: 'state', slot: 100 }]);
+    assert.equal(stream.observedSlot(pool), 100);
+    assert.equal(stream.observedSlot(quiet), null);
+    assert.equal(stream.observedSlot(vault), null);
+    assert.equal(stream.lag().tipSlot, 101);
+
+    // A confirmed slot shows every subscribed account it didn't update is unchanged through it
+    geyser.calls[0].call.write(slotUpdate(102, CONFIRMED));
+    await waitFor(() => stream.observedSlot(quiet) === 102, 'confirmed slot');
+    assert.equal(stream.observedSlot(pool), 102);
+
+    // Watching after start re-sends the filter; the new account is only vouched for by later confirmed slots
+    stream.watch(vault, () => {});
+    await waitFor(() => filtered(geyser.calls[0].requests).length === 3, 'updated filter');
+    assert.equal(stream.observedSlot(vault), null);
+    geyser.calls[0].call.write(slotUpdate(103, CONFIRMED));
+    await waitFor(() => stream.observedSlot(vault) === 103, 'vault observed');
+
+    // A dropped stream reconnects with the current filter; nothing counts as observed in between
+    geyser.calls[0].call.end();
+    await waitFor(() => stream.observedSlot(pool) === null, 'disconnect');
+    await waitFor(() => geyser.calls.length === 2 && filtered(geyser.calls[1].requests).length === 3, 'reconnect');
+    await waitFor(() => stream.observedSlot(pool) === 100, 'resubscribed');
+  } finally {
+    await stream.close();
+    geyser.close();
+  }
+});
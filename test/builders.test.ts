@@ -0,0 +1,128 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NATIVE_MINT, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import BN from 'bn.js';
+import { PROGRAMS } from '../src/config';
+import { getSwapBuilder } from '../src/execution/builders';
+import { swapTickArrayStarts } from '../src/pools/orca';
+import {
+  getCreatorVaultPDA, getPumpFunFeeConfig, getPumpFunGlobalVolumeAccumulator, getPumpFunUserVolumeAccumulator,
+} from '../src/pools/pumpfun';
+import { PUMPSWAP_FEE_PROGRAM } from '../src/pools/pumpswap';
+import { CPMM_POOL_SIZE } from '../src/pools/raydium';
+import { FixtureAccounts, account, pool, randomKey } from './fixtures';
+
+const owner = randomKey();
+const swap = { amount: new BN(1_000_000), minAmountOut: new BN(990_000), maxPriceMoveBps: 100, owner };
+
+test('Raydium CPMM: accounts decoded from the pool account, token programs from the mint owners', async () => {
+  const [ammConfig, vault0, vault1] = [randomKey(), randomKey(), randomKey()];
+  const cpmm = pool({ dex: 'raydium', poolType: 'cpmm', tokenProgramB: TOKEN_2022_PROGRAM_ID });
+  const data = Buffer.alloc(CPMM_POOL_SIZE);
+  ammConfig.toBuffer().copy(data, 8);
+  vault0.toBuffer().copy(data, 72);
+  vault1.toBuffer().copy(data, 104);
+  cpmm.tokenA.toBuffer().copy(data, 168);
+  cpmm.tokenB.toBuffer().copy(data, 200);
+  const accounts = new FixtureAccounts()
+    .set(cpmm.address, account(data, PROGRAMS.RAYDIUM_CPMM))
+    .set(cpmm.tokenA, account(Buffer.alloc(82), TOKEN_PROGRAM_ID))
+    .set(cpmm.tokenB, account(Buffer.alloc(82), TOKEN_2022_PROGRAM_ID));
+
+  // token1 → token0: input side is vault1 / Token-2022
+  const built = await getSwapBuilder(cpmm)!.build({ ...swap, pool: cpmm, inputMint: cpmm.tokenB, outputMint: cpmm.tokenA }, accounts);
+  assert.ok(built);
+  const [ix] = built.instructions;
+  const keys = ix.keys.map(k => k.pubkey.toBase58());
+  assert.ok(ix.programId.equals(PROGRAMS.RAYDIUM_CPMM));
+  assert.equal(keys[2], ammConfig.toBase58());
+  assert.equal(keys[4], getAssociatedTokenAddressSync(cpmm.tokenB, owner, false, TOKEN_2022_PROGRAM_ID).toBase58());
+  assert.equal(keys[6], vault1.toBase58());
+  assert.equal(keys[7], vault0.toBase58());
+  assert.equal(keys[8], TOKEN_2022_PROGRAM_ID.toBase58());
+  assert.equal(keys[9], TOKEN_PROGRAM_ID.toBase58());
+  assert.equal(ix.data.readBigUInt64LE(8), 1_000_000n);
+  assert.equal(ix.data.readBigUInt64LE(16), 990_000n);
+  assert.deepEqual(built.atas.map(a => a.tokenProgram.toBase58()), [TOKEN_2022_PROGRAM_ID.toBase58(), TOKEN_PROGRAM_ID.toBase58()]);
+});
+
+test('Orca Whirlpool: swap_v2 from live concentrated state, per-mint token programs, no account reads', async () => {
+  const starts = swapTickArrayStarts(0, 64, true);
+  const whirlpool = pool({
+    dex: 'orca',
+    poolType: 'whirlpool',
+    vaultA: randomKey(),
+    vaultB: randomKey(),
+    tokenProgramB: TOKEN_2022_PROGRAM_ID,
+    concentrated: {
+      tickSpacing: 64, feeRate: 3000, liquidity: 10n ** 12n, sqrtPrice: 1n << 64n,
+      tickCurrentIndex: 0, tickArrayStarts: starts, ticks: [],
+    },
+  });
+  const accounts = new FixtureAccounts();
+
+  const built = await getSwapBuilder(whirlpool)!.build({ ...swap, pool: whirlpool, inputMint: whirlpool.tokenA, outputMint: whirlpool.tokenB }, accounts);
+  assert.ok(built);
+  assert.equal(accounts.reads.length, 0);
+  const [ix] = built.instructions;
+  const keys = ix.keys.map(k => k.pubkey.toBase58());
+  assert.equal(ix.data.subarray(0, 8).toString('hex'), '2b04ed0b1ac91e62'); // swap_v2
+  assert.equal(ix.data.length, 43);
+  assert.equal(ix.data.readUInt8(41), 1);   // a_to_b
+  assert.equal(ix.data.readUInt8(42), 0);   // no remaining accounts info
+  assert.equal(keys[0], TOKEN_PROGRAM_ID.toBase58());
+  assert.equal(keys[1], TOKEN_2022_PROGRAM_ID.toBase58());
+  assert.equal(keys[2], PROGRAMS.MEMO.toBase58());
+  assert.equal(keys[5], whirlpool.tokenA.toBase58());
+  assert.equal(keys[6], whirlpool.tokenB.toBase58());
+  assert.equal(keys[9], getAssociatedTokenAddressSync(whirlpool.tokenB, owner, false, TOKEN_2022_PROGRAM_ID).toBase58());
+  assert.equal(ix.keys.length, 15);
+});
+
+test('Orca Whirlpool: tick arrays outside the loaded ones must exist on-chain', async () => {
+  const whirlpool = pool({
+    dex: 'orca',
+    poolType: 'whirlpool',
+    vaultA: randomKey(),
+    vaultB: randomKey(),
+    concentrated: {
+      tickSpacing: 64, feeRate: 3000, liquidity: 10n ** 12n, sqrtPrice: 1n << 64n,
+      tickCurrentIndex: 0, tickArrayStarts: swapTickArrayStarts(0, 64, true), ticks: [],
+    },
+  });
+  const accounts = new FixtureAccounts();
+
+  // b → a walks upwards, into arrays that weren't loaded and aren't in the fixture
+  const built = await getSwapBuilder(whirlpool)!.build({ ...swap, pool: whirlpool, inputMint: whirlpool.tokenB, outputMint: whirlpool.tokenA }, accounts);
+  assert.equal(built, null);
+  assert.equal(accounts.reads.length, 3);
+});
+
+test('Pump.fun: creator vault from the curve, fee recipient from Global, volume accumulators on buys only', async () => {
+  const [creator, feeRecipient] = [randomKey(), randomKey()];
+  const curve = pool({
+    dex: 'pumpfun', poolType: 'bonding-curve', tokenA: NATIVE_MINT,
+    bondingCurve: {
+      virtualTokenReserves: 1n, virtualSolReserves: 1n, realTokenReserves: 1n, realSolReserves: 1n,
+      tokenTotalSupply: 1n, complete: false, creator,
+    },
+    pumpfun: { feeBps: 95, creatorFeeBps: 5, feeRecipient },
+  });
+  const accounts = new FixtureAccounts();
+
+  const buy = await getSwapBuilder(curve)!.build({ ...swap, pool: curve, inputMint: NATIVE_MINT, outputMint: curve.tokenB }, accounts);
+  const sell = await getSwapBuilder(curve)!.build({ ...swap, pool: curve, inputMint: curve.tokenB, outputMint: NATIVE_MINT }, accounts);
+  assert.ok(buy && sell);
+  const buyKeys = buy.instructions[0].keys.map(k => k.pubkey.toBase58());
+  const sellKeys = sell.instructions[0].keys.map(k => k.pubkey.toBase58());
+  assert.equal(accounts.reads.length, 0);
+  assert.equal(buyKeys[1], feeRecipient.toBase58());
+  assert.equal(buyKeys[9], getCreatorVaultPDA(creator).toBase58());
+  assert.equal(sellKeys[8], getCreatorVaultPDA(creator).toBase58());
+  assert.deepEqual(buyKeys.slice(12), [
+    getPumpFunGlobalVolumeAccumulator(), getPumpFunUserVolumeAccumulator(owner), getPumpFunFeeConfig(), PUMPSWAP_FEE_PROGRAM,
+  ].map(k => k.toBase58()));
+  assert.deepEqual(sellKeys.slice(12), [getPumpFunFeeConfig(), PUMPSWAP_FEE_PROGRAM].map(k => k.toBase58()));
+  assert.equal(buy.instructions[0].data.length, 25);
+  assert.equal(sell.instructions[0].data.length, 24);
+});
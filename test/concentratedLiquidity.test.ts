@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Q64, simulateExactIn } from '../src/pools/concentratedLiquidity';
+import { quoteWhirlpool } from '../src/pools/orca';
+import { quoteRaydiumClmm } from '../src/pools/raydiumClmm';
+import { ConcentratedState } from '../src/pools/types';
+
+// √P = 1 (tick 0) with L = 2^40: both virtual reserves are L, and Q64 / L is exact
+const L = 1n << 40n;
+const state = (overrides: Partial<ConcentratedState> = {}): ConcentratedState => ({
+  tickSpacing: 1, feeRate: 3000, liquidity: L, sqrtPrice: Q64, tickCurrentIndex: 0,
+  tickArrayStarts: [-176, -88, 0, 88, 176], ticks: [], ...overrides,
+});
+
+test('simulateExactIn: inside one range the swap is constant product over the virtual reserves, less the fee', () => {
+  // 1,000,000 in, 0.3% fee → 997,000 reaches the curve; floor(L · 997000 / (L + 997000)) = 996,999
+  assert.equal(simulateExactIn(state(), false, 1_000_000n, 263), 996_999n);
+  assert.equal(simulateExactIn(state(), true, 1_000_000n, -263), 996_999n);
+  assert.equal(simulateExactIn(state(), false, 0n, 263), 0n);
+});
+
+test('whirlpool: crossing an initialized tick picks up its liquidity', () => {
+  // 549,865,777 B (+ 1,654,560 fee) carries √P to tick 10, where a second position doubles L;
+  // the other 448,479,663 (447,134,223 after fee) trade at 2L, so they slip less than at L
+  const crossing = state({ ticks: [{ index: 10, liquidityNet: L }] });
+  assert.equal(quoteWhirlpool(crossing, false, 1_000_000_000n), 996_187_496n);
+  assert.equal(quoteWhirlpool(state(), false, 1_000_000_000n), 996_096_773n);
+});
+
+test('whirlpool: input the loaded liquidity cannot fill quotes zero', () => {
+  // The only position ends at tick 10: past it there is nothing to buy before the boundary
+  assert.equal(quoteWhirlpool(state({ ticks: [{ index: 10, liquidityNet: -L }] }), false, 1_000_000_000n), 0n);
+  // One of the three arrays the swap walks isn't loaded
+  assert.equal(quoteWhirlpool(state({ tickArrayStarts: [0, 88] }), false, 1_000_000n), 0n);
+});
+
+test('raydium CLMM: same math as Whirlpool, bounded by the initialized arrays swap_v2 walks', () => {
+  const crossing = state({ tickArrayStarts: [0, 60, 120], ticks: [{ index: 10, liquidityNet: L }] });
+  assert.equal(quoteRaydiumClmm(crossing, false, 1_000_000_000n), 996_187_496n);
+
+  // Three initialized arrays end at tick 179, short of what 15e9 in needs; with only the
+  // current array initialized the program skips ahead, and the quote runs to the loaded window
+  assert.equal(quoteRaydiumClmm(state({ tickArrayStarts: [0, 60, 120] }), false, 15_000_000_000n), 0n);
+  assert.equal(quoteRaydiumClmm(state({ tickArrayStarts: [0] }), false, 15_000_000_000n), 14_754_319_226n);
+});
@@ -0,0 +1,89 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Connection, PublicKey, SystemInstruction, TransactionInstruction } from '@solana/web3.js';
+import { createCloseAccountInstruction, createSyncNativeInstruction, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import Decimal from 'decimal.js';
+import { Executor } from '../src/execution/executor';
+import { SwapInstructions } from '../src/execution/builders';
+import { PoolManager } from '../src/pools/poolManager';
+import { ArbOpportunity, PoolInfo } from '../src/pools/types';
+import { config, wallet } from '../src/config';
+import { pool, randomKey } from './fixtures';
+
+const SOL = new PublicKey('So11111111111111111111111111111111111111112');
+
+/**
+ * Executor whose leg builds, ATA lookups and send are stubbed: each leg is one
+ * marker instruction, and the instructions that would have been simulated and
+ * sent are recorded instead.
+ */
+function stubbedExecutor() {
+  const connection = new Connection('http://127.0.0.1:1');
+  const poolManager = new PoolManager(connection);
+  const executor = new Executor(connection, poolManager, { poolAccountData: () => undefined });
+  const sent: TransactionInstruction[][] = [];
+  const legs: { pool: PoolInfo; amount: string; ix: TransactionInstruction }[] = [];
+  Object.assign(executor, {
+    buildLeg: async (inputMint: PublicKey, outputMint: PublicKey, amount: string, pool: PoolInfo): Promise<SwapInstructions> => {
+      const ix = new TransactionInstruction({ programId: randomKey(), keys: [] });
+      legs.push({ pool, amount, ix });
+      return { instructions: [ix], atas: [], wrapsSol: inputMint.equals(SOL) || outputMint.equals(SOL), computeUnits: 100_000 };
+    },
+    ensureAtas: async () => [],
+    simulateAndSend: async (ixs: TransactionInstruction[]) => { sent.push(ixs); return 'signature'; },
+  });
+  return { executor, sent, legs };
+}
+
+/** SOL → A → B → SOL over constant-product pools that each pay `rate` tokens out per token in */
+function triangle(rate: number): ArbOpportunity {
+  const [a, b] = [randomKey(), randomKey()];
+  const hop = (inputMint: PublicKey, outputMint: PublicKey) => ({
+    pool: pool({ tokenA: inputMint, tokenB: outputMint, reserveA: new Decimal(1e12), reserveB: new Decimal(1e12 * rate), fee: 0 }),
+    inputMint,
+    outputMint,
+  });
+  const route = [hop(SOL, a), hop(a, b), hop(b, SOL)];
+  const inputAmount = new Decimal(1e9);
+  const expectedProfit = inputAmount.mul(rate ** 3 - 1).floor();
+  return {
+    type: 'triangular', buyPool: route[0].pool, sellPool: route[2].pool, tokenMint: a, route,
+    inputAmount, expectedProfit, profitBps: Math.floor((rate ** 3 - 1) * 10_000), timestamp: Date.now(),
+  };
+}
+
+beforeEach(() => {
+  Object.assign(config, { dryRun: false, atomicExecution: true, submitMode: 'rpc', slippageBps: 50, maxFeeProfitFraction: 0.3 });
+});
+
+test('atomic: a route whose chained minimum out falls below input + fees is refused', async () => {
+  // ~0.9% gross over three hops, less than the 1.5% three chained slippage cuts take
+  const { executor, sent } = stubbedExecutor();
+  assert.equal(await executor.execute(triangle(1.003)), false);
+  assert.equal(sent.length, 0);
+});
+
+test('atomic: a route whose chained minimum out covers input + fees is sent', async () => {
+  const { executor, sent, legs } = stubbedExecutor();
+  assert.equal(await executor.execute(triangle(1.01)), true);
+  assert.equal(sent.length, 1);
+  // Later hops spend the minimum the hop before is quoted to deliver
+  assert.equal(legs[0].amount, '1000000000');
+  assert.ok(new Decimal(legs[1].amount).lt(new Decimal(1e9).mul(1.01).mul(0.995)));
+});
+
+test('atomic: wraps the input, runs every leg in route order, then closes the WSOL account', async () => {
+  const { executor, sent, legs } = stubbedExecutor();
+  const ataIx = new TransactionInstruction({ programId: randomKey(), keys: [] });
+  Object.assign(executor, { ensureAtas: async () => [ataIx] });
+  assert.equal(await executor.execute(triangle(1.01)), true);
+
+  const wsolAta = getAssociatedTokenAddressSync(SOL, wallet.publicKey);
+  const [ixs] = sent;
+  assert.equal(ixs.length, 7);
+  assert.equal(ixs[0], ataIx);
+  assert.deepEqual(SystemInstruction.decodeTransfer(ixs[1]), { fromPubkey: wallet.publicKey, toPubkey: wsolAta, lamports: 1_000_000_000n });
+  assert.deepEqual(ixs[2], createSyncNativeInstruction(wsolAta));
+  assert.deepEqual(ixs.slice(3, 6), legs.map(leg => leg.ix));
+  assert.deepEqual(ixs[6], createCloseAccountInstruction(wsolAta, wallet.publicKey, wallet.publicKey));
+});
@@ -0,0 +1,45 @@
+import { AccountInfo, Keypair, PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { AccountSource } from '../src/execution/builders';
+import { PoolInfo } from '../src/pools/types';
+
+export const randomKey = () => Keypair.generate().publicKey;
+
+export function account(data: Buffer, owner: PublicKey = PublicKey.default): AccountInfo<Buffer> {
+  return { data, owner, lamports: 1_000_000, executable: false };
+}
+
+/** AccountSource over fixed account data; records every address read */
+export class FixtureAccounts implements AccountSource {
+  readonly reads: PublicKey[] = [];
+  private accounts = new Map<string, AccountInfo<Buffer>>();
+
+  set(address: PublicKey, info: AccountInfo<Buffer>): this {
+    this.accounts.set(address.toBase58(), info);
+    return this;
+  }
+
+  async getAccountInfo(address: PublicKey): Promise<AccountInfo<Buffer> | null> {
+    return (await this.getMultipleAccountsInfo([address]))[0];
+  }
+
+  async getMultipleAccountsInfo(addresses: PublicKey[]): Promise<(AccountInfo<Buffer> | null)[]> {
+    this.reads.push(...addresses);
+    return addresses.map(a => this.accounts.get(a.toBase58()) ?? null);
+  }
+}
+
+export function pool(overrides: Partial<PoolInfo>): PoolInfo {
+  return {
+    address: randomKey(),
+    dex: 'raydium',
+    poolType: 'cpmm',
+    tokenA: randomKey(),
+    tokenB: randomKey(),
+    reserveA: new Decimal(1e12),
+    reserveB: new Decimal(1e12),
+    fee: 25,
+    lastUpdate: Date.now(),
+    ...overrides,
+  };
+}
@@ -0,0 +1,154 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Connection, PublicKey, TransactionInstruction, TransactionMessage, VersionedTransactionResponse } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { JITO_TIP_ACCOUNTS } from '../src/execution/submission';
+import { TradeJournal, queryJournal, readJournal, unreconciled } from '../src/journal/journal';
+import { TradeReconciler } from '../src/journal/reconciler';
+import { ArbOpportunity, PoolInfo } from '../src/pools/types';
+import { pool, randomKey } from './fixtures';
+
+const SOL = new PublicKey('So11111111111111111111111111111111111111112');
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'journal-test-'));
+let files = 0;
+const journalFile = () => path.join(dir, `journal-${++files}.jsonl`);
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+function opportunity(type: ArbOpportunity['type'], tokenMint: PublicKey, buy: PoolInfo, sell: PoolInfo): ArbOpportunity {
+  return {
+    type, tokenMint, buyPool: buy, sellPool: sell,
+    route: [
+      { pool: buy, inputMint: SOL, outputMint: tokenMint },
+      { pool: sell, inputMint: tokenMint, outputMint: SOL },
+    ],
+    inputAmount: new Decimal(500_000_000),
+    expectedProfit: new Decimal(20_000_000),
+    profitBps: 400,
+    timestamp: Date.now(),
+  };
+}
+
+test('readJournal: attempts merged with their latest reconciliation; torn and orphan lines skipped', () => {
+  const file = journalFile();
+  const journal = new TradeJournal(file);
+  const token = randomKey();
+  const raydium = pool({ dex: 'raydium' });
+  const orca = pool({ dex: 'orca', poolType: 'whirlpool' });
+
+  const first = journal.begin(opportunity('spatial', token, raydium, orca), 'atomic');
+  first.transactions.push({ label: 'atomic', signature: 'sig-1' });
+  journal.finish(first, 'landed');
+  const second = journal.begin(opportunity('temporal', randomKey(), orca, raydium), 'dry-run');
+  journal.finish(second, 'dry-run');
+
+  const reconciliation = { id: first.id, reconciledAt: 1, transactions: [], fees: '15000', tips: '0', rent: '0', tokenDelta: '0', realizedPnl: '100' };
+  journal.reconciled(reconciliation);
+  journal.reconciled({ ...reconciliation, reconciledAt: 2, realizedPnl: '200' });
+  journal.reconciled({ ...reconciliation, id: 'unknown-attempt' });
+  fs.appendFileSync(file, '{"type":"attempt","id":"torn'); // crash mid-write
+
+  const entries = readJournal(file);
+  assert.equal(entries.length, 2);
+  assert.equal(entries[0].id, first.id);
+  assert.equal(entries[0].pair, 'raydium/orca');
+  assert.equal(entries[0].tokenMint, token.toBase58());
+  assert.equal(entries[0].inputAmount, '500000000');
+  assert.deepEqual(entries[0].route.map(hop => hop.dex), ['raydium', 'orca']);
+  assert.equal(entries[0].reconciliation?.realizedPnl, '200');
+  assert.equal(entries[1].reconciliation, undefined);
+  assert.deepEqual(readJournal(path.join(dir, 'missing.jsonl')), []);
+});
+
+test('queryJournal: token prefix, strategy, and DEX pair in either order', () => {
+  const file = journalFile();
+  const journal = new TradeJournal(file);
+  const token = randomKey();
+  const raydium = pool({ dex: 'raydium' });
+  const orca = pool({ dex: 'orca', poolType: 'whirlpool' });
+  const meteora = pool({ dex: 'meteora', poolType: 'dlmm' });
+  for (const opp of [
+    opportunity('spatial', token, raydium, orca),
+    opportunity('spatial', randomKey(), orca, raydium),
+    opportunity('triangular', token, meteora, orca),
+  ]) journal.finish(journal.begin(opp, 'atomic'), 'failed');
+  const entries = readJournal(file);
+
+  assert.equal(queryJournal(entries, { token: token.toBase58().slice(0, 6) }).length, 2);
+  assert.equal(queryJournal(entries, { strategy: 'spatial' }).length, 2);
+  assert.equal(queryJournal(entries, { pair: 'Orca/Raydium' }).length, 2);
+  assert.equal(queryJournal(entries, { pair: 'orca/meteora', token: token.toBase58() }).length, 1);
+  assert.equal(queryJournal(entries, {}).length, 3);
+  assert.equal(unreconciled(entries).length, 0); // nothing was sent
+});
+
+test('reconciler: realized PnL, fee, tip, rent and leftover tokens from pre/post balances', async () => {
+  const owner = randomKey();
+  const token = randomKey();
+  const [wsolAta, tokenAta, poolVault] = [randomKey(), randomKey(), randomKey()];
+  const tipAccount = JITO_TIP_ACCOUNTS[0];
+  const message = new TransactionMessage({
+    payerKey: owner,
+    recentBlockhash: randomKey().toBase58(),
+    instructions: [new TransactionInstruction({
+      programId: randomKey(),
+      keys: [wsolAta, tokenAta, poolVault, tipAccount].map(pubkey => ({ pubkey, isSigner: false, isWritable: true })),
+    })],
+  }).compileToV0Message();
+  const index = (key: PublicKey) => message.staticAccountKeys.findIndex(k => k.equals(key));
+
+  // Fee 15000 + tip 10000 + a new token ATA's rent, paid from SOL; the swap itself nets +0.02 WSOL
+  const RENT = 2_039_280;
+  const balances = (entries: [PublicKey, number][]) => {
+    const list = message.staticAccountKeys.map(() => 0);
+    for (const [key, lamports] of entries) list[index(key)] = lamports;
+    return list;
+  };
+  const tokenBalance = (account: PublicKey, mint: PublicKey, amount: number, balanceOwner = owner) => ({
+    accountIndex: index(account), mint: mint.toBase58(), owner: balanceOwner.toBase58(),
+    uiTokenAmount: { amount: String(amount), decimals: 9, uiAmount: null, uiAmountString: '' },
+  });
+  const tx = {
+    slot: 321,
+    transaction: { message, signatures: ['sig'] },
+    meta: {
+      err: null,
+      fee: 15_000,
+      preBalances: balances([[owner, 1_000_000_000], [wsolAta, RENT + 500_000_000], [tipAccount, 5_000], [poolVault, RENT + 7e9]]),
+      postBalances: balances([[owner, 1_000_000_000 - 15_000 - 10_000 - RENT], [wsolAta, RENT + 520_000_000], [tokenAta, RENT], [tipAccount, 15_000], [poolVault, RENT + 7e9]]),
+      preTokenBalances: [tokenBalance(wsolAta, SOL, 500_000_000), tokenBalance(poolVault, token, 7e9, randomKey())],
+      postTokenBalances: [tokenBalance(wsolAta, SOL, 520_000_000), tokenBalance(tokenAta, token, 5), tokenBalance(poolVault, token, 7e9 - 5, randomKey())],
+      loadedAddresses: { writable: [], readonly: [] },
+    },
+  } as unknown as VersionedTransactionResponse;
+  const connection = { getTransaction: async (signature: string) => (signature === 'sig-landed' ? tx : null) } as unknown as Connection;
+
+  const file = journalFile();
+  const journal = new TradeJournal(file);
+  const attempt = journal.begin(opportunity('spatial', token, pool({}), pool({ dex: 'orca', poolType: 'whirlpool' })), 'bundle');
+  attempt.transactions.push({ label: 'bundle', signature: 'sig-landed' });
+  journal.finish(attempt, 'landed');
+
+  const result = await new TradeReconciler(connection, journal, owner).reconcile(attempt);
+  assert.ok(result);
+  assert.deepEqual(result.transactions, [{
+    signature: 'sig-landed', landed: true, slot: 321, err: undefined,
+    fee: '15000', tip: '10000', rent: String(RENT), solDelta: '17935720', tokenDelta: '5',
+  }]);
+  assert.equal(result.realizedPnl, '17935720'); // +20000000 WSOL − fee − tip − rent
+  assert.equal(readJournal(file)[0].reconciliation?.realizedPnl, '17935720');
+});
+
+test('reconciler: a failed attempt whose transaction never landed cost nothing', async () => {
+  const connection = { getTransaction: async () => null } as unknown as Connection;
+  const journal = new TradeJournal(journalFile());
+  const attempt = journal.begin(opportunity('spatial', randomKey(), pool({}), pool({ dex: 'orca', poolType: 'whirlpool' })), 'bundle');
+  attempt.transactions.push({ label: 'bundle', signature: 'dropped' });
+  journal.finish(attempt, 'failed');
+
+  const result = await new TradeReconciler(connection, journal, randomKey()).reconcile(attempt);
+  assert.equal(result?.transactions[0].landed, false);
+  assert.equal(result?.realizedPnl, '0');
+});
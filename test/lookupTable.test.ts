@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AddressLookupTableAccount, AddressLookupTableInstruction, Connection, PublicKey,
+  TransactionInstruction, TransactionMessage, VersionedTransaction,
+} from '@solana/web3.js';
+import { LookupTableManager } from '../src/execution/lookupTable';
+import { wallet } from '../src/config';
+import { pool, randomKey } from './fixtures';
+
+/** Connection that applies create / extend transactions to in-memory tables */
+function tableConnection() {
+  const tables = new Map<string, PublicKey[]>();
+  const sent: string[] = [];
+  let slot = 1_000;
+  const connection = {
+    getSlot: async () => slot++,
+    getLatestBlockhash: async () => ({ blockhash: PublicKey.default.toBase58(), lastValidBlockHeight: 1 }),
+    confirmTransaction: async () => ({ value: { err: null } }),
+    sendRawTransaction: async (raw: Buffer) => {
+      const message = TransactionMessage.decompile(VersionedTransaction.deserialize(raw).message);
+      for (const ix of message.instructions) {
+        const type = AddressLookupTableInstruction.decodeInstructionType(ix);
+        sent.push(type);
+        if (type === 'CreateLookupTable') tables.set(ix.keys[0].pubkey.toBase58(), []);
+        if (type === 'ExtendLookupTable') {
+          const { lookupTable, addresses } = AddressLookupTableInstruction.decodeExtendLookupTable(ix);
+          tables.get(lookupTable.toBase58())!.push(...addresses);
+        }
+      }
+      return 'signature';
+    },
+    getAddressLookupTable: async (key: PublicKey) => {
+      const addresses = tables.get(key.toBase58());
+      return {
+        value: addresses && new AddressLookupTableAccount({
+          key,
+          state: { deactivationSlot: 2n ** 64n - 1n, lastExtendedSlot: 0, lastExtendedSlotStartIndex: 0, authority: wallet.publicKey, addresses: [...addresses] },
+        }),
+      };
+    },
+  } as unknown as Connection;
+  return { connection, tables, sent };
+}
+
+test('lookup tables: traded accounts go in first and a full table rolls over to a new one', async () => {
+  const { connection, tables, sent } = tableConnection();
+  const manager = new LookupTableManager(connection);
+  await manager.init();
+  assert.deepEqual(sent, ['CreateLookupTable']);
+
+  // 100 untracked-so-far pools (vaultA / vaultB / address each), then one trade's accounts
+  const pools = Array.from({ length: 100 }, () => pool({ vaultA: randomKey(), vaultB: randomKey() }));
+  manager.trackPools(pools);
+  const traded = [randomKey(), randomKey()];
+  manager.track([new TransactionInstruction({ programId: randomKey(), keys: traded.map(pubkey => ({ pubkey, isSigner: false, isWritable: true })) })]);
+
+  // Queuing never sends anything; the flush does
+  assert.deepEqual(sent, ['CreateLookupTable']);
+  await manager.flush();
+
+  const [first, second] = [...tables.values()];
+  assert.equal(tables.size, 2);
+  assert.equal(first.length, 256);
+  assert.equal(manager.getTables().length, 2);
+  assert.equal(first.length + second.length, new Set([...first, ...second].map(a => a.toBase58())).size);
+  // Shared programs, then the traded accounts, then pools in discovery order
+  const position = (a: PublicKey) => first.findIndex(k => k.equals(a));
+  assert.ok(traded.every(a => position(a) >= 0 && position(a) < position(pools[0].address)));
+  assert.ok(second.some(a => a.equals(pools[99].vaultB!)));
+});
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { quoteDlmm } from '../src/pools/meteora';
+import { Q64 } from '../src/pools/concentratedLiquidity';
+import { DlmmBin, DlmmState } from '../src/pools/types';
+
+const NOW = 1_700_000_000;
+const bin = (amountX: bigint, amountY: bigint, price = Q64): DlmmBin => ({ amountX, amountY, price });
+
+/**
+ * Active bin 69 is the last of bin array 0: 1,000 X at price 1. Bin 70 opens
+ * array 1 with 1,000,000 X at price 2 (Y per X). Base fee 0.1% (10000 × 10 × 10 / 1e9).
+ */
+const pair = (overrides: Partial<DlmmState> = {}): DlmmState => ({
+  binStep: 10, activeId: 69, baseFactor: 10_000, baseFeePowerFactor: 0, variableFeeControl: 0,
+  maxVolatilityAccumulator: 350_000, volatilityAccumulator: 0, volatilityReference: 0, indexReference: 69,
+  filterPeriod: 30, decayPeriod: 600, reductionFactor: 5_000, lastUpdateTimestamp: NOW,
+  binArrayIndexes: [0, 1],
+  bins: new Map([[69, bin(1_000n, 1_000_000n)], [70, bin(1_000_000n, 0n, 2n * Q64)]]),
+  ...overrides,
+});
+
+test('DLMM: a swap inside the active bin pays the base fee, rounded up', () => {
+  // 100,000 X in: fee ceil(100,000 × 0.1%) = 100, the other 99,900 trade at price 1
+  assert.equal(quoteDlmm(pair(), true, 100_000n, NOW), 99_900n);
+});
+
+test('DLMM: a swap crossing into the next bin array drains the active bin first', () => {
+  // Bin 69: 1,000 X out for 1,000 + ceil(1,000 × 1e6 / (1e9 − 1e6)) = 1,002 Y.
+  // Bin 70: 8,998 Y left, fee ceil(8.998) = 9 → 8,989 / 2 = 4,494 X.
+  assert.equal(quoteDlmm(pair(), false, 10_000n, NOW), 5_494n);
+  // Array 1 isn't loaded: the swap would run past what it can reference
+  assert.equal(quoteDlmm(pair({ binArrayIndexes: [0] }), false, 10_000n, NOW), 0n);
+  // Array 1 doesn't exist on-chain: the program skips to array 2's first bin
+  const skipping = pair({ binArrayIndexes: [0, 2], bins: new Map([[69, bin(1_000n, 0n)], [140, bin(1_000_000n, 0n, 2n * Q64)]]) });
+  assert.equal(quoteDlmm(skipping, false, 10_000n, NOW), 5_494n);
+});
+
+test('DLMM: the variable fee grows with each bin crossed and decays with time since the last swap', () => {
+  // variableFeeControl 1e7: volatility 10,000 → ceil((10,000 × 10)² × 1e7 / 1e11) = 1e6 (0.1%),
+  // volatility 20,000 → 4e6 (0.4%)
+  const volatile = pair({ variableFeeControl: 10_000_000, volatilityReference: 10_000 });
+  // Bin 69 at 0.2%: 1,000 + ceil(2.004) = 1,003 Y. Bin 70 one bin further at 0.5%: 8,997 − ceil(44.985) = 8,952 → 4,476 X
+  assert.equal(quoteDlmm(volatile, false, 10_000n, NOW), 5_476n);
+
+  // Inside the decay period the reference restarts at volatilityAccumulator × reductionFactor = 10,000
+  const decaying = pair({ variableFeeControl: 10_000_000, volatilityAccumulator: 20_000 });
+  assert.equal(quoteDlmm(decaying, false, 10_000n, NOW + 100), 5_476n);
+  // Past it the reference is 0: bin 69 at the base fee (1,002 Y), bin 70 at 0.2%: 8,998 − 18 = 8,980 → 4,490 X
+  assert.equal(quoteDlmm(decaying, false, 10_000n, NOW + 600), 5_490n);
+});
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PublicKey } from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE, AccountType, ExtensionType, MINT_SIZE, MintLayout, PermanentDelegateLayout,
+  TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, TransferFeeConfigLayout, TransferHookLayout,
+} from '@solana/spl-token';
+import { TransferFeeConfig, parseMint, transferFeeAt } from '../src/pools/mintMetadata';
+import { randomKey } from './fixtures';
+
+function baseMint(decimals: number): Buffer {
+  const data = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode({
+    mintAuthorityOption: 0, mintAuthority: PublicKey.default, supply: 1_000_000n, decimals,
+    isInitialized: true, freezeAuthorityOption: 0, freezeAuthority: PublicKey.default,
+  }, data);
+  return data;
+}
+
+/** Token-2022 mint: base mint padded to the account size, account type, then TLV extensions */
+function token2022Mint(decimals: number, extensions: [ExtensionType, Buffer][]): Buffer {
+  const tlv = extensions.map(([type, value]) => {
+    const header = Buffer.alloc(4);
+    header.writeUInt16LE(type, 0);
+    header.writeUInt16LE(value.length, 2);
+    return Buffer.concat([header, value]);
+  });
+  const padded = Buffer.concat([baseMint(decimals), Buffer.alloc(ACCOUNT_SIZE - MINT_SIZE)]);
+  return Buffer.concat([padded, Buffer.from([AccountType.Mint]), ...tlv]);
+}
+
+function encode<T>(layout: { span: number; encode(value: T, buffer: Buffer): number }, value: T): Buffer {
+  const data = Buffer.alloc(layout.span);
+  layout.encode(value, data);
+  return data;
+}
+
+const transferFee = (older: [bigint, bigint, number], newer: [bigint, bigint, number]) => encode(TransferFeeConfigLayout, {
+  transferFeeConfigAuthority: randomKey(),
+  withdrawWithheldAuthority: randomKey(),
+  withheldAmount: 123n,
+  olderTransferFee: { epoch: older[0], maximumFee: older[1], transferFeeBasisPoints: older[2] },
+  newerTransferFee: { epoch: newer[0], maximumFee: newer[1], transferFeeBasisPoints: newer[2] },
+});
+
+test('legacy SPL mint: decimals only, no extensions', () => {
+  const meta = parseMint(randomKey(), TOKEN_PROGRAM_ID, baseMint(6))!;
+  assert.ok(meta.tokenProgram.equals(TOKEN_PROGRAM_ID));
+  assert.equal(meta.decimals, 6);
+  assert.equal(meta.transferFee, null);
+  assert.equal(meta.transferHookProgram, null);
+  assert.equal(meta.permanentDelegate, null);
+  assert.equal(meta.nonTransferable, false);
+});
+
+test('Token-2022 mint: transfer fee, hook, permanent delegate and non-transferable extensions', () => {
+  const [hookProgram, delegate] = [randomKey(), randomKey()];
+  const data = token2022Mint(9, [
+    [ExtensionType.TransferFeeConfig, transferFee([400n, 5_000n, 100], [500n, 1_000_000n, 250])],
+    [ExtensionType.TransferHook, encode(TransferHookLayout, { authority: randomKey(), programId: hookProgram })],
+    [ExtensionType.PermanentDelegate, encode(PermanentDelegateLayout, { delegate })],
+    [ExtensionType.NonTransferable, Buffer.alloc(0)],
+  ]);
+
+  const meta = parseMint(randomKey(), TOKEN_2022_PROGRAM_ID, data)!;
+  assert.ok(meta.tokenProgram.equals(TOKEN_2022_PROGRAM_ID));
+  assert.equal(meta.decimals, 9);
+  assert.deepEqual(meta.transferFee, {
+    older: { epoch: 400n, maximumFee: 5_000n, basisPoints: 100 },
+    newer: { epoch: 500n, maximumFee: 1_000_000n, basisPoints: 250 },
+  });
+  assert.ok(meta.transferHookProgram?.equals(hookProgram));
+  assert.ok(meta.permanentDelegate?.equals(delegate));
+  assert.equal(meta.nonTransferable, true);
+});
+
+test('Token-2022 mint: unset optional keys and unknown extensions are skipped', () => {
+  const data = token2022Mint(6, [
+    [ExtensionType.MintCloseAuthority, Buffer.alloc(32, 7)],
+    [ExtensionType.TransferHook, encode(TransferHookLayout, { authority: randomKey(), programId: PublicKey.default })],
+    [ExtensionType.PermanentDelegate, encode(PermanentDelegateLayout, { delegate: PublicKey.default })],
+  ]);
+  const meta = parseMint(randomKey(), TOKEN_2022_PROGRAM_ID, data)!;
+  assert.equal(meta.transferHookProgram, null);
+  assert.equal(meta.permanentDelegate, null);
+  assert.equal(meta.transferFee, null);
+});
+
+test('Token-2022 mint without extensions, and a truncated account', () => {
+  assert.equal(parseMint(randomKey(), TOKEN_2022_PROGRAM_ID, baseMint(6))!.transferFee, null);
+  assert.equal(parseMint(randomKey(), TOKEN_2022_PROGRAM_ID, Buffer.alloc(40)), null);
+});
+
+test('transfer fee: basis points rounded up, capped, newer fee from its epoch on', () => {
+  const config: TransferFeeConfig = {
+    older: { epoch: 0n, maximumFee: 5_000n, basisPoints: 100 },
+    newer: { epoch: 500n, maximumFee: 1_000_000n, basisPoints: 250 },
+  };
+  assert.equal(transferFeeAt(config, 499n, 10_001n), 101n);      // 1% of 10001, rounded up
+  assert.equal(transferFeeAt(config, 499n, 10_000_000n), 5_000n); // capped at the maximum
+  assert.equal(transferFeeAt(config, 500n, 10_000n), 250n);       // newer fee in force
+  assert.equal(transferFeeAt(config, 500n, 0n), 0n);
+});
@@ -0,0 +1,139 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import { PriceStream } from '../src/pools/priceStream';
+import { AccountStream, AccountUpdateHandler } from '../src/pools/accountStream';
+import { dlmmBinArrayAddress } from '../src/pools/meteora';
+import { DlmmState } from '../src/pools/types';
+import { account, pool, randomKey } from './fixtures';
+
+/** AccountStream that delivers whatever the test pushes */
+class FakeStream implements AccountStream {
+  readonly name = 'fake';
+  handlers = new Map<string, AccountUpdateHandler[]>();
+
+  watch(address: PublicKey, onUpdate: AccountUpdateHandler): void {
+    this.handlers.set(address.toBase58(), [...(this.handlers.get(address.toBase58()) || []), onUpdate]);
+  }
+  unwatch(address: PublicKey): void {
+    this.handlers.delete(address.toBase58());
+  }
+  push(address: PublicKey, data: Buffer, slot: number): void {
+    for (const handler of this.handlers.get(address.toBase58()) || []) handler(data, slot);
+  }
+  async start(): Promise<number> { return this.handlers.size; }
+  lag() { return { tipSlot: 0, slots: 0, ms: 0 }; }
+  observedSlot(): number | null { return null; }
+  async close(): Promise<void> {}
+}
+
+/** Connection whose batched reads answer from `accounts` once `gate` (if any) opens */
+function fakeConnection(accounts: Map<string, AccountInfo<Buffer>>) {
+  const rpc = { calls: 0, gate: null as Promise<void> | null };
+  const connection = {
+    getMultipleAccountsInfoAndContext: async (keys: PublicKey[]) => {
+      rpc.calls++;
+      if (rpc.gate) await rpc.gate;
+      return { context: { slot: 50 }, value: keys.map(k => accounts.get(k.toBase58()) ?? null) };
+    },
+  } as unknown as Connection;
+  return { connection, rpc };
+}
+
+const tokenAccount = (amount: bigint) => { const d = Buffer.alloc(165); d.writeBigUInt64LE(amount, 64); return d; };
+const mint = (supply: bigint) => { const d = Buffer.alloc(82); d.writeBigUInt64LE(supply, 36); return d; };
+const vault = (totalAmount: bigint, lpMint: PublicKey) => {
+  const d = Buffer.alloc(1232);
+  d.writeBigUInt64LE(totalAmount, 11);
+  lpMint.toBuffer().copy(d, 115);
+  return d;
+};
+
+test('dynamic AMM reserves follow vault, LP balance and LP supply updates without RPC reads', async () => {
+  const [aVault, bVault, aLpMint, bLpMint, lpA, lpB] = Array.from({ length: 6 }, randomKey);
+  const damm = pool({ dex: 'meteora', poolType: 'dynamic-amm', vaultA: lpA, vaultB: lpB, damm: { aVault, bVault, aLpMint, bLpMint } });
+  const seeded: [PublicKey, Buffer][] = [
+    [aVault, vault(1_000_000n, aLpMint)], [bVault, vault(4_000_000n, bLpMint)],
+    [lpA, tokenAccount(500n)], [lpB, tokenAccount(250n)],
+    [aLpMint, mint(1_000n)], [bLpMint, mint(1_000n)],
+  ];
+  const accounts = new Map(seeded.map(([k, d]) => [k.toBase58(), account(d)]));
+  const { connection, rpc } = fakeConnection(accounts);
+  const stream = new FakeStream();
+  const prices = new PriceStream(connection, stream);
+
+  await prices.addPools([damm]);
+  assert.equal(rpc.calls, 1); // one seeding read
+  assert.equal(damm.reserveA.toString(), '500000');    // 500 / 1000 LP of 1,000,000
+  assert.equal(damm.reserveB.toString(), '1000000');   // 250 / 1000 LP of 4,000,000
+
+  // A swap moves the vault totals and the pool's LP share; each arrives on its own account
+  stream.push(aVault, vault(1_100_000n, aLpMint), 60);
+  stream.push(lpB, tokenAccount(200n), 61);
+  assert.equal(damm.reserveA.toString(), '550000');
+  assert.equal(damm.reserveB.toString(), '800000');
+  assert.equal(damm.slot, 61);
+  assert.equal(rpc.calls, 1);
+});
+
+const lbPair = (tokenX: PublicKey, tokenY: PublicKey, activeId: number) => {
+  const d = Buffer.alloc(904);
+  d.writeInt32LE(activeId, 76);
+  d.writeUInt16LE(10, 80);
+  tokenX.toBuffer().copy(d, 88);
+  tokenY.toBuffer().copy(d, 120);
+  return d;
+};
+const binArray = (index: number, bins: [number, bigint, bigint][]) => {
+  const d = Buffer.alloc(56 + 70 * 144);
+  d.writeBigInt64LE(BigInt(index), 8);
+  for (const [offset, x, y] of bins) {
+    d.writeBigUInt64LE(x, 56 + offset * 144);
+    d.writeBigUInt64LE(y, 56 + offset * 144 + 8);
+  }
+  return d;
+};
+const dlmmState = (activeId: number): DlmmState => ({
+  binStep: 10, activeId, baseFactor: 0, baseFeePowerFactor: 0, variableFeeControl: 0,
+  maxVolatilityAccumulator: 0, volatilityAccumulator: 0, volatilityReference: 0, indexReference: 0,
+  filterPeriod: 0, decayPeriod: 0, reductionFactor: 0, lastUpdateTimestamp: 0,
+  binArrayIndexes: [0], bins: new Map([[5, { amountX: 1n, amountY: 1n, price: 1n << 64n }]]),
+});
+
+test('DLMM bins stream in; the slot waits for a window reload when the active bin leaves it', async () => {
+  const pair = pool({ dex: 'meteora', poolType: 'dlmm', dlmm: dlmmState(5), slot: 40 });
+  const accounts = new Map<string, AccountInfo<Buffer>>();
+  const { connection, rpc } = fakeConnection(accounts);
+  const stream = new FakeStream();
+  const prices = new PriceStream(connection, stream);
+  await prices.addPools([pair]);
+  assert.equal(stream.handlers.size, 6); // LbPair + bin arrays -2..2
+  assert.equal(rpc.calls, 0);
+
+  // A bin array update replaces that array's bins in place of the loaded ones
+  const bins = pair.dlmm!.bins;
+  stream.push(dlmmBinArrayAddress(pair.address, 0), binArray(0, [[5, 0n, 700n], [6, 300n, 0n]]), 60);
+  assert.notEqual(pair.dlmm!.bins, bins);
+  assert.deepEqual([...pair.dlmm!.bins.keys()].sort(), [5, 6]);
+  assert.equal(pair.dlmm!.bins.get(5)!.amountY, 700n);
+  assert.equal(pair.reserveA.toString(), '300');
+  assert.equal(pair.slot, 60);
+
+  // Active bin moves two arrays up: nothing counts until the new window is loaded and watched
+  let open!: () => void;
+  rpc.gate = new Promise(resolve => { open = resolve; });
+  accounts.set(dlmmBinArrayAddress(pair.address, 2).toBase58(), account(binArray(2, [[0, 0n, 900n]])));
+  stream.push(pair.address, lbPair(pair.tokenA, pair.tokenB, 140), 70);
+  stream.push(dlmmBinArrayAddress(pair.address, 1), binArray(1, []), 71);
+  assert.equal(pair.dlmm!.activeId, 140);
+  assert.equal(pair.slot, 60);
+
+  open();
+  await new Promise(resolve => setImmediate(resolve));
+  assert.equal(rpc.calls, 1);
+  assert.equal(pair.slot, 71);
+  assert.deepEqual(pair.dlmm!.binArrayIndexes, [2]);
+  assert.ok(stream.handlers.has(dlmmBinArrayAddress(pair.address, 4).toBase58()));
+  assert.ok(!stream.handlers.has(dlmmBinArrayAddress(pair.address, -2).toBase58()));
+  assert.ok(stream.handlers.has(dlmmBinArrayAddress(pair.address, 0).toBase58()));
+});
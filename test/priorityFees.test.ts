@@ -0,0 +1,94 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { PriorityFeeEstimator } from '../src/execution/priorityFees';
+import { config } from '../src/config';
+import { randomKey } from './fixtures';
+
+/** Connection whose getRecentPrioritizationFees answers with `fees`, recording the accounts asked about */
+function feeConnection(fees: number[] | Error) {
+  const requests: PublicKey[][] = [];
+  const connection = {
+    getRecentPrioritizationFees: async ({ lockedWritableAccounts }: { lockedWritableAccounts: PublicKey[] }) => {
+      requests.push(lockedWritableAccounts);
+      if (fees instanceof Error) throw fees;
+      return fees.map((prioritizationFee, slot) => ({ slot, prioritizationFee }));
+    },
+  };
+  return { requests, connection: connection as unknown as Connection };
+}
+
+function swapIx(...writable: PublicKey[]): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: randomKey(),
+    keys: [
+      { pubkey: randomKey(), isSigner: true, isWritable: true },   // fee payer: not a market account
+      { pubkey: randomKey(), isSigner: false, isWritable: false },
+      ...writable.map(pubkey => ({ pubkey, isSigner: false, isWritable: true })),
+    ],
+  });
+}
+
+beforeEach(() => {
+  Object.assign(config, {
+    computeUnitMargin: 0.25,
+    priorityFeePercentile: 75,
+    minPriorityFeeMicroLamports: 1_000,
+    maxPriorityFeeMicroLamports: 1_000_000,
+  });
+});
+
+test('CU limit: unitsConsumed plus the margin, never below the floor', () => {
+  const estimator = new PriorityFeeEstimator(feeConnection([]).connection);
+  assert.equal(estimator.computeUnitLimit(100_000), 125_000);
+  assert.equal(estimator.computeUnitLimit(1_000), 20_000);
+});
+
+/** Estimator that has asked about `ixs` once and refreshed since, as the background timer would */
+async function refreshedFor(connection: Connection, ixs: TransactionInstruction[]): Promise<PriorityFeeEstimator> {
+  const estimator = new PriorityFeeEstimator(connection);
+  estimator.microLamportsPerCu(ixs, 200_000, 1e9);
+  await estimator.refresh();
+  return estimator;
+}
+
+test('CU price: the configured percentile of recent fees on the writable, non-signer accounts', async () => {
+  const pool = randomKey();
+  const vault = randomKey();
+  const fees = Array.from({ length: 100 }, (_, i) => (100 - i) * 1_000); // unsorted 100k … 1k
+  const { requests, connection } = feeConnection(fees);
+  const ixs = [swapIx(pool, vault), swapIx(pool)];
+
+  const estimator = await refreshedFor(connection, ixs);
+  assert.equal(estimator.microLamportsPerCu(ixs, 200_000, 1e9), 76_000); // index floor(0.75 × 100) of the sorted fees
+  assert.deepEqual(requests[1].map(a => a.toBase58()), [pool, vault].map(a => a.toBase58()));
+});
+
+test('CU price: clamped to [min, max]', async () => {
+  const ixs = [swapIx(randomKey())];
+  assert.equal((await refreshedFor(feeConnection([0, 0, 10]).connection, ixs)).microLamportsPerCu(ixs, 200_000, 1e9), 1_000);
+  assert.equal((await refreshedFor(feeConnection([5e6, 6e6]).connection, ixs)).microLamportsPerCu(ixs, 200_000, 1e9), 1_000_000);
+});
+
+test('CU price: capped so CU limit × price stays within the fee budget', async () => {
+  const ixs = [swapIx(randomKey())];
+  const estimator = await refreshedFor(feeConnection([500_000]).connection, ixs);
+  assert.equal(estimator.microLamportsPerCu(ixs, 200_000, 1_000), 5_000); // 1000 lamports × 1e6 / 200k CU
+  assert.equal(estimator.microLamportsPerCu(ixs, 200_000, -50), 0);       // no profit, no priority fee
+});
+
+test('CU price: never read inline — new accounts get the network-wide fee until the next refresh', async () => {
+  const ixs = [swapIx(randomKey())];
+  const failing = feeConnection(new Error('Method not found'));
+  assert.equal((await refreshedFor(failing.connection, ixs)).microLamportsPerCu(ixs, 200_000, 1e9), 1_000);
+
+  const { requests, connection } = feeConnection([50_000]);
+  const estimator = new PriorityFeeEstimator(connection);
+  assert.equal(estimator.microLamportsPerCu(ixs, 200_000, 1e9), 1_000); // nothing read yet: the floor
+  assert.equal(requests.length, 0);
+  await estimator.refresh();
+  assert.equal(requests.length, 2); // network-wide, then the account set asked about
+  assert.equal(estimator.microLamportsPerCu(ixs, 200_000, 1e9), 50_000);
+  assert.equal(estimator.microLamportsPerCu([swapIx(randomKey())], 200_000, 1e9), 50_000); // network-wide
+  assert.equal(requests.length, 2);
+});
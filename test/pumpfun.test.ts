@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getBuyQuote, getSellQuote, parseBondingCurve, parsePumpFunGlobal } from '../src/pools/pumpfun';
+import { BondingCurveData, PumpFunState } from '../src/pools/types';
+import { randomKey } from './fixtures';
+
+// 0.95% protocol + 0.05% creator; a 1e6 × 1e6 virtual curve so k = 1e12
+const fees: PumpFunState = { feeBps: 95, creatorFeeBps: 5, feeRecipient: randomKey() };
+const curve = (overrides: Partial<BondingCurveData> = {}): BondingCurveData => ({
+  virtualTokenReserves: 1_000_000n, virtualSolReserves: 1_000_000n, realTokenReserves: 800_000n,
+  realSolReserves: 500_000n, tokenTotalSupply: 1_000_000n, complete: false, creator: randomKey(), ...overrides,
+});
+
+test('pump.fun buy: the budget covers the curve cost plus both fees, each rounded up', () => {
+  // 10,102 − 2 rounding units = 10,100 → 10,000 through the curve at 1%; 1e12 / 1,010,000 + 1 = 990,100 left
+  assert.equal(getBuyQuote(curve(), 10_102n, fees), 9_900n);
+  // The program charges 9,900 × 1e6 / 990,100 + 1 = 9,999, plus ceil(94.99) + ceil(4.9995) = 100: within budget
+  // No creator, no creator fee: 10,100 / 1.0095 = 10,004 → 1e12 / 1,010,004 + 1 = 990,096 left
+  assert.equal(getBuyQuote(curve({ creator: null }), 10_102n, fees), 9_904n);
+  // Capped at the tokens still for sale; nothing once complete
+  assert.equal(getBuyQuote(curve(), 10_000_000n, fees), 800_000n);
+  assert.equal(getBuyQuote(curve({ complete: true }), 10_102n, fees), 0n);
+});
+
+test('pump.fun sell: each fee rounds up against the seller', () => {
+  // 10,000 × 1e6 / 1,010,000 = 9,900; ceil(94.05) + ceil(4.95) = 100 (rounding down would charge 99)
+  assert.equal(getSellQuote(curve(), 10_000n, fees), 9_800n);
+  // Capped at the SOL in the curve: 5,000 − ceil(47.5) − ceil(2.5) = 4,949
+  assert.equal(getSellQuote(curve({ realSolReserves: 5_000n }), 10_000n, fees), 4_949n);
+  assert.equal(getSellQuote(curve({ complete: true }), 10_000n, fees), 0n);
+});
+
+test('pump.fun accounts: fees from Global, creator from the curve when it has one', () => {
+  const feeRecipient = randomKey();
+  const global = Buffer.alloc(741);
+  feeRecipient.toBuffer().copy(global, 41);
+  global.writeBigUInt64LE(95n, 105);
+  global.writeBigUInt64LE(5n, 154);
+  assert.deepEqual(parsePumpFunGlobal(global), { feeBps: 95, creatorFeeBps: 5, feeRecipient });
+  assert.equal(parsePumpFunGlobal(global.subarray(0, 150)), null);
+
+  const creator = randomKey();
+  const data = Buffer.alloc(82);
+  data.writeBigUInt64LE(1_000n, 8);
+  creator.toBuffer().copy(data, 49);
+  assert.ok(parseBondingCurve(data)!.creator!.equals(creator));
+  // Pre-creator-fee curves end at `complete`
+  assert.equal(parseBondingCurve(data.subarray(0, 49))!.creator, null);
+});
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getPumpSwapBuyCost, getPumpSwapBuyQuote, getPumpSwapSellQuote } from '../src/pools/pumpswap';
+import { PumpSwapState } from '../src/pools/types';
+import { randomKey } from './fixtures';
+
+// 0.2% LP + 0.05% protocol + 0.05% creator over 1e6 base / 1e6 quote
+const fees = (overrides: Partial<PumpSwapState> = {}): PumpSwapState => ({
+  lpFeeBps: 20, protocolFeeBps: 5, coinCreatorFeeBps: 5, coinCreator: randomKey(), protocolFeeRecipient: randomKey(), ...overrides,
+});
+const RESERVE = 1_000_000n;
+
+test('PumpSwap buy: the budget less one unit per fee moves the curve at 0.3%', () => {
+  // 10,033 − 3 = 10,030 → 10,000 into the curve → 1e6 × 10,000 / 1,010,000 = 9,900 base
+  assert.equal(getPumpSwapBuyQuote(fees(), RESERVE, RESERVE, 10_033n), 9_900n);
+  // Without a creator fee: 10,030 / 1.0025 = 10,004 → 9,904
+  assert.equal(getPumpSwapBuyQuote(fees({ coinCreatorFeeBps: 0 }), RESERVE, RESERVE, 10_033n), 9_904n);
+  assert.equal(getPumpSwapBuyQuote(fees(), RESERVE, RESERVE, 3n), 0n);
+});
+
+test('PumpSwap buy cost: ceil curve input plus each fee rounded up', () => {
+  // ceil(1e6 × 9,900 / 990,100) = 9,999; ceil(19.998) + ceil(4.9995) + ceil(4.9995) = 30
+  assert.equal(getPumpSwapBuyCost(fees(), RESERVE, RESERVE, 9_900n), 10_029n);
+  assert.equal(getPumpSwapBuyCost(fees(), RESERVE, RESERVE, RESERVE), -1n);
+});
+
+test('PumpSwap buy: what the quote buys never costs more than the budget', () => {
+  for (const [base, quote] of [[RESERVE, RESERVE], [10n ** 15n, 85n * 10n ** 9n], [206_900_000n, 10n ** 12n]]) {
+    for (const s of [fees(), fees({ coinCreatorFeeBps: 0 }), fees({ lpFeeBps: 0, protocolFeeBps: 0, coinCreatorFeeBps: 0 })]) {
+      for (let budget = 4n; budget < quote / 2n; budget = budget * 7n + 3n) {
+        const out = getPumpSwapBuyQuote(s, base, quote, budget);
+        if (out > 0n) assert.ok(getPumpSwapBuyCost(s, base, quote, out) <= budget, `${budget} buys ${out}`);
+      }
+    }
+  }
+});
+
+test('PumpSwap sell: fees come off the constant-product output, each rounded up', () => {
+  // 1e6 × 10,000 / 1,010,000 = 9,900; ceil(19.8) + ceil(4.95) + ceil(4.95) = 30
+  assert.equal(getPumpSwapSellQuote(fees(), RESERVE, RESERVE, 10_000n), 9_870n);
+  assert.equal(getPumpSwapSellQuote(fees(), RESERVE, RESERVE, 0n), 0n);
+});
@@ -0,0 +1,82 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Connection, PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { RiskManager } from '../src/risk/riskManager';
+import { PoolManager } from '../src/pools/poolManager';
+import { ArbOpportunity, PoolInfo } from '../src/pools/types';
+import { TOKENS, config, wallet } from '../src/config';
+import { pool, randomKey } from './fixtures';
+
+beforeEach(() => {
+  Object.assign(config, {
+    maxPoolAgeMs: 15_000, maxTokenExposureSol: 1, maxConsecutiveFailures: 3, failureCooldownMs: 60_000,
+    submitMode: 'rpc', maxFeeProfitFraction: 0.3,
+  });
+});
+
+/** 0.5 SOL spatial round trip between two fresh SOL/X pools at price 1; the wallet holds `held` X */
+function setup(held: bigint | null = 0n) {
+  const token = randomKey();
+  const manager = new PoolManager(new Connection('http://127.0.0.1:1'));
+  const solPool = (sol: number, tokens: number) =>
+    pool({ tokenA: TOKENS.SOL, tokenB: token, reserveA: new Decimal(sol), reserveB: new Decimal(tokens) });
+  const [buyPool, sellPool] = [solPool(100e9, 100e9), solPool(100e9, 100e9)];
+  manager.add([buyPool, sellPool]);
+  const ata = manager.mints.ata(token, wallet.publicKey);
+  const risk = new RiskManager(manager, {
+    walletLamports: () => 10e9,
+    tokenAccountBalance: (account: PublicKey) => (account.equals(ata) ? held : null),
+  });
+  const hop = (p: PoolInfo, inputMint: PublicKey, outputMint: PublicKey) => ({ pool: p, inputMint, outputMint });
+  const opp: ArbOpportunity = {
+    type: 'spatial', buyPool, sellPool, tokenMint: token,
+    route: [hop(buyPool, TOKENS.SOL, token), hop(sellPool, token, TOKENS.SOL)],
+    inputAmount: new Decimal(0.5e9), expectedProfit: new Decimal(5e6), profitBps: 100, timestamp: Date.now(),
+  };
+  return { risk, opp, manager, solPool };
+}
+
+test('risk: a fresh, funded, unexposed trade is allowed', () => {
+  const { risk, opp } = setup();
+  assert.deepEqual(risk.canExecute(opp), { allowed: true });
+});
+
+test('risk: a pool older than maxPoolAgeMs blocks the trade', () => {
+  const { risk, opp } = setup();
+  opp.sellPool.lastUpdate = Date.now() - 20_000;
+  const check = risk.canExecute(opp);
+  assert.equal(check.allowed, false);
+  assert.match(check.reason!, /^stale raydium pool/);
+});
+
+test('risk: held tokens count towards the exposure cap, valued on the deepest SOL pool', () => {
+  // 0.6 SOL worth of X already held + 0.5 SOL trade > 1 SOL cap
+  const over = setup(600_000_000n);
+  assert.match(over.risk.canExecute(over.opp).reason!, /^exposure cap: 1\.1000 SOL/);
+
+  // A shallow pool pricing X at 0.1 SOL doesn't undervalue the inventory; the deeper one does the pricing
+  over.manager.add([over.solPool(1e9, 10e9)]);
+  assert.equal(over.risk.canExecute(over.opp).allowed, false);
+
+  const under = setup(400_000_000n);
+  assert.equal(under.risk.canExecute(under.opp).allowed, true);
+
+  const untracked = setup(null);
+  assert.match(untracked.risk.canExecute(untracked.opp).reason!, /balance not tracked/);
+});
+
+test('risk: maxConsecutiveFailures in a row start a cooldown; a success in between resets the streak', () => {
+  const { risk, opp } = setup();
+  risk.recordFailure();
+  risk.recordFailure();
+  risk.recordSuccess();
+  risk.recordFailure();
+  assert.equal(risk.canExecute(opp).allowed, true);
+
+  risk.recordFailure();
+  risk.recordFailure();
+  const check = risk.canExecute(opp);
+  assert.equal(check.allowed, false);
+  assert.match(check.reason!, /^cooldown after 3 failures \(60s left\)/);
+});
@@ -0,0 +1,11 @@
+// Loaded before every test file: config reads its wallet and endpoints at import,
+// so point it at a throwaway key and unreachable local endpoints (never a real .env)
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import * as os from 'os';
+import * as path from 'path';
+
+process.env.PRIVATE_KEY = bs58.encode(Keypair.generate().secretKey);
+process.env.RPC_HTTP = 'http://127.0.0.1:1';
+process.env.RPC_WSS = 'ws://127.0.0.1:1';
+process.env.DATA_DIR = path.join(os.tmpdir(), `arb-bot-test-${process.pid}`);
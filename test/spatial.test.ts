@@ -0,0 +1,55 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Connection, PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { PoolManager } from '../src/pools/poolManager';
+import { SpatialStrategy } from '../src/strategies/spatial';
+import { config } from '../src/config';
+import { pool, randomKey } from './fixtures';
+
+const SOL = new PublicKey('So11111111111111111111111111111111111111112');
+const MAX_INPUT = new Decimal(100e9);
+
+/** 100 SOL against `tokens` X at 0.25% */
+const solPool = (token: PublicKey, tokens: number, slot?: number) =>
+  pool({ tokenA: SOL, tokenB: token, reserveA: new Decimal(100e9), reserveB: new Decimal(tokens), slot });
+
+beforeEach(() => {
+  Object.assign(config, { maxTradeSizeSol: 10, minProfitBps: 50, requireSlotConsistency: false, maxSlotSpread: 2 });
+});
+
+test('spatial: buys where the token is cheap, sells where it is dear, sized to the best round trip', () => {
+  const token = randomKey();
+  const dear = solPool(token, 100e9);
+  const cheap = solPool(token, 102e9); // 2% more X per SOL
+  const unrelated = solPool(randomKey(), 90e9);
+  const manager = new PoolManager(new Connection('http://127.0.0.1:1'));
+  const strategy = new SpatialStrategy(manager, () => 1_000);
+
+  const [opp, ...rest] = strategy.findOpportunities([dear, cheap, unrelated], SOL, MAX_INPUT);
+  assert.equal(rest.length, 0);
+  assert.equal(opp.buyPool, cheap);
+  assert.equal(opp.sellPool, dear);
+  assert.ok(opp.tokenMint.equals(token));
+  assert.equal(opp.timestamp, 1_000);
+
+  // Round-trip profit at the chosen size, which beats sizes either side of it and stays under the cap
+  const profitAt = (input: Decimal) => manager.quoteRoute(opp.route, input).minus(input);
+  assert.ok(opp.expectedProfit.eq(profitAt(opp.inputAmount)));
+  assert.ok(opp.inputAmount.lt(10e9));
+  assert.ok(profitAt(opp.inputAmount.mul(1.1).floor()).lt(opp.expectedProfit));
+  assert.ok(profitAt(opp.inputAmount.mul(0.9).floor()).lt(opp.expectedProfit));
+  // ~2% gap less two 0.25% fees and the slippage of the trade
+  assert.ok(opp.profitBps > 50 && opp.profitBps < 150);
+});
+
+test('spatial: a gap the fees eat, or pools decoded too far apart, yields nothing', () => {
+  const token = randomKey();
+  const manager = new PoolManager(new Connection('http://127.0.0.1:1'));
+  const strategy = new SpatialStrategy(manager);
+  assert.deepEqual(strategy.findOpportunities([solPool(token, 100e9), solPool(token, 100.4e9)], SOL, MAX_INPUT), []);
+
+  config.requireSlotConsistency = true;
+  assert.deepEqual(strategy.findOpportunities([solPool(token, 100e9, 100), solPool(token, 102e9, 103)], SOL, MAX_INPUT), []);
+  assert.equal(strategy.findOpportunities([solPool(token, 100e9, 100), solPool(token, 102e9, 102)], SOL, MAX_INPUT).length, 1);
+});
@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Keypair, SystemProgram, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { JITO_TIP_ACCOUNTS, JitoBundleSubmitter, RpcSubmitter } from '../src/execution/submission';
+import { config } from '../src/config';
+
+interface Call { path: string; method: string; params: any[] }
+
+/** Local block engine: answers JSON-RPC per method from `handlers`, recording every call */
+async function mockBlockEngine(handlers: Record<string, (params: any[]) => unknown>) {
+  const calls: Call[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const { method, params } = JSON.parse(body);
+      calls.push({ path: req.url!, method, params });
+      const handler = handlers[method];
+      if (!handler) {
+        res.writeHead(500).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', id: 1, result: handler(params) }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return { url, calls, close: () => new Promise(resolve => server.close(resolve)) };
+}
+
+function signedTx(): VersionedTransaction {
+  const payer = Keypair.generate();
+  const message = new TransactionMessage({
+    payerKey: payer.publicKey,
+    recentBlockhash: bs58.encode(Keypair.generate().publicKey.toBytes()),
+    instructions: [SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: Keypair.generate().publicKey, lamports: 1 })],
+  }).compileToV0Message();
+  const tx = new VersionedTransaction(message);
+  tx.sign([payer]);
+  return tx;
+}
+
+function fallback(signature: string | null) {
+  const sent: VersionedTransaction[][] = [];
+  const submitter = { submit: async (txs: VersionedTransaction[]) => { sent.push(txs); return signature; } };
+  return { sent, submitter: submitter as unknown as RpcSubmitter };
+}
+
+test('tip instruction pays config.jitoTipLamports to a block-engine tip account', () => {
+  const payer = Keypair.generate().publicKey;
+  const [ix] = new JitoBundleSubmitter(fallback(null).submitter, 'http://127.0.0.1:1').tipInstructions(payer);
+  assert.ok(ix.keys[0].pubkey.equals(payer));
+  assert.ok(JITO_TIP_ACCOUNTS.some(a => a.equals(ix.keys[1].pubkey)));
+  assert.equal(ix.data.readBigUInt64LE(4), BigInt(config.jitoTipLamports));
+});
+
+test('bundle sent in order and polled until confirmed; returns the last signature', async () => {
+  let polls = 0;
+  const engine = await mockBlockEngine({
+    sendBundle: () => 'bundle-1',
+    getInflightBundleStatuses: () => ({ value: [{ bundle_id: 'bundle-1', status: 'Pending' }] }),
+    getBundleStatuses: () => (++polls < 2 ? { value: [] } : { value: [{ bundle_id: 'bundle-1', confirmation_status: 'confirmed', err: { Ok: null } }] }),
+  });
+  try {
+    const txs = [signedTx(), signedTx()];
+    const signature = await new JitoBundleSubmitter(fallback(null).submitter, engine.url).submit(txs);
+
+    assert.equal(signature, bs58.encode(txs[1].signatures[0]));
+    const [send] = engine.calls;
+    assert.equal(send.path, '/api/v1/bundles');
+    assert.deepEqual(send.params, [txs.map(tx => Buffer.from(tx.serialize()).toString('base64')), { encoding: 'base64' }]);
+    assert.ok(engine.calls.some(c => c.path === '/api/v1/getInflightBundleStatuses' && c.params[0][0] === 'bundle-1'));
+    assert.equal(polls, 2);
+  } finally {
+    await engine.close();
+  }
+});
+
+test('a bundle the block engine reports failed did not land', async () => {
+  const engine = await mockBlockEngine({
+    sendBundle: () => 'bundle-2',
+    getInflightBundleStatuses: () => ({ value: [{ bundle_id: 'bundle-2', status: 'Failed' }] }),
+  });
+  try {
+    assert.equal(await new JitoBundleSubmitter(fallback(null).submitter, engine.url).submit([signedTx()]), null);
+  } finally {
+    await engine.close();
+  }
+});
+
+test('unreachable block engine: a single transaction falls back to RPC, a multi-transaction bundle does not', async () => {
+  const engine = await mockBlockEngine({}); // every method fails with HTTP 500
+  try {
+    const single = fallback('rpc-signature');
+    assert.equal(await new JitoBundleSubmitter(single.submitter, engine.url).submit([signedTx()]), 'rpc-signature');
+    assert.equal(single.sent.length, 1);
+
+    const bundle = fallback('rpc-signature');
+    assert.equal(await new JitoBundleSubmitter(bundle.submitter, engine.url).submit([signedTx(), signedTx()]), null);
+    assert.equal(bundle.sent.length, 0);
+  } finally {
+    await engine.close();
+  }
+});
@@ -0,0 +1,53 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Connection, PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { PoolManager } from '../src/pools/poolManager';
+import { TemporalStrategy } from '../src/strategies/temporal';
+import { config } from '../src/config';
+import { pool, randomKey } from './fixtures';
+
+const SOL = new PublicKey('So11111111111111111111111111111111111111112');
+
+beforeEach(() => {
+  Object.assign(config, { maxTradeSizeSol: 10, minProfitBps: 50, temporalMoveBps: 150, temporalDecayMs: 4_000 });
+});
+
+/** Two SOL/X pools at price 1; the leader then re-prices X ~6.2% up at t = 5,000 */
+function leaderAndLagger() {
+  const token = randomKey();
+  const leader = pool({ tokenA: SOL, tokenB: token, reserveA: new Decimal(100e9), reserveB: new Decimal(100e9), lastUpdate: 1_000 });
+  const lagger = pool({ tokenA: SOL, tokenB: token, reserveA: new Decimal(100e9), reserveB: new Decimal(100e9), lastUpdate: 1_000 });
+  let now = 1_000;
+  const strategy = new TemporalStrategy(new PoolManager(new Connection('http://127.0.0.1:1')), () => now);
+  strategy.recordUpdate(leader, SOL);
+  strategy.recordUpdate(lagger, SOL);
+
+  Object.assign(leader, { reserveA: new Decimal(103e9), reserveB: new Decimal(97e9), lastUpdate: 5_000 });
+  strategy.recordUpdate(leader, SOL);
+  return { leader, lagger, strategy, at: (t: number) => { now = t; } };
+}
+
+test('temporal: buys on the lagger the leader left behind, with confidence decaying to expiry', () => {
+  const { leader, lagger, strategy, at } = leaderAndLagger();
+  at(5_500);
+  const [opp, ...rest] = strategy.findOpportunities([leader, lagger], SOL);
+  assert.equal(rest.length, 0);
+  assert.equal(opp.type, 'temporal');
+  assert.equal(opp.buyPool, lagger);
+  assert.equal(opp.sellPool, leader);
+  assert.equal(opp.expiresAt, 9_000);
+  // Lagger hasn't moved at all (full catch-up left), 500 of 4,000 ms gone
+  assert.equal(opp.confidence, 0.875);
+});
+
+test('temporal: nothing once the move expires or the lagger re-prices', () => {
+  const expired = leaderAndLagger();
+  expired.at(9_001);
+  assert.deepEqual(expired.strategy.findOpportunities([expired.leader, expired.lagger], SOL), []);
+
+  const caughtUp = leaderAndLagger();
+  caughtUp.at(5_500);
+  caughtUp.lagger.lastUpdate = 5_200;
+  assert.deepEqual(caughtUp.strategy.findOpportunities([caughtUp.leader, caughtUp.lagger], SOL), []);
+});
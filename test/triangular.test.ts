@@ -0,0 +1,46 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Connection, PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { PoolManager } from '../src/pools/poolManager';
+import { TriangularStrategy } from '../src/strategies/triangular';
+import { TOKENS, config } from '../src/config';
+import { pool, randomKey } from './fixtures';
+
+const SOL = new PublicKey('So11111111111111111111111111111111111111112');
+const MAX_INPUT = new Decimal(100e9);
+
+const between = (tokenA: PublicKey, tokenB: PublicKey, reserveA: number, reserveB: number) =>
+  pool({ tokenA, tokenB, reserveA: new Decimal(reserveA), reserveB: new Decimal(reserveB) });
+
+beforeEach(() => {
+  Object.assign(config, { maxTradeSizeSol: 10, minProfitBps: 50, requireSlotConsistency: false });
+});
+
+test('triangular: a cycle closes through a bridge mint in the direction that pays', () => {
+  const token = randomKey();
+  const base = between(SOL, token, 100e9, 100e9);
+  const mid = between(token, TOKENS.USDC, 100e9, 103e9); // X is 3% dear against USDC
+  const close = between(TOKENS.USDC, SOL, 100e9, 100e9);
+  const manager = new PoolManager(new Connection('http://127.0.0.1:1'));
+  manager.add([base, mid, close]);
+
+  const opportunities = new TriangularStrategy(manager).findOpportunities([base], SOL, MAX_INPUT);
+  assert.equal(opportunities.length, 1);
+  const [opp] = opportunities;
+  assert.equal(opp.type, 'triangular');
+  assert.deepEqual(opp.route.map(hop => hop.pool), [base, mid, close]);
+  assert.deepEqual(opp.route.map(hop => hop.outputMint.toBase58()), [token, TOKENS.USDC, SOL].map(k => k.toBase58()));
+  assert.equal(opp.buyPool, base);
+  assert.equal(opp.sellPool, close);
+  assert.ok(opp.expectedProfit.eq(manager.quoteRoute(opp.route, opp.inputAmount).minus(opp.inputAmount)));
+});
+
+test('triangular: no cycle without a bridge pool back to SOL, or through a mint that is not a bridge', () => {
+  const [token, other] = [randomKey(), randomKey()];
+  const base = between(SOL, token, 100e9, 100e9);
+  const manager = new PoolManager(new Connection('http://127.0.0.1:1'));
+  manager.add([base, between(token, TOKENS.USDC, 100e9, 103e9), between(token, other, 100e9, 103e9), between(other, SOL, 100e9, 100e9)]);
+
+  assert.deepEqual(new TriangularStrategy(manager).findOpportunities([base], SOL, MAX_INPUT), []);
+});